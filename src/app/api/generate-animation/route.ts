@@ -1,34 +1,115 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateAnimationCode, regenerateNarration } from '@/lib/gemini';
-import { PaperSection } from '@/types';
+import { generateAnimationCode, regenerateNarration, regenerateSection, regenerateSegment, translateScript } from '@/lib/gemini';
+import { isSupportedLanguage } from '@/lib/languages';
+import { parseLLMCallOptions } from '@/lib/llm';
+import { parsePromptVersions } from '@/lib/prompts';
+import { validateOutlineJson } from '@/lib/analysis-schema';
+import { isAnalysisSettings, isExtractedDocument } from '@/lib/analyze-request';
+import { PaperSection, PresentationScript } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { section, engine, action, style, perspective } = body as {
+    const { section, engine, action, style, perspective, segmentIndex, language, llm: rawLLM, bypassCache, promptVersions: rawPromptVersions } = body as {
       section: PaperSection;
       engine?: 'threejs' | 'd3' | 'css' | 'manim';
-      action: 'generate-code' | 'regenerate-narration';
+      action: 'generate-code' | 'regenerate-narration' | 'regenerate-segment' | 'regenerate-section' | 'translate-script';
       style?: 'professional' | 'conversational' | 'academic';
       perspective?: string;
+      segmentIndex?: number;   // for regenerate-segment
+      language?: string;       // narration language, a code from LANGUAGES
+      llm?: unknown;       // { provider, model, temperature, endpoint }
+      bypassCache?: boolean;
+      promptVersions?: unknown; // template version by prompt name, e.g. { "narration": 2 }
     };
+    const llm = parseLLMCallOptions(rawLLM);
+    const promptVersions = parsePromptVersions(rawPromptVersions);
+    if ('error' in promptVersions) {
+      return NextResponse.json({ error: promptVersions.error }, { status: 400 });
+    }
+    const narrationLanguage = isSupportedLanguage(language) ? language : undefined;
+    // Aborts when the client disconnects, stopping the model calls
+    const signal = request.signal;
 
     if (action === 'generate-code' && engine) {
-      const code = await generateAnimationCode(section, engine);
+      const code = await generateAnimationCode(section, engine, { llm, bypassCache: bypassCache === true, signal, promptVersions });
       return NextResponse.json({ code });
     }
 
     if (action === 'regenerate-narration') {
-      const narration = await regenerateNarration(
+      const script = await regenerateNarration(
         section,
         style || 'professional',
-        perspective || 'first-person'
+        perspective || 'first-person',
+        { llm, bypassCache: bypassCache === true, signal, promptVersions, language: narrationLanguage }
       );
-      return NextResponse.json({ narration });
+      return NextResponse.json({ script, narration: script.fullText });
+    }
+
+    if (action === 'regenerate-segment') {
+      if (typeof segmentIndex !== 'number') {
+        return NextResponse.json({ error: 'segmentIndex is required' }, { status: 400 });
+      }
+      const segment = await regenerateSegment(
+        section,
+        segmentIndex,
+        style || 'professional',
+        perspective || 'first-person',
+        { llm, bypassCache: bypassCache === true, signal, promptVersions, language: narrationLanguage }
+      );
+      return NextResponse.json({ segment });
+    }
+
+    if (action === 'regenerate-section') {
+      const { outline: rawOutline, sectionIndex, text, document, settings, guidance } = body as {
+        outline: unknown;    // the analysis without scripts: title, field, sections' titles and concepts
+        sectionIndex: number;
+        text: string;
+        document?: unknown;
+        settings?: unknown;
+        guidance?: string;
+      };
+      const outline = validateOutlineJson(JSON.stringify(rawOutline ?? null)).value;
+      if (!outline || typeof sectionIndex !== 'number' || !outline.sections[sectionIndex] || typeof text !== 'string') {
+        return NextResponse.json({ error: 'Invalid section regeneration request' }, { status: 400 });
+      }
+      if (document !== undefined && !isExtractedDocument(document)) {
+        return NextResponse.json({ error: 'Invalid document structure' }, { status: 400 });
+      }
+      if (settings !== undefined && !isAnalysisSettings(settings)) {
+        return NextResponse.json({ error: 'Invalid analysis settings' }, { status: 400 });
+      }
+
+      const regenerated = await regenerateSection(
+        {
+          outline,
+          sectionIndex,
+          pdfText: text,
+          sourceDocument: document,
+          narratorPerspective: perspective,
+          analysisSettings: settings,
+          guidance: typeof guidance === 'string' ? guidance : undefined,
+        },
+        { llm, signal, promptVersions }
+      );
+      return NextResponse.json({ section: regenerated });
+    }
+
+    if (action === 'translate-script') {
+      const { script } = body as { script?: PresentationScript };
+      if (!narrationLanguage || !script || !Array.isArray(script.sections) || !Array.isArray(script.transitions)) {
+        return NextResponse.json({ error: 'Invalid translation request' }, { status: 400 });
+      }
+      const translated = await translateScript(script, narrationLanguage, { llm, bypassCache: bypassCache === true, signal, promptVersions });
+      return NextResponse.json({ script: translated });
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
   } catch (error) {
+    if (request.signal.aborted) {
+      console.info('[generate-animation] client disconnected; generation stopped');
+      return new NextResponse(null, { status: 499 });
+    }
     console.error('Generation error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Generation failed' },
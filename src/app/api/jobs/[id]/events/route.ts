@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, isTerminalEvent } from '@/lib/jobs';
+import { JobEvent } from '@/types';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Server-Sent Events stream of a job's events. Past events are replayed
+ * first (after Last-Event-ID on reconnect); the stream closes after the
+ * job completes, fails or is cancelled.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const store = getJobStore();
+  if (!store.get(id)) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '0') || 0;
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The consumer can cancel the stream before request.signal aborts;
+      // writing to it after that throws
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the consumer
+        }
+      };
+
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      const send = (event: JobEvent) => {
+        write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (isTerminalEvent(event)) close();
+      };
+
+      const backlog = store.eventsSince(id, lastEventId);
+      backlog.forEach(send);
+      if (closed) return;
+
+      // The job may have finished before this request arrived
+      const status = store.get(id)?.status;
+      if (status !== 'running' && backlog.length === 0) {
+        close();
+        return;
+      }
+
+      unsubscribe = store.subscribe(id, send);
+      request.signal.addEventListener('abort', close);
+    },
+
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/jobs';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/** Status and the sections generated so far */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = getJobStore().get(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+/** Cancel a running job */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = getJobStore().cancel(id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyzeForm, runAnalyzeRequest } from '@/lib/analyze-request';
+import { getJobStore } from '@/lib/jobs';
+
+/** Start an analysis job; takes the same form fields as POST /api/analyze */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseAnalyzeForm(await request.formData());
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const job = getJobStore().create((ctx) => runAnalyzeRequest(parsed, {
+      signal: ctx.signal,
+      onProgress: ctx.progress,
+      onSection: ctx.section,
+    }));
+
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start analysis' },
+      { status: 500 }
+    );
+  }
+}
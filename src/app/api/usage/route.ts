@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/usage';
+
+/** This month's model usage and spend against the budget; ?month=YYYY-MM for another month */
+export async function GET(request: NextRequest) {
+  const month = request.nextUrl.searchParams.get('month');
+  if (month && !/^\d{4}-\d{2}$/.test(month)) {
+    return NextResponse.json({ error: 'month must look like 2025-01' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getUsageReport(month || undefined));
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { useMemo } from 'react';
 import { PaperSection, PlayerState } from '@/types';
 import dynamic from 'next/dynamic';
 import AnimeCharacter, { CharacterPose } from './animations/AnimeCharacter';
+import { resolveStepPosition, StepPosition } from '@/lib/keyframes';
+import { FrameMotionContext, useFrameMotion } from '@/lib/frame-animations';
 
 const EquationRenderer = dynamic(
   () => import('./animations/EquationRenderer'),
@@ -22,28 +24,49 @@ const ThreeRenderer = dynamic(
   { ssr: false }
 );
 
+/** The equation to show at a step position, spreading the equations over the steps */
+function equationForStep(position: StepPosition, stepCount: number, equationCount: number): number {
+  const first = Math.floor((position.index / stepCount) * equationCount);
+  const last = Math.max(first, Math.ceil(((position.index + 1) / stepCount) * equationCount) - 1);
+  return Math.min(first + Math.floor(position.progress * (last - first + 1)), last, equationCount - 1);
+}
+
 interface AnimationPlayerProps {
   section: PaperSection;
   playerState: PlayerState;
   animationProgress: number;
-  activeStepId?: string;
+  activeStepId?: string;        // step the narration is on, from TimelineController
+  stepProgress?: number;        // 0-1 through that step's narration
   transitionState?: 'entering' | 'active' | 'exiting';
   enableDoodles?: boolean;
   enableCharacter?: boolean;
+  frameTime?: number;           // timeline seconds when rendering frame by frame; unset for real-time playback
 }
 
 export default function AnimationPlayer({
   section,
   animationProgress,
+  activeStepId,
+  stepProgress,
   transitionState = 'active',
   enableDoodles = true,
   enableCharacter = true,
+  frameTime,
 }: AnimationPlayerProps) {
   // Progress is now driven by the parent (TimelineController via AppContent)
   // No internal requestAnimationFrame loop needed
+  const frameMotion = useFrameMotion(frameTime);
 
-  // Compute current step index for character pose logic
+  // Visuals follow the step being narrated, so long and short steps get
+  // their own time; without a script, progress is sliced evenly
   const steps = section.animationData?.steps || [];
+  const stepIds = steps.map((step) => step.id);
+  const position = resolveStepPosition(stepIds, animationProgress, activeStepId, stepProgress);
+
+  const equations = section.equations || [];
+  const equationIndex = steps.length > 0
+    ? equationForStep(position, steps.length, equations.length)
+    : resolveStepPosition(equations, animationProgress).index;
 
   // Determine character pose based on animation state
   const characterPose: CharacterPose = useMemo(() => {
@@ -53,8 +76,7 @@ export default function AnimationPlayer({
 
     if (steps.length === 0) return 'idle';
 
-    // Local progress within current step
-    const stepLocalProgress = (animationProgress * steps.length) % 1;
+    const stepLocalProgress = position.progress;
 
     if (stepLocalProgress < 0.25) {
       return 'pointing'; // New elements appearing
@@ -65,16 +87,17 @@ export default function AnimationPlayer({
     }
 
     return 'idle';
-  }, [animationProgress, steps.length, transitionState]);
+  }, [position.progress, steps.length, transitionState]);
 
   const renderVisualization = () => {
     switch (section.visualization) {
       case 'katex':
         return (
           <EquationRenderer
-            equations={section.equations || []}
+            equations={equations}
             narration={section.narration}
             animationProgress={animationProgress}
+            equationIndex={equationIndex}
             title={section.title}
             transitionState={transitionState}
             enableDoodles={enableDoodles}
@@ -86,9 +109,12 @@ export default function AnimationPlayer({
             animationData={section.animationData!}
             narration={section.narration}
             animationProgress={animationProgress}
+            stepIndex={position.index}
+            stepProgress={position.progress}
             title={section.title}
             transitionState={transitionState}
             enableDoodles={enableDoodles}
+            frameTime={frameTime}
           />
         );
       case 'threejs':
@@ -100,6 +126,7 @@ export default function AnimationPlayer({
             title={section.title}
             contentType={section.contentType}
             transitionState={transitionState}
+            frameTime={frameTime}
           />
         );
       case 'css':
@@ -109,6 +136,8 @@ export default function AnimationPlayer({
             animationData={section.animationData!}
             narration={section.narration}
             animationProgress={animationProgress}
+            stepIndex={position.index}
+            stepProgress={position.progress}
             title={section.title}
             transitionState={transitionState}
             enableDoodles={enableDoodles}
@@ -117,16 +146,21 @@ export default function AnimationPlayer({
     }
   };
 
+  // Frame by frame, the Framer Motion animations below run on `frameTime`
+  // through the frame timing rather than on the browser's clock
   return (
-    <div className="w-full aspect-video rounded-2xl overflow-hidden border border-gray-200/60 shadow-lg relative">
-      {renderVisualization()}
-      {enableCharacter && (
-        <AnimeCharacter
-          pose={characterPose}
-          position="bottom-right"
-          size={85}
-        />
-      )}
-    </div>
+    <FrameMotionContext.Provider value={frameMotion}>
+      <div className="w-full aspect-video rounded-2xl overflow-hidden border border-gray-200/60 shadow-lg relative">
+        {renderVisualization()}
+        {enableCharacter && (
+          <AnimeCharacter
+            pose={characterPose}
+            position="bottom-right"
+            size={85}
+            time={frameTime}
+          />
+        )}
+      </div>
+    </FrameMotionContext.Provider>
   );
 }
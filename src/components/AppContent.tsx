@@ -1,9 +1,14 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { AnalysisResult, PlayerState, UserSettings, TimelineState, NarrationSegment } from '@/types';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { AnalysisResult, AudienceLevel, PlayerState, UserSettings, TimelineState, NarrationSegment, NarrationVoice, ExtractedDocument, JobEvent, PaperSection, PresentationScript, SectionScript, SpeechTiming } from '@/types';
 import { TimelineController } from '@/lib/timeline';
+import { getNarrationRate } from '@/lib/speech';
 import { buildPresentationScript } from '@/lib/script-builder';
+import { buildSourceIndex, verifyScriptCitations } from '@/lib/citations';
+import { attachFigureAssets, documentToText, stripAssetData } from '@/lib/document';
+import { getProjectAssets } from '@/lib/project-assets';
+import { cancelAnalysisJob, startAnalysisJob, watchAnalysisJob } from '@/lib/job-client';
 import PDFUploader from '@/components/PDFUploader';
 import AnimationPlayer from '@/components/AnimationPlayer';
 import PlayerControls from '@/components/PlayerControls';
@@ -11,6 +16,8 @@ import SectionList from '@/components/SectionList';
 import NarrationPanel from '@/components/NarrationPanel';
 import CodePanel from '@/components/CodePanel';
 import SettingsPanel from '@/components/SettingsPanel';
+import UsagePanel from '@/components/UsagePanel';
+import ExportPanel from '@/components/ExportPanel';
 import Captions from '@/components/Captions';
 import SectionTransitioner from '@/components/SectionTransitioner';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -31,10 +38,18 @@ const defaultSettings: UserSettings = {
   includeCode: true,
   showNarration: true,
   narratorPerspective: 'first-person',
+  audienceLevel: 'undergraduate',
+  language: 'en',
   enableDoodles: true,
   enableCharacter: true,
 };
 
+const audienceLabels: Record<AudienceLevel, string> = {
+  'high-school': 'High school',
+  undergraduate: 'Undergrad',
+  expert: 'Expert',
+};
+
 const defaultPlayerState: PlayerState = {
   isPlaying: false,
   currentSection: 0,
@@ -52,16 +67,31 @@ export default function Home() {
   const [playerState, setPlayerState] = useState<PlayerState>(defaultPlayerState);
   const [settings, setSettings] = useState<UserSettings>(defaultSettings);
   const [showSidebar, setShowSidebar] = useState(true);
-  const [activePanel, setActivePanel] = useState<'sections' | 'code' | 'settings'>('sections');
+  const [activePanel, setActivePanel] = useState<'sections' | 'code' | 'settings' | 'usage' | 'export'>('sections');
   const [enableVoice, setEnableVoice] = useState(true);
   const [showCaptions, setShowCaptions] = useState(true);
   const [timelineState, setTimelineState] = useState<TimelineState | null>(null);
   const [currentSegment, setCurrentSegment] = useState<NarrationSegment | null>(null);
-  const [pdfText, setPdfText] = useState<string | null>(null);
+  const [paperDocument, setPaperDocument] = useState<ExtractedDocument | null>(null);
   const [settingsChanged, setSettingsChanged] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<JobEvent | null>(null);
+  const [regeneratingSection, setRegeneratingSection] = useState<number | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // Finished analyses of the current paper, one per audience level
+  const [variants, setVariants] = useState<Partial<Record<AudienceLevel, AnalysisResult>>>({});
+  const [activeAudience, setActiveAudience] = useState<AudienceLevel>(defaultSettings.audienceLevel);
+  const [narrationVoiceKey, setNarrationVoiceKey] = useState('default');
+  const narrationVoice = useMemo<NarrationVoice>(
+    () => ({ voice: narrationVoiceKey, rate: getNarrationRate(settings.narrationSpeed) }),
+    [narrationVoiceKey, settings.narrationSpeed]
+  );
 
   const timelineRef = useRef<TimelineController | null>(null);
+  const jobRef = useRef<{ id: string; stop: () => void } | null>(null);
   const lastAnalysisSettingsRef = useRef<UserSettings>(defaultSettings);
+  const timedVoiceRef = useRef(narrationVoice);   // the voice the script's timings were fitted for
+  const pendingSpeechTimingRef = useRef<SpeechTiming | null>(null);   // measured while playing, not applied yet
+  const flushSpeechTimingRef = useRef(() => {});
 
   // Subscribe to timeline updates
   useEffect(() => {
@@ -82,70 +112,310 @@ export default function Home() {
         speed: timeline.getSpeed(),
         isTransitioning: state.phase === 'transition',
       }));
-
-      // Update current segment for captions
-      if (state.phase === 'section' && analysis.presentationScript) {
-        const script = analysis.presentationScript.sections[state.sectionIndex];
-        if (script && script.segments[state.segmentIndex]) {
-          setCurrentSegment(script.segments[state.segmentIndex]);
-        } else {
-          setCurrentSegment(null);
-        }
-      } else {
-        setCurrentSegment(null);
-      }
     });
 
-    return unsubscribe;
+    // Current segment for captions. Between segments the last one stays up;
+    // it goes with its section, or when a seek jumps away from it
+    setCurrentSegment(timeline.getActiveSegment());
+    const stopListening = [
+      timeline.on('segmentEnter', (event) => setCurrentSegment(event.segment)),
+      timeline.on('segmentExit', (event) => {
+        if (event.seek) setCurrentSegment(null);
+      }),
+      timeline.on('sectionExit', () => {
+        setCurrentSegment(null);
+        // After the tick that fired this, so the cues are not swapped mid-way
+        queueMicrotask(() => flushSpeechTimingRef.current());
+      }),
+    ];
+
+    return () => {
+      unsubscribe();
+      stopListening.forEach((stop) => stop());
+    };
   }, [analysis]);
 
-  const handleTextExtracted = useCallback(async (text: string) => {
-    setPdfText(text);
+  /**
+   * Show an analysis (partial while sections are still arriving). With
+   * `keepPosition`, the current timeline is updated in place so playback
+   * carries on into the new sections.
+   */
+  const showAnalysis = useCallback((next: AnalysisResult, extracted: ExtractedDocument, keepPosition: boolean) => {
+    const result = attachFigureAssets(next, extracted);
+    getProjectAssets().set(result.assets);
+
+    // Ensure presentation script exists (API should have built it, but fallback);
+    // measured timings are refitted, since the voice may have changed since
+    if (!result.presentationScript || result.speechTiming) {
+      result.presentationScript = buildPresentationScript(result, narrationVoice);
+    }
+
+    if (keepPosition && timelineRef.current) {
+      timelineRef.current.update(result.presentationScript);
+    } else {
+      timelineRef.current?.destroy();
+      timelineRef.current = new TimelineController(result.presentationScript);
+    }
+
+    setAnalysis(result);
+    if (!keepPosition) {
+      setPlayerState({ ...defaultPlayerState });
+    }
+  }, [narrationVoice]);
+
+  const stopWatchingJob = useCallback(() => {
+    jobRef.current?.stop();
+    jobRef.current = null;
+  }, []);
+
+  /** Analyze the paper with `analysisSettings` and keep the result as that audience's variant */
+  const analyzeDocument = useCallback(async (extracted: ExtractedDocument, analysisSettings: UserSettings) => {
+    stopWatchingJob();
+    setPaperDocument(extracted);
     setIsAnalyzing(true);
+    setAnalysisProgress(null);
+    setActiveAudience(analysisSettings.audienceLevel);
     try {
       const formData = new FormData();
-      formData.append('text', text);
-      formData.append('narratorPerspective', settings.narratorPerspective);
-      formData.append('visualStyle', settings.visualStyle);
-      formData.append('colorScheme', settings.colorScheme);
-      formData.append('animationDuration', String(settings.animationDuration));
-      formData.append('includeEquations', String(settings.includeEquations));
-      formData.append('includeCode', String(settings.includeCode));
-
-      const res = await fetch('/api/analyze', {
-        method: 'POST',
-        body: formData,
+      formData.append('text', documentToText(extracted));
+      formData.append('document', JSON.stringify(stripAssetData(extracted)));
+      formData.append('narratorPerspective', analysisSettings.narratorPerspective);
+      formData.append('audienceLevel', analysisSettings.audienceLevel);
+      formData.append('language', analysisSettings.language);
+      formData.append('visualStyle', analysisSettings.visualStyle);
+      formData.append('colorScheme', analysisSettings.colorScheme);
+      formData.append('animationDuration', String(analysisSettings.animationDuration));
+      formData.append('includeEquations', String(analysisSettings.includeEquations));
+      formData.append('includeCode', String(analysisSettings.includeCode));
+
+      const job = await startAnalysisJob(formData);
+
+      // Play sections as they arrive; the final result replaces the partial one
+      await new Promise<void>((resolve, reject) => {
+        const ready: PaperSection[] = [];
+        let shown = 0;
+
+        const stop = watchAnalysisJob(job.id, {
+          onEvent: (event) => {
+            if (event.type === 'phase' || event.type === 'section') {
+              setAnalysisProgress(event);
+            }
+            if (event.type === 'section' && event.section && event.sectionIndex !== undefined) {
+              ready[event.sectionIndex] = event.section;
+              let count = 0;
+              while (ready[count]) count++;
+              if (count > shown) {
+                showAnalysis({
+                  field: 'general',
+                  title: extracted.title || 'Untitled paper',
+                  abstract: '',
+                  sections: ready.slice(0, count),
+                  suggestedStyle: 'minimal',
+                  totalDuration: 0,
+                }, extracted, shown > 0);
+                shown = count;
+              }
+            } else if (event.type === 'completed' && event.result) {
+              const result = event.result;
+              showAnalysis(result, extracted, shown > 0);
+              setVariants((prev) => ({ ...prev, [analysisSettings.audienceLevel]: result }));
+              lastAnalysisSettingsRef.current = { ...analysisSettings };
+              setSettingsChanged(false);
+              resolve();
+            } else if (event.type === 'failed') {
+              reject(new Error(event.error || 'Analysis failed'));
+            } else if (event.type === 'cancelled') {
+              resolve();
+            }
+          },
+          onError: (message) => reject(new Error(message)),
+        });
+        jobRef.current = { id: job.id, stop };
       });
+    } catch (error) {
+      console.error('Analysis failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to analyze paper');
+    } finally {
+      stopWatchingJob();
+      setIsAnalyzing(false);
+      setAnalysisProgress(null);
+    }
+  }, [showAnalysis, stopWatchingJob]);
+
+  // A new paper (or a re-analysis with new settings) starts a fresh set of variants
+  const handleDocumentExtracted = useCallback(async (extracted: ExtractedDocument) => {
+    setVariants({});
+    await analyzeDocument(extracted, settings);
+  }, [analyzeDocument, settings]);
+
+  /** Switch to another audience's version of the paper, generating it on first use */
+  const handleAudienceSelect = useCallback(async (level: AudienceLevel) => {
+    if (!paperDocument || isAnalyzing) return;
+    const variantSettings = { ...lastAnalysisSettingsRef.current, audienceLevel: level };
+    setSettings((s) => ({ ...s, audienceLevel: level }));
+
+    const variant = variants[level];
+    if (variant) {
+      lastAnalysisSettingsRef.current = variantSettings;
+      setActiveAudience(level);
+      showAnalysis(variant, paperDocument, false);
+    } else {
+      await analyzeDocument(paperDocument, variantSettings);
+    }
+  }, [paperDocument, isAnalyzing, variants, showAnalysis, analyzeDocument]);
 
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.error || 'Analysis failed');
+  const handleCancelAnalysis = useCallback(async () => {
+    const job = jobRef.current;
+    if (!job) return;
+    try {
+      await cancelAnalysisJob(job.id);
+    } catch (error) {
+      console.error('Cancel failed:', error);
+    }
+  }, []);
+
+  /** Replace one section with a freshly generated one, keeping the rest of the video */
+  const handleRegenerateSection = useCallback(async (index: number, guidance: string) => {
+    if (!analysis || !paperDocument) return;
+    setRegeneratingSection(index);
+    // The settings the analysis was written with, so the section matches its neighbours
+    const analyzed = lastAnalysisSettingsRef.current;
+    try {
+      const res = await fetch('/api/generate-animation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'regenerate-section',
+          outline: {
+            field: analysis.field,
+            title: analysis.title,
+            abstract: analysis.abstract,
+            suggestedStyle: analysis.suggestedStyle,
+            totalDuration: analysis.totalDuration,
+            sections: analysis.sections.map(({ id, title, contentType, visualization, concept, sourcePages, sourceChunks }) => (
+              { id, title, contentType, visualization, concept, sourcePages, sourceChunks }
+            )),
+          },
+          sectionIndex: index,
+          text: documentToText(paperDocument),
+          document: stripAssetData(paperDocument),
+          perspective: analyzed.narratorPerspective,
+          settings: {
+            audienceLevel: analyzed.audienceLevel,
+            language: analysis.language,
+            visualStyle: analyzed.visualStyle,
+            colorScheme: analyzed.colorScheme,
+            animationDuration: analyzed.animationDuration,
+            includeEquations: analyzed.includeEquations,
+            includeCode: analyzed.includeCode,
+          },
+          guidance,
+          // Write it with the same section template as the rest of the analysis
+          promptVersions: analysis.promptVersions,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.section) {
+        throw new Error(data.error || 'Failed to regenerate section');
       }
 
-      const result: AnalysisResult = await res.json();
+      const sections = [...analysis.sections];
+      sections[index] = data.section;
+      const updated: AnalysisResult = { ...analysis, sections };
+      updated.presentationScript = buildPresentationScript(updated, narrationVoice);
+      showAnalysis(updated, paperDocument, true);
 
-      // Ensure presentation script exists (API should have built it, but fallback)
-      if (!result.presentationScript) {
-        result.presentationScript = buildPresentationScript(result);
-      }
-
-      setAnalysis(result);
-      setPlayerState({ ...defaultPlayerState });
-      lastAnalysisSettingsRef.current = { ...settings };
-      setSettingsChanged(false);
+      // Show the new version of the section
+      timelineRef.current?.pause();
+      timelineRef.current?.seekToSection(index);
+      setPlayerState((s) => ({ ...s, isPlaying: false, currentSection: index, progress: 0, currentSegment: 0 }));
+    } catch (error) {
+      console.error('Section regeneration failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to regenerate section');
+    } finally {
+      setRegeneratingSection(null);
+    }
+  }, [analysis, paperDocument, narrationVoice, showAnalysis]);
 
-      // Destroy old timeline and create new one
-      if (timelineRef.current) {
-        timelineRef.current.destroy();
+  /** Translate the narration into the selected language, keeping the sections and their animations */
+  const handleTranslate = useCallback(async () => {
+    if (!analysis?.presentationScript || !paperDocument) return;
+    const language = settings.language;
+    setIsTranslating(true);
+    try {
+      const res = await fetch('/api/generate-animation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'translate-script', script: analysis.presentationScript, language }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.script) {
+        throw new Error(data.error || 'Failed to translate narration');
       }
-      timelineRef.current = new TimelineController(result.presentationScript);
+
+      const translated = data.script as PresentationScript;
+      const sections = analysis.sections.map((section, i) => {
+        const script = translated.sections[i];
+        return script ? { ...section, script, narration: script.fullText } : section;
+      });
+      const updated: AnalysisResult = { ...analysis, sections, language };
+      updated.presentationScript = buildPresentationScript(updated, narrationVoice);
+      showAnalysis(updated, paperDocument, true);
+      setVariants((prev) => ({ ...prev, [activeAudience]: updated }));
+      lastAnalysisSettingsRef.current = { ...lastAnalysisSettingsRef.current, language };
     } catch (error) {
-      console.error('Analysis failed:', error);
-      alert(error instanceof Error ? error.message : 'Failed to analyze paper');
+      console.error('Translation failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to translate narration');
     } finally {
-      setIsAnalyzing(false);
+      setIsTranslating(false);
+    }
+  }, [analysis, paperDocument, settings.language, activeAudience, narrationVoice, showAnalysis]);
+
+  // Spoken lengths replace the estimated ones; the timeline is retimed in place
+  // so playback carries on from the same word
+  const applySpeechTiming = useCallback((speechTiming: SpeechTiming) => {
+    if (!analysis) return;
+    const updated: AnalysisResult = { ...analysis, speechTiming };
+    updated.presentationScript = buildPresentationScript(updated, narrationVoice);
+    setAnalysis(updated);
+    setVariants((prev) => (prev[activeAudience] ? { ...prev, [activeAudience]: updated } : prev));
+    timelineRef.current?.retime(updated.presentationScript);
+  }, [analysis, activeAudience, narrationVoice]);
+
+  // Retiming moves the cues around the playhead, so measurements taken while
+  // playing wait for the section to end or playback to pause
+  const handleSpeechTimingChange = useCallback((speechTiming: SpeechTiming) => {
+    if (timelineRef.current?.isPlaying()) {
+      pendingSpeechTimingRef.current = speechTiming;
+      return;
     }
-  }, [settings]);
+    pendingSpeechTimingRef.current = null;
+    applySpeechTiming(speechTiming);
+  }, [applySpeechTiming]);
+
+  useEffect(() => {
+    flushSpeechTimingRef.current = () => {
+      const pending = pendingSpeechTimingRef.current;
+      pendingSpeechTimingRef.current = null;
+      if (pending) applySpeechTiming(pending);
+    };
+  }, [applySpeechTiming]);
+
+  // Measured timings only fit the voice and rate they were measured with,
+  // so choosing another retimes the script (to the estimates, until it is measured)
+  useEffect(() => {
+    if (timedVoiceRef.current === narrationVoice) return;
+    timedVoiceRef.current = narrationVoice;
+    if (!analysis?.speechTiming) return;
+    const updated: AnalysisResult = { ...analysis };
+    updated.presentationScript = buildPresentationScript(updated, narrationVoice);
+    setAnalysis(updated);
+    setVariants((prev) => (prev[activeAudience] ? { ...prev, [activeAudience]: updated } : prev));
+    timelineRef.current?.retime(updated.presentationScript);
+  }, [analysis, activeAudience, narrationVoice]);
+
+  // Stop following a running job when the page goes away
+  useEffect(() => stopWatchingJob, [stopWatchingJob]);
 
   // Detect when settings have changed since last analysis
   useEffect(() => {
@@ -153,6 +423,8 @@ export default function Home() {
     const last = lastAnalysisSettingsRef.current;
     const changed = (
       last.narratorPerspective !== settings.narratorPerspective ||
+      last.audienceLevel !== settings.audienceLevel ||
+      last.language !== settings.language ||
       last.visualStyle !== settings.visualStyle ||
       last.colorScheme !== settings.colorScheme ||
       last.animationDuration !== settings.animationDuration ||
@@ -163,11 +435,12 @@ export default function Home() {
   }, [settings, analysis]);
 
   const handleReanalyze = useCallback(async () => {
-    if (!pdfText) return;
-    await handleTextExtracted(pdfText);
-  }, [pdfText, handleTextExtracted]);
+    if (!paperDocument) return;
+    await handleDocumentExtracted(paperDocument);
+  }, [paperDocument, handleDocumentExtracted]);
 
   const currentSection = analysis?.sections[playerState.currentSection];
+  const citationIndex = useMemo(() => (paperDocument ? buildSourceIndex(paperDocument) : null), [paperDocument]);
 
   // Timeline-driven controls
   const handlePlay = () => {
@@ -178,6 +451,7 @@ export default function Home() {
   const handlePause = () => {
     timelineRef.current?.pause();
     setPlayerState((s) => ({ ...s, isPlaying: false }));
+    flushSpeechTimingRef.current();
   };
 
   const handleReset = () => {
@@ -218,28 +492,30 @@ export default function Home() {
     timelineRef.current?.seek(time);
   };
 
-  const handleNarrationUpdate = (narration: string) => {
-    if (!analysis || !currentSection) return;
+  const updateCurrentSection = (updatedSection: PaperSection) => {
+    if (!analysis) return;
     const updatedSections = [...analysis.sections];
-    updatedSections[playerState.currentSection] = {
-      ...currentSection,
-      narration,
-    };
+    updatedSections[playerState.currentSection] = updatedSection;
     const updatedAnalysis = { ...analysis, sections: updatedSections };
 
-    // Rebuild presentation script with updated narration
-    updatedAnalysis.presentationScript = buildPresentationScript(updatedAnalysis);
+    // Rebuild presentation script and retime the running timeline in place
+    updatedAnalysis.presentationScript = buildPresentationScript(updatedAnalysis, narrationVoice);
     setAnalysis(updatedAnalysis);
+    timelineRef.current?.update(updatedAnalysis.presentationScript);
+  };
 
-    // Recreate timeline with updated script
-    if (timelineRef.current) {
-      const wasPlaying = timelineRef.current.isPlaying();
-      const currentTime = timelineRef.current.getCurrentTime();
-      timelineRef.current.destroy();
-      timelineRef.current = new TimelineController(updatedAnalysis.presentationScript);
-      timelineRef.current.seek(currentTime);
-      if (wasPlaying) timelineRef.current.play();
-    }
+  // A hand-edited narration no longer matches the old segments, so it is
+  // spread over the animation steps again when the script is rebuilt
+  const handleNarrationUpdate = (narration: string) => {
+    if (!currentSection) return;
+    updateCurrentSection({ ...currentSection, narration, script: undefined });
+  };
+
+  // Rewritten segments cite passages from memory, so they are checked against the paper again
+  const handleScriptUpdate = (script: SectionScript) => {
+    if (!currentSection) return;
+    const verified = citationIndex ? verifyScriptCitations(script, citationIndex) : script;
+    updateCurrentSection({ ...currentSection, narration: verified.fullText, script: verified });
   };
 
   // Determine what to render based on timeline phase
@@ -316,8 +592,10 @@ export default function Home() {
               </div>
 
               <PDFUploader
-                onTextExtracted={handleTextExtracted}
+                onDocumentExtracted={handleDocumentExtracted}
                 isAnalyzing={isAnalyzing}
+                progress={analysisProgress}
+                onCancel={handleCancelAnalysis}
               />
 
               {/* Features */}
@@ -383,12 +661,47 @@ export default function Home() {
                       <span className="text-[10px] text-gray-400">
                         {analysis.sections.length} sections
                       </span>
+                      {analysis.sourcePageCount !== undefined && (
+                        <span className="text-[10px] text-gray-400">
+                          {analysis.sourcePageCount} pages
+                        </span>
+                      )}
                     </div>
+                    <div className="flex gap-1 mt-3">
+                      {(Object.keys(audienceLabels) as AudienceLevel[]).map((level) => (
+                        <button
+                          key={level}
+                          onClick={() => handleAudienceSelect(level)}
+                          disabled={isAnalyzing || level === activeAudience}
+                          title={variants[level] ? `Switch to the ${audienceLabels[level]} version` : `Generate a ${audienceLabels[level]} version`}
+                          className={`flex-1 py-1 text-[10px] font-medium rounded-lg transition-colors ${
+                            level === activeAudience
+                              ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                              : variants[level]
+                              ? 'bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100 disabled:opacity-50'
+                              : 'text-gray-400 border border-dashed border-gray-200 hover:text-gray-600 disabled:opacity-50'
+                          }`}
+                        >
+                          {audienceLabels[level]}
+                        </button>
+                      ))}
+                    </div>
+                    {isAnalyzing && analysisProgress && (
+                      <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t border-gray-100">
+                        <p className="text-[11px] text-blue-600 truncate">{analysisProgress.message}</p>
+                        <button
+                          onClick={handleCancelAnalysis}
+                          className="text-[11px] text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
                   </div>
 
                   {/* Panel Tabs */}
                   <div className="flex gap-1 bg-white border border-gray-200 rounded-xl p-1">
-                    {(['sections', 'code', 'settings'] as const).map((panel) => (
+                    {(['sections', 'code', 'settings', 'usage', 'export'] as const).map((panel) => (
                       <button
                         key={panel}
                         onClick={() => setActivePanel(panel)}
@@ -409,6 +722,9 @@ export default function Home() {
                       sections={analysis.sections}
                       currentSection={playerState.currentSection}
                       onSectionSelect={handleSectionSelect}
+                      sourceChunks={analysis.sourceChunks}
+                      onRegenerate={isAnalyzing ? undefined : handleRegenerateSection}
+                      regeneratingIndex={regeneratingSection}
                     />
                   )}
 
@@ -424,6 +740,23 @@ export default function Home() {
                       settingsChanged={settingsChanged}
                       onReanalyze={handleReanalyze}
                       isReanalyzing={isAnalyzing}
+                      analysisLanguage={analysis.language}
+                      onTranslate={analysis.presentationScript ? handleTranslate : undefined}
+                      isTranslating={isTranslating}
+                    />
+                  )}
+
+                  {activePanel === 'usage' && (
+                    <UsagePanel analysisUsage={analysis.usage} />
+                  )}
+
+                  {activePanel === 'export' && (
+                    <ExportPanel
+                      analysis={analysis}
+                      enableDoodles={settings.enableDoodles}
+                      enableCharacter={settings.enableCharacter}
+                      showCaptions={showCaptions}
+                      onExportStart={handlePause}
                     />
                   )}
                 </motion.div>
@@ -447,6 +780,7 @@ export default function Home() {
                         playerState={playerState}
                         animationProgress={timelineState?.sectionProgress ?? playerState.progress}
                         activeStepId={timelineState?.activeStepId}
+                        stepProgress={timelineState?.stepProgress}
                         enableDoodles={settings.enableDoodles}
                         enableCharacter={settings.enableCharacter}
                       />
@@ -462,7 +796,13 @@ export default function Home() {
                       onVoiceToggle={setEnableVoice}
                       onCaptionsToggle={setShowCaptions}
                       currentSegment={currentSegment}
+                      timeline={timelineRef.current}
                       segmentProgress={timelineState?.segmentProgress ?? 0}
+                      language={analysis.language}
+                      script={analysis.presentationScript}
+                      speechTiming={analysis.speechTiming}
+                      onSpeechTimingChange={handleSpeechTimingChange}
+                      onVoiceChange={setNarrationVoiceKey}
                       onNarrationComplete={() => {
                         if (timelineState?.phase === 'complete') {
                           handlePause();
@@ -489,8 +829,10 @@ export default function Home() {
                       <NarrationPanel
                         section={currentSection}
                         onNarrationUpdate={handleNarrationUpdate}
+                        onScriptUpdate={handleScriptUpdate}
                         currentSegmentIndex={timelineState?.segmentIndex ?? -1}
                         narratorPerspective={settings.narratorPerspective}
+                        language={analysis.language}
                       />
                     )}
 
@@ -501,7 +843,8 @@ export default function Home() {
                           timelineRef.current?.destroy();
                           timelineRef.current = null;
                           setAnalysis(null);
-                          setPdfText(null);
+                          setPaperDocument(null);
+                          setVariants({});
                           setSettingsChanged(false);
                           setPlayerState(defaultPlayerState);
                           setTimelineState(null);
@@ -1,14 +1,21 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { getLanguage, segmentWords } from '@/lib/languages';
 import { getSpeechEngine, getNarrationRate } from '@/lib/speech';
-import { NarrationSegment } from '@/types';
+import { calibrateSpeechTiming, timingMatches, voiceKey, withMeasurement } from '@/lib/speech-timing';
+import { NarrationSegment, PresentationScript, SpeechTiming } from '@/types';
+import { TimelineController } from '@/lib/timeline';
 import {
   Volume2,
   VolumeX,
   Mic,
   Settings2,
+  Timer,
+  Lock,
+  Unlock,
+  Loader2,
 } from 'lucide-react';
 
 interface CaptionsProps {
@@ -22,6 +29,12 @@ interface CaptionsProps {
   onCaptionsToggle: (show: boolean) => void;
   currentSegment?: NarrationSegment | null;
   segmentProgress?: number;
+  timeline?: TimelineController | null;   // segment events start and stop the voice
+  language?: string;
+  script?: PresentationScript;
+  speechTiming?: SpeechTiming;
+  onSpeechTimingChange?: (timing: SpeechTiming) => void;  // segments were measured as spoken
+  onVoiceChange?: (voice: string) => void;                 // voiceKey of the selected narration voice
 }
 
 export default function Captions({
@@ -35,40 +48,68 @@ export default function Captions({
   onCaptionsToggle,
   currentSegment,
   segmentProgress = 0,
+  timeline,
+  language = 'en',
+  script,
+  speechTiming,
+  onSpeechTimingChange,
+  onVoiceChange,
 }: CaptionsProps) {
   const [activeWordIndex, setActiveWordIndex] = useState(-1);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [showVoiceSettings, setShowVoiceSettings] = useState(false);
   const [selectedVoiceIndex, setSelectedVoiceIndex] = useState(0);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voicesLoaded, setVoicesLoaded] = useState(false);
+  const [calibration, setCalibration] = useState<{ measured: number; total: number } | null>(null);
   const speakingRef = useRef(false);
-  const currentSegmentIdRef = useRef<string | null>(null);
+  // The utterance being spoken. Stopping it, switching segments or pausing
+  // marks it interrupted, so its length is not its spoken length
+  const utteranceRef = useRef<{ interrupted: boolean } | null>(null);
+  const calibrationRef = useRef<AbortController | null>(null);
+  // Measurements finish after the render that started them, so read the latest timing
+  const speechTimingRef = useRef(speechTiming);
+  useEffect(() => {
+    speechTimingRef.current = speechTiming;
+  }, [speechTiming]);
 
   // Use segment text if available, otherwise fall back to full text
   const displayText = currentSegment?.text || text;
-  const displayWords = displayText.split(/\s+/).filter(Boolean);
+  const languageInfo = getLanguage(language);
+  const displayWords = useMemo(
+    () => segmentWords(displayText, language).map((word) => word.text),
+    [displayText, language]
+  );
 
-  // Load available voices
+  // Load available voices for the narration language
   useEffect(() => {
     const engine = getSpeechEngine();
     const loadVoices = () => {
-      const voices = engine.getPreferredVoices();
-      setAvailableVoices(voices);
+      setAvailableVoices(engine.getPreferredVoices(language));
+      setVoicesLoaded(engine.getVoices().length > 0);
+      return engine.getVoices().length > 0;
     };
 
-    loadVoices();
+    setSelectedVoiceIndex(0);
+    if (loadVoices()) return;
     const interval = setInterval(() => {
-      const voices = engine.getPreferredVoices();
-      if (voices.length > 0) {
-        setAvailableVoices(voices);
+      if (loadVoices()) {
         clearInterval(interval);
       }
     }, 500);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [language]);
+
+  // Spoken lengths only apply to the voice they were measured with
+  const selectedVoiceKey = voiceKey(availableVoices[selectedVoiceIndex]);
+  useEffect(() => {
+    onVoiceChange?.(selectedVoiceKey);
+  }, [selectedVoiceKey, onVoiceChange]);
 
   const stopSpeaking = useCallback(() => {
+    if (utteranceRef.current) utteranceRef.current.interrupted = true;
+    utteranceRef.current = null;
     const engine = getSpeechEngine();
     engine.stop();
     setIsSpeaking(false);
@@ -83,13 +124,25 @@ export default function Captions({
     if (!engine.available) return;
 
     speakingRef.current = true;
+    if (utteranceRef.current) utteranceRef.current.interrupted = true;
+    const utterance = { interrupted: false };
+    utteranceRef.current = utterance;
     setIsSpeaking(true);
     setActiveWordIndex(0);
 
+    const timingOptions = {
+      rate: getNarrationRate(narrationSpeed),
+      voice: availableVoices[selectedVoiceIndex] || undefined,
+      language,
+    };
+    let startedAt = 0;
+
     try {
       await engine.speak(segmentText, {
-        rate: getNarrationRate(narrationSpeed),
-        voice: availableVoices[selectedVoiceIndex] || undefined,
+        ...timingOptions,
+        onStart: () => {
+          startedAt = performance.now();
+        },
         onWord: (wordIndex) => {
           setActiveWordIndex(wordIndex);
         },
@@ -97,6 +150,15 @@ export default function Captions({
           setIsSpeaking(false);
           speakingRef.current = false;
           setActiveWordIndex(-1);
+
+          // Feed the real length back into the script unless the timing is locked
+          const timing = speechTimingRef.current;
+          if (startedAt > 0 && !utterance.interrupted && !timing?.locked && onSpeechTimingChange) {
+            const seconds = (performance.now() - startedAt) / 1000;
+            // Kept here too: the parent may hold measurements back until the section ends
+            speechTimingRef.current = withMeasurement(timing, timingOptions, segmentText, seconds);
+            onSpeechTimingChange(speechTimingRef.current);
+          }
           onNarrationComplete?.();
         },
       });
@@ -105,22 +167,38 @@ export default function Captions({
       speakingRef.current = false;
       setActiveWordIndex(-1);
     }
-  }, [enableVoice, narrationSpeed, availableVoices, selectedVoiceIndex, onNarrationComplete]);
+  }, [enableVoice, narrationSpeed, availableVoices, selectedVoiceIndex, language, onNarrationComplete, onSpeechTimingChange]);
 
-  // Speak new segment when it changes
+  // The subscription below outlives renders, so it speaks with the latest settings
+  const speakSegmentRef = useRef(speakSegment);
   useEffect(() => {
-    if (!currentSegment || !isPlaying || !enableVoice) return;
+    speakSegmentRef.current = speakSegment;
+  }, [speakSegment]);
 
-    const segId = currentSegment.id;
-    if (segId !== currentSegmentIdRef.current) {
-      currentSegmentIdRef.current = segId;
+  // Speak each segment as playback enters it, however it got there; a seek
+  // away from a segment cuts its speech off
+  useEffect(() => {
+    if (!timeline || !enableVoice) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const stopEnter = timeline.on('segmentEnter', (event) => {
+      if (!timeline.isPlaying()) return;
       stopSpeaking();
-      const timer = setTimeout(() => {
-        speakSegment(currentSegment.text);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        speakSegmentRef.current(event.segment.text);
       }, 50);
-      return () => clearTimeout(timer);
-    }
-  }, [currentSegment?.id, isPlaying, enableVoice, stopSpeaking, speakSegment, currentSegment]);
+    });
+    const stopExit = timeline.on('segmentExit', (event) => {
+      if (event.seek) stopSpeaking();
+    });
+
+    return () => {
+      stopEnter();
+      stopExit();
+      clearTimeout(timer);
+    };
+  }, [timeline, enableVoice, stopSpeaking]);
 
   // Handle play/pause
   useEffect(() => {
@@ -129,6 +207,7 @@ export default function Captions({
     } else if (!isPlaying && speakingRef.current) {
       const engine = getSpeechEngine();
       engine.pause();
+      if (utteranceRef.current) utteranceRef.current.interrupted = true;
     }
   }, [isPlaying, enableVoice, speakSegment, currentSegment]);
 
@@ -136,10 +215,55 @@ export default function Captions({
   useEffect(() => {
     return () => {
       stopSpeaking();
-      currentSegmentIdRef.current = null;
     };
   }, [text, stopSpeaking]);
 
+  const timingOptions = {
+    rate: getNarrationRate(narrationSpeed),
+    voice: availableVoices[selectedVoiceIndex] || undefined,
+    language,
+  };
+  const measuredCount = timingMatches(speechTiming, timingOptions) ? Object.keys(speechTiming.measured).length : 0;
+  const timingStatus = speechTiming?.locked
+    ? 'Locked to the measured timings'
+    : measuredCount > 0
+    ? `Fitted to ${measuredCount} spoken segment${measuredCount === 1 ? '' : 's'}`
+    : speechTiming
+    ? 'Measured with another voice or speed'
+    : 'Estimated from word count';
+
+  // Calibration pass: speak a few segments silently and rescale the rest from the voice's pace
+  const handleCalibrate = async () => {
+    if (!script || !onSpeechTimingChange) return;
+    stopSpeaking();
+    const controller = new AbortController();
+    calibrationRef.current = controller;
+    setCalibration({ measured: 0, total: 0 });
+    try {
+      const timing = await calibrateSpeechTiming(
+        script,
+        timingOptions,
+        speechTimingRef.current,
+        controller.signal,
+        (measured, total) => setCalibration({ measured, total })
+      );
+      onSpeechTimingChange(timing);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Speech calibration failed:', err);
+      }
+    } finally {
+      calibrationRef.current = null;
+      setCalibration(null);
+    }
+  };
+
+  // Playback needs the speech engine, so it ends a calibration; so does leaving
+  useEffect(() => {
+    if (isPlaying) calibrationRef.current?.abort();
+  }, [isPlaying]);
+  useEffect(() => () => calibrationRef.current?.abort(), []);
+
   // Compute word highlighting from segment progress when voice is off
   const computedWordIndex = !enableVoice && isPlaying && displayWords.length > 0
     ? Math.min(Math.floor(segmentProgress * displayWords.length), displayWords.length - 1)
@@ -157,6 +281,12 @@ export default function Captions({
   const emphasisWords = new Set(
     (currentSegment?.emphasis || []).map((w) => w.toLowerCase())
   );
+  // Segmented words are shorter than most emphasis terms in spaceless scripts
+  const isEmphasisWord = (word: string) => {
+    const clean = word.toLowerCase().replace(/[.,!?;:。，、！？；：]/g, '');
+    if (emphasisWords.has(clean)) return true;
+    return !!languageInfo.spaceless && clean.length > 0 && [...emphasisWords].some((term) => term.includes(clean));
+  };
 
   return (
     <div className="space-y-2">
@@ -239,10 +369,51 @@ export default function Captions({
                       ))}
                       {availableVoices.length === 0 && (
                         <p className="text-xs text-gray-400 px-2 py-1">
-                          Loading voices...
+                          {voicesLoaded
+                            ? `No ${languageInfo.name} voice installed; using the browser default`
+                            : 'Loading voices...'}
                         </p>
                       )}
                     </div>
+
+                    {script && onSpeechTimingChange && (
+                      <div className="mt-3 pt-3 border-t border-gray-100">
+                        <p className="text-xs font-semibold text-gray-600 mb-1">Timing</p>
+                        <p className="text-[10px] text-gray-400 mb-2">{timingStatus}</p>
+                        <div className="flex items-center gap-1.5">
+                          <button
+                            onClick={() => void handleCalibrate()}
+                            disabled={isPlaying || !!calibration || !!speechTiming?.locked}
+                            title={isPlaying ? 'Pause to measure the voice' : 'Speak a few segments silently to fit the timings to this voice'}
+                            className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                          >
+                            {calibration ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <Timer className="w-3 h-3" />
+                            )}
+                            {calibration
+                              ? `Measuring ${Math.min(calibration.measured + 1, Math.max(calibration.total, 1))}/${Math.max(calibration.total, 1)}`
+                              : 'Measure voice'}
+                          </button>
+                          {speechTiming && (
+                            <button
+                              onClick={() => onSpeechTimingChange({ ...(speechTimingRef.current ?? speechTiming), locked: !speechTiming.locked })}
+                              disabled={!!calibration}
+                              title={speechTiming.locked ? 'Let playback keep refining the timings' : 'Keep the current timings so playback is the same every time'}
+                              className={`flex items-center gap-1 px-2 py-1 text-xs rounded-lg transition-colors disabled:opacity-50 ${
+                                speechTiming.locked
+                                  ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+                                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                              }`}
+                            >
+                              {speechTiming.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                              {speechTiming.locked ? 'Locked' : 'Lock'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -284,13 +455,19 @@ export default function Captions({
             exit={{ opacity: 0, height: 0 }}
             className="bg-gray-900/90 backdrop-blur-sm rounded-xl px-6 py-4 overflow-hidden"
           >
-            <div className="flex flex-wrap items-center justify-center gap-x-1.5 gap-y-1 min-h-[36px]">
+            <div
+              dir={languageInfo.rtl ? 'rtl' : 'ltr'}
+              lang={language}
+              className={`flex flex-wrap items-center justify-center gap-y-1 min-h-[36px] ${
+                languageInfo.spaceless ? 'gap-x-0' : 'gap-x-1.5'
+              }`}
+            >
               {displayActiveIndex >= 0 ? (
                 visibleWords.map((word, i) => {
                   const globalIndex = windowStart + i;
                   const isActive = globalIndex === displayActiveIndex;
                   const isPast = globalIndex < displayActiveIndex;
-                  const isEmphasis = emphasisWords.has(word.toLowerCase().replace(/[.,!?;:]/g, ''));
+                  const isEmphasis = isEmphasisWord(word);
 
                   return (
                     <motion.span
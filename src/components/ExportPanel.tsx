@@ -0,0 +1,519 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, PlayerState, TimelineState, VideoExportProgress, VideoFormat } from '@/types';
+import { TimelineController } from '@/lib/timeline';
+import { FixedStepClock } from '@/lib/frame-clock';
+import { getLanguage, segmentWords } from '@/lib/languages';
+import {
+  decodeNarrationAudio,
+  exportRange,
+  exportVideo,
+  nextPaint,
+  STAGE_HEIGHT,
+  STAGE_WIDTH,
+  supportedVideoFormats,
+  supportsNarrationAudio,
+} from '@/lib/video-export';
+import AnimationPlayer from '@/components/AnimationPlayer';
+import SectionTransitioner from '@/components/SectionTransitioner';
+import { Film, Download, Loader2, X, AlertTriangle, Music, Subtitles, MonitorPlay } from 'lucide-react';
+
+interface ExportPanelProps {
+  analysis: AnalysisResult;
+  enableDoodles: boolean;
+  enableCharacter: boolean;
+  showCaptions: boolean;        // whether captions are burned in by default
+  onExportStart?: () => void;   // playback is paused while a video renders
+}
+
+const RESOLUTIONS = [
+  { label: '480p', width: 854, height: 480 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+];
+
+const FRAME_RATES = [24, 30, 60];
+
+const phaseLabels: Record<VideoExportProgress['phase'], string> = {
+  preparing: 'Preparing',
+  rendering: 'Rendering frames',
+  finishing: 'Encoding',
+};
+
+// Words on screen at once, as in the player's captions
+const CAPTION_WINDOW = 12;
+
+// Longest title part of a download's file name
+const MAX_FILE_STEM = 80;
+
+interface StageFrame {
+  state: TimelineState;
+  time: number;
+}
+
+function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1_000_000 ? `${(bytes / 1_000_000).toFixed(1)} MB` : `${Math.ceil(bytes / 1000)} kB`;
+}
+
+/** A file name stem from `title` that every file system accepts: lower case letters, digits, `_` and `-` */
+function fileStem(title: string, fallback: string): string {
+  const stem = title
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .slice(0, MAX_FILE_STEM)
+    .replace(/^[_-]+|[_-]+$/g, '');
+  return stem || fallback;
+}
+
+function downloadFile(url: string, name: string) {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+}
+
+/** The caption bar of the player, drawn into the picture */
+function BurnedInCaption({ state, language }: { state: TimelineState; language: string }) {
+  const words = segmentWords(state.currentText, language).map((word) => word.text);
+  if (state.phase !== 'section' || words.length === 0) return null;
+
+  const languageInfo = getLanguage(language);
+  const active = Math.min(Math.floor(state.segmentProgress * words.length), words.length - 1);
+  const windowStart = Math.max(0, active - 3);
+  const emphasis = new Set(state.emphasis.map((word) => word.toLowerCase()));
+
+  return (
+    <div className="absolute left-10 right-10 bottom-6 bg-gray-900/90 rounded-xl px-6 py-4">
+      <div
+        dir={languageInfo.rtl ? 'rtl' : 'ltr'}
+        lang={language}
+        className={`flex flex-wrap items-center justify-center gap-y-1 ${
+          languageInfo.spaceless ? 'gap-x-0' : 'gap-x-1.5'
+        }`}
+      >
+        {words.slice(windowStart, windowStart + CAPTION_WINDOW).map((word, i) => {
+          const index = windowStart + i;
+          const isEmphasis = emphasis.has(word.toLowerCase().replace(/[.,!?;:。，、！？；：]/g, ''));
+          return (
+            <span
+              key={index}
+              className={`text-lg font-medium ${
+                index === active
+                  ? isEmphasis
+                    ? 'text-yellow-300'
+                    : 'text-white'
+                  : index < active
+                  ? 'text-gray-400'
+                  : 'text-gray-500'
+              }`}
+            >
+              {word}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** What the player shows at one frame of the export */
+function ExportStage({
+  analysis,
+  frame,
+  captions,
+  enableDoodles,
+  enableCharacter,
+}: {
+  analysis: AnalysisResult;
+  frame: StageFrame;
+  captions: boolean;
+  enableDoodles: boolean;
+  enableCharacter: boolean;
+}) {
+  const { state, time } = frame;
+  const transitions = analysis.presentationScript?.transitions || [];
+
+  if (state.phase === 'transition' && state.fromSection !== undefined && state.toSection !== undefined) {
+    return (
+      <SectionTransitioner
+        prevSection={analysis.sections[state.fromSection]}
+        nextSection={analysis.sections[state.toSection]}
+        transition={transitions[state.fromSection]}
+        transitionProgress={state.transitionProgress ?? 0}
+        frameTime={time}
+      />
+    );
+  }
+
+  // Past the end, the last section stays on screen as it finished
+  const sectionIndex = state.phase === 'complete' ? analysis.sections.length - 1 : state.sectionIndex;
+  const playerState: PlayerState = {
+    isPlaying: true,
+    currentSection: sectionIndex,
+    currentStep: 0,
+    currentSegment: state.segmentIndex,
+    progress: state.sectionProgress,
+    globalTime: state.globalTime,
+    speed: 1,
+    isTransitioning: false,
+  };
+
+  return (
+    <>
+      <AnimationPlayer
+        section={analysis.sections[sectionIndex]}
+        playerState={playerState}
+        animationProgress={state.sectionProgress}
+        activeStepId={state.activeStepId}
+        stepProgress={state.stepProgress}
+        enableDoodles={enableDoodles}
+        enableCharacter={enableCharacter}
+        frameTime={time}
+      />
+      {captions && <BurnedInCaption state={state} language={analysis.language || 'en'} />}
+    </>
+  );
+}
+
+export default function ExportPanel({
+  analysis,
+  enableDoodles,
+  enableCharacter,
+  showCaptions,
+  onExportStart,
+}: ExportPanelProps) {
+  const [formats] = useState<VideoFormat[]>(() => supportedVideoFormats());
+  const [format, setFormat] = useState<VideoFormat>(formats[0] ?? 'webm');
+  const [resolution, setResolution] = useState(1);
+  const [fps, setFps] = useState(30);
+  const [sectionIndex, setSectionIndex] = useState<number | null>(null);
+  const [captions, setCaptions] = useState(showCaptions);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<VideoExportProgress | null>(null);
+  const [frame, setFrame] = useState<StageFrame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ url: string; name: string; size: number } | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the panel cancels a running export; finished files are released with it
+  useEffect(() => () => abortRef.current?.abort(), []);
+  useEffect(() => {
+    if (!result) return;
+    return () => URL.revokeObjectURL(result.url);
+  }, [result]);
+
+  const script = analysis.presentationScript;
+  const duration = !script ? 0 : sectionIndex === null
+    ? script.totalDuration
+    : script.sections[sectionIndex]?.totalDuration ?? 0;
+  const audioSupported = supportsNarrationAudio(format);
+  // Why the video will have no sound, if it won't
+  const silentReason = !audioSupported
+    ? `${format.toUpperCase()} videos are recorded without sound in this browser, even with a narration recording.`
+    : !audioFile
+      ? 'The spoken narration is produced by the browser and cannot be recorded. Add a recording of it to include sound.'
+      : null;
+
+  const handleExport = async () => {
+    if (!script || progress) return;
+    onExportStart?.();
+    setError(null);
+    setResult(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { width, height } = RESOLUTIONS[resolution];
+    const timeline = new TimelineController(script, new FixedStepClock(fps));
+    const unsubscribe = timeline.subscribe((state) => setFrame({ state, time: timeline.getCurrentTime() }));
+
+    try {
+      setProgress({ phase: 'preparing', frame: 0, totalFrames: 0 });
+      const audio = audioFile && audioSupported ? await decodeNarrationAudio(audioFile) : undefined;
+
+      // Mount the stage at the first frame before it is measured
+      const { start } = exportRange(timeline, script, sectionIndex);
+      setFrame({ state: timeline.getStateAtTime(start), time: start });
+      await nextPaint();
+      if (!stageRef.current) throw new Error('The export stage is not on the page');
+
+      const blob = await exportVideo({
+        settings: { format, width, height, fps, sectionIndex, captions },
+        script,
+        timeline,
+        stage: stageRef.current,
+        audio,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+
+      const title = sectionIndex === null ? analysis.title : analysis.sections[sectionIndex].title;
+      const name = `${fileStem(title, sectionIndex === null ? 'presentation' : `section_${sectionIndex + 1}`)}.${format}`;
+      const url = URL.createObjectURL(blob);
+      setResult({ url, name, size: blob.size });
+      downloadFile(url, name);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Video export failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to export video');
+      }
+    } finally {
+      unsubscribe();
+      timeline.destroy();
+      abortRef.current = null;
+      setProgress(null);
+      setFrame(null);
+    }
+  };
+
+  const totalFrames = progress?.totalFrames || 0;
+  const share = totalFrames > 0 ? progress!.frame / totalFrames : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Film className="w-4 h-4 text-gray-500" />
+        <h4 className="text-sm font-semibold text-gray-700">Export Video</h4>
+      </div>
+
+      <div className="space-y-4">
+        {/* Scope */}
+        <div>
+          <div className="flex items-center gap-1.5 mb-2">
+            <MonitorPlay className="w-3.5 h-3.5 text-gray-400" />
+            <label htmlFor="export-scope" className="text-xs font-medium text-gray-600">Content</label>
+          </div>
+          <select
+            id="export-scope"
+            value={sectionIndex ?? ''}
+            onChange={(e) => setSectionIndex(e.target.value === '' ? null : Number(e.target.value))}
+            disabled={!!progress}
+            className="w-full px-3 py-2 rounded-lg text-xs bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100 focus:outline-none focus:border-blue-200"
+          >
+            <option value="">Whole presentation</option>
+            {analysis.sections.map((section, i) => (
+              <option key={section.id} value={i}>
+                {i + 1}. {section.title}
+              </option>
+            ))}
+          </select>
+          <p className="text-[10px] text-gray-400 mt-1">
+            {formatDuration(duration)} · {Math.ceil(duration * fps)} frames
+          </p>
+        </div>
+
+        {/* Resolution */}
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-2">Resolution</label>
+          <div className="flex gap-2">
+            {RESOLUTIONS.map((option, i) => (
+              <button
+                key={option.label}
+                onClick={() => setResolution(i)}
+                disabled={!!progress}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                  resolution === i
+                    ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                    : 'bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Frame Rate */}
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-2">Frame Rate</label>
+          <div className="flex gap-2">
+            {FRAME_RATES.map((rate) => (
+              <button
+                key={rate}
+                onClick={() => setFps(rate)}
+                disabled={!!progress}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                  fps === rate
+                    ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                    : 'bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100'
+                }`}
+              >
+                {rate} fps
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Format */}
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-2">Format</label>
+          <div className="flex gap-2">
+            {(['webm', 'mp4'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                disabled={!!progress || !formats.includes(option)}
+                title={formats.includes(option) ? undefined : 'This browser cannot record this format'}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                  format === option
+                    ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                    : 'bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100'
+                }`}
+              >
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Captions */}
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="flex items-center gap-1.5 text-xs text-gray-600">
+            <Subtitles className="w-3.5 h-3.5 text-gray-400" />
+            Burn In Captions
+          </span>
+          <div
+            onClick={() => !progress && setCaptions(!captions)}
+            className={`w-8 h-4.5 rounded-full transition-colors relative cursor-pointer ${
+              captions ? 'bg-blue-500' : 'bg-gray-300'
+            }`}
+          >
+            <div
+              className={`absolute top-0.5 w-3.5 h-3.5 bg-white rounded-full shadow transition-transform ${
+                captions ? 'translate-x-4' : 'translate-x-0.5'
+              }`}
+            />
+          </div>
+        </label>
+
+        {/* Narration Audio */}
+        <div>
+          <div className="flex items-center gap-1.5 mb-2">
+            <Music className="w-3.5 h-3.5 text-gray-400" />
+            <label htmlFor="export-audio" className="text-xs font-medium text-gray-600">Narration Audio</label>
+          </div>
+          {audioFile ? (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs bg-gray-50 text-gray-600 border border-gray-100">
+              <span className="truncate flex-1">{audioFile.name}</span>
+              <button
+                onClick={() => setAudioFile(null)}
+                disabled={!!progress}
+                title="Remove"
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ) : (
+            <input
+              id="export-audio"
+              type="file"
+              accept="audio/*"
+              disabled={!!progress || !audioSupported}
+              onChange={(e) => setAudioFile(e.target.files?.[0] ?? null)}
+              className="w-full text-xs text-gray-500 file:mr-2 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-gray-100 file:text-gray-600 hover:file:bg-gray-200 disabled:opacity-50"
+            />
+          )}
+          <p className="text-[10px] text-gray-400 leading-relaxed mt-1">
+            {audioSupported
+              ? 'The recording should cover the whole presentation; section exports use their part of it.'
+              : formats.some(supportsNarrationAudio)
+                ? 'Choose WebM to include a narration recording.'
+                : 'This browser cannot record sound into videos.'}
+          </p>
+        </div>
+
+        {silentReason && (
+          <div className="flex items-start gap-1.5 px-3 py-2 rounded-lg text-[11px] bg-amber-50 text-amber-700">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>This video will be silent. {silentReason}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-1.5 text-xs text-red-600">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Export / Progress */}
+        <div className="pt-3 border-t border-gray-100">
+          {progress ? (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  {phaseLabels[progress.phase]}
+                </span>
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="text-[11px] text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mb-1">
+                <div className="h-full bg-blue-500" style={{ width: `${share * 100}%` }} />
+              </div>
+              <p className="text-[10px] text-gray-400">
+                {totalFrames > 0 ? `Frame ${progress.frame} of ${totalFrames} · ` : ''}
+                Keep this tab in the foreground until the export finishes
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={() => void handleExport()}
+              disabled={!script || formats.length === 0}
+              className="w-full py-2.5 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-xs font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Film className="w-3.5 h-3.5" />
+              Export {sectionIndex === null ? 'Presentation' : 'Section'}
+            </button>
+          )}
+
+          {result && !progress && (
+            <a
+              href={result.url}
+              download={result.name}
+              className="mt-2 flex items-center justify-center gap-1.5 text-xs text-blue-600 hover:text-blue-700"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {result.name} ({formatSize(result.size)})
+            </a>
+          )}
+          {formats.length === 0 && (
+            <p className="text-[10px] text-gray-400 mt-1.5 text-center">
+              This browser cannot encode video
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Off-screen stage the frames are drawn from, laid out at a fixed size */}
+      {frame && (
+        <div className="fixed top-0 left-[-10000px] pointer-events-none" aria-hidden="true">
+          <div
+            ref={stageRef}
+            className="relative overflow-hidden bg-black [&>:first-child]:rounded-none! [&>:first-child]:border-0! [&>:first-child]:shadow-none!"
+            style={{ width: STAGE_WIDTH, height: STAGE_HEIGHT }}
+          >
+            <ExportStage
+              analysis={analysis}
+              frame={frame}
+              captions={captions}
+              enableDoodles={enableDoodles}
+              enableCharacter={enableCharacter}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,37 @@
 'use client';
 
 import { useState } from 'react';
-import { PaperSection } from '@/types';
-import { MessageSquare, RefreshCw, Copy, Check } from 'lucide-react';
+import { PaperSection, SectionScript } from '@/types';
+import { getLanguage } from '@/lib/languages';
+import { formatSourcePages } from '@/lib/document';
+import { MessageSquare, RefreshCw, Copy, Check, AlertTriangle, Quote } from 'lucide-react';
 
 interface NarrationPanelProps {
   section: PaperSection;
   onNarrationUpdate: (narration: string) => void;
+  onScriptUpdate: (script: SectionScript) => void;
   currentSegmentIndex?: number;
   narratorPerspective?: string;
+  language?: string;
 }
 
 export default function NarrationPanel({
   section,
   onNarrationUpdate,
+  onScriptUpdate,
   currentSegmentIndex = -1,
   narratorPerspective = 'first-person',
+  language = 'en',
 }: NarrationPanelProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedNarration, setEditedNarration] = useState(section.narration);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [regeneratingSegment, setRegeneratingSegment] = useState<number | null>(null);
   const [copied, setCopied] = useState(false);
 
   const segments = section.script?.segments || [];
   const hasSegments = segments.length > 0;
+  const unsupportedCount = segments.filter((segment) => segment.unsupported).length;
 
   const handleSave = () => {
     onNarrationUpdate(editedNarration);
@@ -41,12 +49,13 @@ export default function NarrationPanel({
           action: 'regenerate-narration',
           style: 'conversational',
           perspective: narratorPerspective,
+          language,
         }),
       });
       const data = await res.json();
-      if (data.narration) {
-        setEditedNarration(data.narration);
-        onNarrationUpdate(data.narration);
+      if (data.script) {
+        setEditedNarration(data.script.fullText);
+        onScriptUpdate(data.script);
       }
     } catch (error) {
       console.error('Failed to regenerate narration:', error);
@@ -55,6 +64,36 @@ export default function NarrationPanel({
     }
   };
 
+  const handleRegenerateSegment = async (index: number) => {
+    if (!section.script) return;
+    setRegeneratingSegment(index);
+    try {
+      const res = await fetch('/api/generate-animation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          section,
+          action: 'regenerate-segment',
+          segmentIndex: index,
+          style: 'conversational',
+          perspective: narratorPerspective,
+          language,
+        }),
+      });
+      const data = await res.json();
+      if (data.segment) {
+        const updated = section.script.segments.map((segment, i) => (i === index ? data.segment : segment));
+        const fullText = updated.map((segment) => segment.text).join(getLanguage(language).spaceless ? '' : ' ');
+        setEditedNarration(fullText);
+        onScriptUpdate({ ...section.script, segments: updated, fullText });
+      }
+    } catch (error) {
+      console.error('Failed to regenerate segment:', error);
+    } finally {
+      setRegeneratingSegment(null);
+    }
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(section.narration);
     setCopied(true);
@@ -74,6 +113,15 @@ export default function NarrationPanel({
               {segments.length} segments
             </span>
           )}
+          {unsupportedCount > 0 && (
+            <span
+              className="flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 bg-amber-50 text-amber-700 rounded"
+              title="Segments without a quote that could be found in the paper"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {unsupportedCount} unsupported
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <button
@@ -108,6 +156,7 @@ export default function NarrationPanel({
             value={editedNarration}
             onChange={(e) => setEditedNarration(e.target.value)}
             rows={4}
+            dir="auto"
             className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
           />
           <div className="flex gap-2">
@@ -157,6 +206,7 @@ export default function NarrationPanel({
                 </span>
                 <div className="flex-1 min-w-0">
                   <p
+                    dir="auto"
                     className={`text-sm leading-relaxed ${
                       isActive ? 'text-blue-900 font-medium' : 'text-gray-600'
                     }`}
@@ -175,10 +225,58 @@ export default function NarrationPanel({
                       ))}
                     </div>
                   )}
+                  {segment.citations && segment.citations.length > 0 && (
+                    <div className="mt-1.5 space-y-1">
+                      {segment.citations.map((citation, c) => (
+                        <div
+                          key={c}
+                          className={`flex items-start gap-1 text-[10px] leading-snug ${
+                            citation.verified ? 'text-gray-500' : 'text-amber-700'
+                          }`}
+                          title={citation.verified ? 'Quote found in the paper' : 'Quote not found in the paper'}
+                        >
+                          {citation.verified ? (
+                            <Quote className="w-2.5 h-2.5 mt-0.5 flex-shrink-0 text-gray-300" />
+                          ) : (
+                            <AlertTriangle className="w-2.5 h-2.5 mt-0.5 flex-shrink-0" />
+                          )}
+                          <span dir="auto" className="italic line-clamp-2">&ldquo;{citation.quote}&rdquo;</span>
+                          {citation.page !== undefined && (
+                            <span className="flex-shrink-0 text-gray-400 not-italic">
+                              {formatSourcePages([citation.page])}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {segment.unsupported && (
+                    <p className="flex items-center gap-1 mt-1 text-[10px] font-medium text-amber-700">
+                      <AlertTriangle className="w-3 h-3" />
+                      {segment.citations && segment.citations.length > 0
+                        ? 'None of the quotes were found in the paper'
+                        : 'No supporting quote from the paper'}
+                    </p>
+                  )}
                 </div>
                 <span className="text-[10px] text-gray-400 mt-0.5 flex-shrink-0">
                   {segment.estimatedDuration}s
                 </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRegenerateSegment(i);
+                  }}
+                  disabled={regeneratingSegment !== null || isRegenerating}
+                  className="p-0.5 -mt-0.5 rounded hover:bg-gray-100 transition-colors disabled:opacity-50 flex-shrink-0"
+                  title="Regenerate this segment"
+                >
+                  <RefreshCw
+                    className={`w-3 h-3 text-gray-400 ${
+                      regeneratingSegment === i ? 'animate-spin' : ''
+                    }`}
+                  />
+                </button>
               </div>
             );
           })}
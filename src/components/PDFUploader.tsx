@@ -2,14 +2,18 @@
 
 import { useState, useCallback } from 'react';
 import { Upload, FileText, Loader2, AlertCircle } from 'lucide-react';
-import { extractText } from '@/lib/pdf-parser';
+import { extractDocument } from '@/lib/pdf-parser';
+import { documentToText } from '@/lib/document';
+import { ExtractedDocument, JobEvent } from '@/types';
 
 interface PDFUploaderProps {
-  onTextExtracted: (text: string, fileName: string) => void;
+  onDocumentExtracted: (document: ExtractedDocument, fileName: string) => void;
   isAnalyzing: boolean;
+  progress?: Pick<JobEvent, 'message' | 'completed' | 'total'> | null;
+  onCancel?: () => void;
 }
 
-export default function PDFUploader({ onTextExtracted, isAnalyzing }: PDFUploaderProps) {
+export default function PDFUploader({ onDocumentExtracted, isAnalyzing, progress, onCancel }: PDFUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -21,19 +25,20 @@ export default function PDFUploader({ onTextExtracted, isAnalyzing }: PDFUploade
     setIsExtracting(true);
 
     try {
-      const text = await extractText(file);
+      const extracted = await extractDocument(file);
+      const text = documentToText(extracted);
       if (text.trim().length < 100) {
         setError('The document appears to have very little text. Please try a different file.');
         setIsExtracting(false);
         return;
       }
-      onTextExtracted(text, file.name);
+      onDocumentExtracted(extracted, file.name);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to extract text from file');
     } finally {
       setIsExtracting(false);
     }
-  }, [onTextExtracted]);
+  }, [onDocumentExtracted]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -69,7 +74,7 @@ export default function PDFUploader({ onTextExtracted, isAnalyzing }: PDFUploade
     >
       <input
         type="file"
-        accept=".pdf,.txt,.md,.tex"
+        accept=".pdf,.txt,.md,.tex,.zip,.tar,.tar.gz,.tgz,.gz"
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         onChange={(e) => {
           const file = e.target.files?.[0];
@@ -84,16 +89,32 @@ export default function PDFUploader({ onTextExtracted, isAnalyzing }: PDFUploade
             <Loader2 className="w-12 h-12 text-blue-500 animate-spin" />
             <div>
               <p className="text-lg font-medium text-gray-800">
-                {isExtracting ? 'Extracting text...' : 'Analyzing paper with Gemini...'}
+                {isExtracting ? 'Extracting text...' : 'Analyzing paper...'}
               </p>
               {fileName && (
                 <p className="text-sm text-gray-500 mt-1">{fileName}</p>
               )}
               {isAnalyzing && (
                 <p className="text-sm text-gray-400 mt-2">
-                  This may take a moment. Gemini is reading your paper and generating visualizations.
+                  {progress?.message || 'Starting analysis...'}
                 </p>
               )}
+              {isAnalyzing && progress?.total ? (
+                <div className="w-64 h-1.5 bg-gray-100 rounded-full overflow-hidden mx-auto mt-3">
+                  <div
+                    className="h-full bg-blue-500 rounded-full transition-all duration-500"
+                    style={{ width: `${Math.min(100, ((progress.completed ?? 0) / progress.total) * 100)}%` }}
+                  />
+                </div>
+              ) : null}
+              {isAnalyzing && onCancel && (
+                <button
+                  onClick={onCancel}
+                  className="relative z-10 pointer-events-auto mt-4 text-sm text-gray-500 hover:text-red-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </>
         ) : (
@@ -108,7 +129,7 @@ export default function PDFUploader({ onTextExtracted, isAnalyzing }: PDFUploade
                 {fileName ? fileName : 'Drop your research paper here'}
               </p>
               <p className="text-sm text-gray-500 mt-1">
-                Supports PDF, TXT, MD, and LaTeX files
+                Supports PDF, TXT, MD, LaTeX files and arXiv source archives
               </p>
             </div>
           </>
@@ -1,7 +1,10 @@
 'use client';
 
-import { PaperSection } from '@/types';
+import { useState } from 'react';
+import { PaperSection, SourceChunk } from '@/types';
 import { motion } from 'framer-motion';
+import { formatSourcePages } from '@/lib/document';
+import { describeChunk } from '@/lib/document-chunks';
 import {
   Sigma,
   Code2,
@@ -9,6 +12,7 @@ import {
   BarChart3,
   Shapes,
   Lightbulb,
+  RefreshCw,
   type LucideIcon,
 } from 'lucide-react';
 
@@ -16,6 +20,9 @@ interface SectionListProps {
   sections: PaperSection[];
   currentSection: number;
   onSectionSelect: (index: number) => void;
+  sourceChunks?: SourceChunk[]; // chunks of a long paper, for the "drawn from" tooltip
+  onRegenerate?: (index: number, guidance: string) => void; // omit to hide the regenerate controls
+  regeneratingIndex?: number | null;
 }
 
 const iconMap: Record<string, LucideIcon> = {
@@ -38,7 +45,18 @@ export default function SectionList({
   sections,
   currentSection,
   onSectionSelect,
+  sourceChunks,
+  onRegenerate,
+  regeneratingIndex = null,
 }: SectionListProps) {
+  const [guidanceFor, setGuidanceFor] = useState<number | null>(null);
+  const [guidance, setGuidance] = useState('');
+
+  const toggleGuidance = (index: number) => {
+    setGuidanceFor(guidanceFor === index ? null : index);
+    setGuidance('');
+  };
+
   return (
     <div className="space-y-2">
       <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider px-2 mb-3">
@@ -47,62 +65,117 @@ export default function SectionList({
       {sections.map((section, index) => {
         const Icon = iconMap[section.contentType] || Lightbulb;
         const isActive = index === currentSection;
+        const chunks = (section.sourceChunks || [])
+          .map((id) => sourceChunks?.find((chunk) => chunk.id === id))
+          .filter((chunk): chunk is SourceChunk => chunk !== undefined);
+        const sourceLabel = formatSourcePages(section.sourcePages) || chunks[0]?.headings[0] || '';
 
         return (
-          <motion.button
-            key={section.id}
-            onClick={() => onSectionSelect(index)}
-            whileHover={{ scale: 1.01 }}
-            whileTap={{ scale: 0.99 }}
-            className={`w-full text-left p-3 rounded-xl transition-all duration-200 ${
-              isActive
-                ? 'bg-blue-50 border-2 border-blue-200 shadow-sm'
-                : 'bg-white border border-gray-100 hover:border-gray-200 hover:bg-gray-50'
-            }`}
-          >
-            <div className="flex items-start gap-3">
-              <div
-                className={`p-1.5 rounded-lg ${
-                  isActive ? 'bg-blue-100' : 'bg-gray-100'
-                }`}
-              >
-                <Icon
-                  className={`w-4 h-4 ${
-                    isActive ? 'text-blue-600' : 'text-gray-500'
-                  }`}
-                />
-              </div>
-
-              <div className="flex-1 min-w-0">
-                <p
-                  className={`text-sm font-medium truncate ${
-                    isActive ? 'text-blue-900' : 'text-gray-800'
+          <div key={section.id} className="relative">
+            <motion.button
+              onClick={() => onSectionSelect(index)}
+              whileHover={{ scale: 1.01 }}
+              whileTap={{ scale: 0.99 }}
+              className={`w-full text-left p-3 rounded-xl transition-all duration-200 ${
+                onRegenerate ? 'pr-9' : ''
+              } ${
+                isActive
+                  ? 'bg-blue-50 border-2 border-blue-200 shadow-sm'
+                  : 'bg-white border border-gray-100 hover:border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <div
+                  className={`p-1.5 rounded-lg ${
+                    isActive ? 'bg-blue-100' : 'bg-gray-100'
                   }`}
                 >
-                  {section.title}
-                </p>
-                <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">
-                  {section.concept}
-                </p>
-                <div className="flex items-center gap-2 mt-1.5">
-                  <span
-                    className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
-                      vizColorMap[section.visualization] || 'bg-gray-100 text-gray-600'
+                  <Icon
+                    className={`w-4 h-4 ${
+                      isActive ? 'text-blue-600' : 'text-gray-500'
+                    }`}
+                  />
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={`text-sm font-medium truncate ${
+                      isActive ? 'text-blue-900' : 'text-gray-800'
                     }`}
                   >
-                    {section.visualization}
-                  </span>
-                  <span className="text-[10px] text-gray-400">
-                    {section.contentType.replace('_', ' ')}
-                  </span>
+                    {section.title}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">
+                    {section.concept}
+                  </p>
+                  <div className="flex items-center gap-2 mt-1.5">
+                    <span
+                      className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
+                        vizColorMap[section.visualization] || 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {section.visualization}
+                    </span>
+                    <span className="text-[10px] text-gray-400">
+                      {section.contentType.replace('_', ' ')}
+                    </span>
+                    {sourceLabel && (
+                      <span
+                        className="text-[10px] text-gray-400 truncate"
+                        title={chunks.length > 0 ? `Drawn from ${chunks.map(describeChunk).join('; ')}` : undefined}
+                      >
+                        {sourceLabel}
+                      </span>
+                    )}
+                  </div>
                 </div>
+
+                {isActive && (
+                  <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mt-2" />
+                )}
               </div>
+            </motion.button>
 
-              {isActive && (
-                <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mt-2" />
-              )}
-            </div>
-          </motion.button>
+            {onRegenerate && (
+              <button
+                onClick={() => toggleGuidance(index)}
+                disabled={regeneratingIndex !== null}
+                className="absolute top-2 right-2 p-1.5 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                title="Regenerate this section"
+              >
+                <RefreshCw
+                  className={`w-3.5 h-3.5 text-gray-400 ${
+                    regeneratingIndex === index ? 'animate-spin' : ''
+                  }`}
+                />
+              </button>
+            )}
+
+            {onRegenerate && guidanceFor === index && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setGuidanceFor(null);
+                  onRegenerate(index, guidance);
+                }}
+                className="flex gap-2 mt-1.5 px-1"
+              >
+                <input
+                  value={guidance}
+                  onChange={(e) => setGuidance(e.target.value)}
+                  placeholder="Optional: e.g. use a tree diagram instead"
+                  autoFocus
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  className="px-2.5 py-1 text-xs font-medium bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+                >
+                  Regenerate
+                </button>
+              </form>
+            )}
+          </div>
         );
       })}
     </div>
@@ -10,6 +10,7 @@ interface SectionTransitionerProps {
   nextSection: PaperSection;
   transition: SectionTransition;
   transitionProgress: number; // 0-1
+  frameTime?: number;         // timeline seconds when rendering frame by frame
 }
 
 const defaultPlayerState = {
@@ -28,6 +29,7 @@ export default function SectionTransitioner({
   nextSection,
   transition,
   transitionProgress,
+  frameTime,
 }: SectionTransitionerProps) {
   const transType = transition?.type || 'crossfade';
 
@@ -50,6 +52,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={1}
                 transitionState="exiting"
+                frameTime={frameTime}
               />
             </motion.div>
             {/* Incoming section */}
@@ -63,6 +66,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={0}
                 transitionState="entering"
+                frameTime={frameTime}
               />
             </motion.div>
           </div>
@@ -82,6 +86,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={1}
                 transitionState="exiting"
+                frameTime={frameTime}
               />
             </motion.div>
             {/* Incoming section slides in from right */}
@@ -95,6 +100,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={0}
                 transitionState="entering"
+                frameTime={frameTime}
               />
             </motion.div>
           </div>
@@ -117,6 +123,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={1}
                 transitionState="exiting"
+                frameTime={frameTime}
               />
             </motion.div>
             {/* Incoming section zooms in */}
@@ -133,6 +140,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={0}
                 transitionState="entering"
+                frameTime={frameTime}
               />
             </motion.div>
           </div>
@@ -158,6 +166,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={1}
                 transitionState="exiting"
+                frameTime={frameTime}
               />
             </motion.div>
             {/* Incoming section rotates in */}
@@ -177,6 +186,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={0}
                 transitionState="entering"
+                frameTime={frameTime}
               />
             </motion.div>
           </div>
@@ -199,6 +209,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={1}
                 transitionState="exiting"
+                frameTime={frameTime}
               />
             </motion.div>
             {/* Incoming section slides in at 80% speed (background layer — parallax depth) */}
@@ -215,6 +226,7 @@ export default function SectionTransitioner({
                 playerState={defaultPlayerState}
                 animationProgress={0}
                 transitionState="entering"
+                frameTime={frameTime}
               />
             </motion.div>
           </div>
@@ -229,6 +241,7 @@ export default function SectionTransitioner({
             playerState={defaultPlayerState}
             animationProgress={p < 0.5 ? 1 : 0}
             transitionState={p < 0.5 ? 'exiting' : 'entering'}
+            frameTime={frameTime}
           />
         );
     }
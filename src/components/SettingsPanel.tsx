@@ -1,7 +1,8 @@
 'use client';
 
 import { UserSettings, FieldType } from '@/types';
-import { Settings, Palette, Type, Zap, MessageSquare, RefreshCw, Loader2 } from 'lucide-react';
+import { LANGUAGES } from '@/lib/languages';
+import { Settings, Palette, Type, Zap, MessageSquare, RefreshCw, Loader2, GraduationCap, Languages } from 'lucide-react';
 
 interface SettingsPanelProps {
   settings: UserSettings;
@@ -10,6 +11,9 @@ interface SettingsPanelProps {
   settingsChanged?: boolean;
   onReanalyze?: () => void;
   isReanalyzing?: boolean;
+  analysisLanguage?: string;   // language the current narration is written in
+  onTranslate?: () => void;    // translate the current narration instead of re-analyzing
+  isTranslating?: boolean;
 }
 
 export default function SettingsPanel({
@@ -19,6 +23,9 @@ export default function SettingsPanel({
   settingsChanged = false,
   onReanalyze,
   isReanalyzing = false,
+  analysisLanguage = 'en',
+  onTranslate,
+  isTranslating = false,
 }: SettingsPanelProps) {
   const update = (key: keyof UserSettings, value: unknown) => {
     onSettingsChange({ ...settings, [key]: value });
@@ -60,6 +67,54 @@ export default function SettingsPanel({
           </div>
         </div>
 
+        {/* Audience */}
+        <div>
+          <div className="flex items-center gap-1.5 mb-2">
+            <GraduationCap className="w-3.5 h-3.5 text-gray-400" />
+            <label className="text-xs font-medium text-gray-600">Audience</label>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            {([
+              { value: 'high-school' as const, label: 'High School', desc: 'Background first, no derivations' },
+              { value: 'undergraduate' as const, label: 'Undergraduate', desc: 'Key equations, term by term' },
+              { value: 'expert' as const, label: 'Expert', desc: 'Full depth, brisk pace' },
+            ]).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => update('audienceLevel', option.value)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-colors ${
+                  settings.audienceLevel === option.value
+                    ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                    : 'bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100'
+                }`}
+              >
+                <span className="font-medium">{option.label}</span>
+                <span className="text-gray-400 ml-1.5">{option.desc}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Language */}
+        <div>
+          <div className="flex items-center gap-1.5 mb-2">
+            <Languages className="w-3.5 h-3.5 text-gray-400" />
+            <label htmlFor="narration-language" className="text-xs font-medium text-gray-600">Narration Language</label>
+          </div>
+          <select
+            id="narration-language"
+            value={settings.language}
+            onChange={(e) => update('language', e.target.value)}
+            className="w-full px-3 py-2 rounded-lg text-xs bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100 focus:outline-none focus:border-blue-200"
+          >
+            {LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.nativeName === language.name ? language.name : `${language.nativeName} (${language.name})`}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Visual Style */}
         <div>
           <div className="flex items-center gap-1.5 mb-2">
@@ -198,6 +253,25 @@ export default function SettingsPanel({
                 </>
               )}
             </button>
+            {onTranslate && settings.language !== analysisLanguage && (
+              <button
+                onClick={onTranslate}
+                disabled={isReanalyzing || isTranslating}
+                className="w-full mt-2 py-2 px-4 bg-blue-50 hover:bg-blue-100 disabled:opacity-50 text-blue-700 border border-blue-200 text-xs font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                {isTranslating ? (
+                  <>
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    Translating...
+                  </>
+                ) : (
+                  <>
+                    <Languages className="w-3.5 h-3.5" />
+                    Translate Narration Only
+                  </>
+                )}
+              </button>
+            )}
             <p className="text-[10px] text-gray-400 mt-1.5 text-center">
               Settings changed since last analysis
             </p>
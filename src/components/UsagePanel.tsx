@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { UsageOperation, UsageReport, UsageSummary, UsageTotals } from '@/types';
+import { Gauge, RefreshCw, Loader2, AlertTriangle } from 'lucide-react';
+
+interface UsagePanelProps {
+  analysisUsage?: UsageSummary;   // model calls that produced the current analysis
+}
+
+const operationLabels: Record<UsageOperation, string> = {
+  analysis: 'Analysis',
+  section: 'Section rewrites',
+  'animation-code': 'Code generation',
+  narration: 'Narration rewrites',
+  translation: 'Translation',
+  other: 'Other',
+};
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+function describeTotals(totals: UsageTotals): string {
+  const parts = [
+    `${totals.calls} calls`,
+    `${formatTokens(totals.promptTokens + totals.responseTokens)} tokens`,
+  ];
+  if (totals.cacheHits > 0) parts.push(`${totals.cacheHits} cached`);
+  if (totals.retries > 0) parts.push(`${totals.retries} retries`);
+  if (totals.failures > 0) parts.push(`${totals.failures} failed`);
+  return parts.join(' · ');
+}
+
+function OperationBreakdown({ summary }: { summary: UsageSummary }) {
+  const operations = (Object.keys(summary.byOperation) as UsageOperation[])
+    .sort((a, b) => summary.byOperation[b]!.estimatedCost - summary.byOperation[a]!.estimatedCost);
+
+  return (
+    <div className="space-y-1.5">
+      {operations.map((operation) => {
+        const totals = summary.byOperation[operation]!;
+        const share = summary.estimatedCost > 0 ? totals.estimatedCost / summary.estimatedCost : 0;
+        return (
+          <div key={operation}>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-600">{operationLabels[operation]}</span>
+              <span className="font-medium text-gray-700">{formatCost(totals.estimatedCost)}</span>
+            </div>
+            <div className="h-1 bg-gray-100 rounded-full overflow-hidden my-0.5">
+              <div className="h-full bg-blue-400" style={{ width: `${share * 100}%` }} />
+            </div>
+            <div className="text-[10px] text-gray-400">{describeTotals(totals)}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function UsagePanel({ analysisUsage }: UsagePanelProps) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/usage');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load usage');
+      }
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const spent = report?.summary.estimatedCost ?? 0;
+  const budgetShare = report?.budget ? Math.min(1, spent / report.budget) : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-4">
+        <Gauge className="w-4 h-4 text-gray-500" />
+        <h4 className="text-sm font-semibold text-gray-700">Usage</h4>
+        <button
+          onClick={() => void loadReport()}
+          disabled={isLoading}
+          title="Refresh"
+          className="ml-auto p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {/* This Analysis */}
+        {analysisUsage && (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-600">This Analysis</span>
+              <span className="text-xs font-semibold text-gray-700">{formatCost(analysisUsage.estimatedCost)}</span>
+            </div>
+            <div className="text-[10px] text-gray-400">
+              {describeTotals(analysisUsage)} · {(analysisUsage.latencyMs / 1000).toFixed(1)}s of model time
+            </div>
+          </div>
+        )}
+
+        {/* Monthly Budget */}
+        {error && (
+          <div className="flex items-start gap-1.5 text-xs text-red-600">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        {report && (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-600">{report.month}</span>
+              <span className="text-xs font-semibold text-gray-700">
+                {formatCost(spent)}{report.budget ? ` of ${formatCost(report.budget)}` : ''}
+              </span>
+            </div>
+            {report.budget && (
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mb-1">
+                <div
+                  className={`h-full ${budgetShare >= 0.9 ? 'bg-red-500' : budgetShare >= 0.7 ? 'bg-amber-400' : 'bg-green-500'}`}
+                  style={{ width: `${budgetShare * 100}%` }}
+                />
+              </div>
+            )}
+            <div className="text-[10px] text-gray-400 mb-3">{describeTotals(report.summary)}</div>
+            {report.summary.calls > 0 ? (
+              <OperationBreakdown summary={report.summary} />
+            ) : (
+              <p className="text-xs text-gray-400">No model calls recorded this month.</p>
+            )}
+          </div>
+        )}
+
+        <p className="text-[10px] text-gray-400 leading-relaxed">
+          Costs are estimated from list prices; tokens are estimated where the provider does not report them.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { motion } from 'framer-motion';
 import { useEffect, useState } from 'react';
+import { useFrameTransition } from '@/lib/frame-animations';
 
 export type CharacterPose = 'idle' | 'pointing' | 'thinking' | 'surprised' | 'nodding' | 'waving';
 
@@ -9,8 +10,12 @@ interface AnimeCharacterProps {
   pose: CharacterPose;
   position?: 'bottom-left' | 'bottom-right';
   size?: number;
+  time?: number;      // seconds, when rendering frame by frame; blinks follow it instead of timers
 }
 
+const BLINK_INTERVAL = 4.5;   // seconds between blinks when driven by `time`
+const BLINK_LENGTH = 0.15;
+
 // Pose configurations for different character states
 const poseConfig: Record<CharacterPose, {
   rightArm: string;
@@ -67,18 +72,23 @@ export default function AnimeCharacter({
   pose = 'idle',
   position = 'bottom-right',
   size = 90,
+  time,
 }: AnimeCharacterProps) {
+  const frameTransition = useFrameTransition();
   const config = poseConfig[pose];
-  const [blinkState, setBlinkState] = useState(false);
+  const [timerBlink, setBlinkState] = useState(false);
+  const frameDriven = time !== undefined;
+  const blinkState = frameDriven ? time % BLINK_INTERVAL > BLINK_INTERVAL - BLINK_LENGTH : timerBlink;
 
   // Periodic blink effect
   useEffect(() => {
+    if (frameDriven) return;
     const interval = setInterval(() => {
       setBlinkState(true);
       setTimeout(() => setBlinkState(false), 150);
     }, 3500 + Math.random() * 2000);
     return () => clearInterval(interval);
-  }, []);
+  }, [frameDriven]);
 
   const positionClasses = position === 'bottom-right'
     ? 'absolute bottom-3 right-3'
@@ -96,7 +106,7 @@ export default function AnimeCharacter({
             ? { y: [-4, 0] }
             : {}
         }
-        transition={
+        transition={frameTransition(
           pose === 'idle'
             ? { duration: 3, repeat: Infinity, ease: 'easeInOut' }
             : pose === 'nodding'
@@ -104,7 +114,7 @@ export default function AnimeCharacter({
             : pose === 'surprised'
             ? { duration: 0.3, ease: 'easeOut' }
             : {}
-        }
+        )}
       >
         <svg
           viewBox="0 0 100 140"
@@ -130,7 +140,7 @@ export default function AnimeCharacter({
           {/* Body */}
           <motion.g
             animate={{ y: config.bodyY }}
-            transition={{ duration: 0.3 }}
+            transition={frameTransition({ duration: 0.3 })}
           >
             {/* Torso */}
             <rect x={35} y={84} width={30} height={36} rx={8} fill="url(#bodyGrad)" stroke="#475569" strokeWidth={0.8} />
@@ -161,13 +171,13 @@ export default function AnimeCharacter({
                   ? { x: [0, 2, 0] }
                   : {}
               }
-              transition={
+              transition={frameTransition(
                 pose === 'waving'
                   ? { duration: 1.2, ease: 'easeInOut' }
                   : pose === 'pointing'
                   ? { duration: 1, repeat: 2, ease: 'easeInOut' }
                   : {}
-              }
+              )}
               style={{ transformOrigin: '65px 90px' }}
             />
 
@@ -179,7 +189,7 @@ export default function AnimeCharacter({
           {/* Head group (tiltable) */}
           <motion.g
             animate={{ rotate: config.headTilt }}
-            transition={{ duration: 0.4, ease: 'easeOut' }}
+            transition={frameTransition({ duration: 0.4, ease: 'easeOut' })}
             style={{ transformOrigin: '50px 55px' }}
           >
             {/* Hair back layer */}
@@ -204,7 +214,7 @@ export default function AnimeCharacter({
             {/* Eyes */}
             <motion.g
               animate={{ scaleY: blinkState ? 0.1 : config.eyeScale }}
-              transition={{ duration: 0.1 }}
+              transition={frameTransition({ duration: 0.1 })}
               style={{ transformOrigin: '50px 56px' }}
             >
               {/* Left eye */}
@@ -238,7 +248,7 @@ export default function AnimeCharacter({
               <motion.g
                 initial={{ opacity: 0 }}
                 animate={{ opacity: [0, 1, 0] }}
-                transition={{ duration: 1.5, repeat: Infinity }}
+                transition={frameTransition({ duration: 1.5, repeat: Infinity })}
               >
                 <circle cx={72} cy={30} r={1.5} fill="#94A3B8" />
                 <circle cx={78} cy={24} r={2} fill="#94A3B8" />
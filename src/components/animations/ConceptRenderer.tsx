@@ -3,12 +3,18 @@
 import { motion, AnimatePresence, type TargetAndTransition } from 'framer-motion';
 import { AnimationData, AnimationElement } from '@/types';
 import DoodleOverlay from './DoodleOverlay';
-import { interpolateKeyframes, keyframesFromLegacyAnimation, easeProgress } from '@/lib/keyframes';
+import FigureImage from './FigureImage';
+import TableView from './TableView';
+import { interpolateKeyframes, keyframesFromLegacyAnimation } from '@/lib/keyframes';
+import { normalizeTableProps } from '@/lib/table-animation';
+import { useFrameTransition } from '@/lib/frame-animations';
 
 interface ConceptRendererProps {
   animationData: AnimationData;
   narration: string;
   animationProgress: number;
+  stepIndex: number;         // step the narration is on
+  stepProgress: number;      // 0-1 within that step
   title: string;
   transitionState?: 'entering' | 'active' | 'exiting';
   enableDoodles?: boolean;
@@ -116,6 +122,45 @@ function PositionedMotionElement({
     transition: 'none', // keyframes handle smoothness
   };
 
+  if (element.type === 'image') {
+    const width = (element.props.width as number) || 320;
+    const height = (element.props.height as number) || 200;
+    // Zoom/pan come from the keyframe track, or hold still at the props values
+    const view = element.animation.keyframes
+      ? state
+      : { zoom: element.props.zoom as number, panX: element.props.panX as number, panY: element.props.panY as number };
+    return (
+      <FigureImage
+        assetId={element.props.assetId}
+        figureId={element.props.figureId}
+        width={width}
+        height={height}
+        crop={element.props.crop}
+        zoom={view.zoom}
+        panX={view.panX}
+        panY={view.panY}
+        style={{
+          ...baseStyle,
+          width: `${(width / CANVAS_WIDTH) * 100}%`,
+          height: `${(height / CANVAS_HEIGHT) * 100}%`,
+        }}
+      />
+    );
+  }
+
+  if (element.type === 'table') {
+    const table = normalizeTableProps(element.props);
+    if (!table) return null;
+    const width = (element.props.width as number) || 460;
+    return (
+      <TableView
+        table={table}
+        progress={stepProgress}
+        style={{ ...baseStyle, width: `${(width / CANVAS_WIDTH) * 100}%` }}
+      />
+    );
+  }
+
   if (element.type === 'text') {
     return (
       <div style={{ ...baseStyle, color: state.color || '#E2E8F0', fontSize: `${size}px` }} className="px-4 py-2">
@@ -212,13 +257,26 @@ function PositionedMotionElement({
 // Legacy MotionElement — flex layout (no x/y coords)
 // ============================================
 
-function MotionElement({ element, index }: { element: AnimationElement; index: number }) {
+function MotionElement({
+  element,
+  index,
+  stepProgress,
+}: {
+  element: AnimationElement;
+  index: number;
+  stepProgress: number;
+}) {
+  const frameTransition = useFrameTransition();
+  // Targets that carry their own transition need the frame driver on it too
+  const onFrames = (target: TargetAndTransition): TargetAndTransition =>
+    target.transition ? { ...target, transition: frameTransition(target.transition) } : target;
+
   const enterVars = getEnterVariants(element.animation.enter);
   const continuous: TargetAndTransition = element.animation.continuous && element.animation.continuous !== 'none'
-    ? continuousAnimations[element.animation.continuous] || {}
+    ? onFrames(continuousAnimations[element.animation.continuous] || {})
     : {};
   const exitAnim: TargetAndTransition = element.animation.exit && element.animation.exit !== 'none'
-    ? exitVariants[element.animation.exit] || { opacity: 0 }
+    ? onFrames(exitVariants[element.animation.exit] || { opacity: 0 })
     : { opacity: 0 };
 
   const content = (element.props.content as string) || '';
@@ -228,10 +286,56 @@ function MotionElement({ element, index }: { element: AnimationElement; index: n
   // Merge enter + continuous animations
   const animateState = { ...enterVars.animate, ...continuous };
 
-  const baseTransition = {
+  const baseTransition = frameTransition({
     duration: element.animation.duration || 0.6,
     delay: element.animation.delay || index * 0.15,
-  };
+  });
+
+  if (element.type === 'table') {
+    const table = normalizeTableProps(element.props);
+    if (!table) return null;
+    return (
+      <motion.div
+        initial={enterVars.initial}
+        animate={enterVars.animate}
+        exit={exitAnim}
+        transition={baseTransition}
+        style={{ willChange: 'transform, opacity' }}
+      >
+        <TableView
+          table={table}
+          progress={stepProgress}
+          style={{ width: `${(element.props.width as number) || 460}px` }}
+        />
+      </motion.div>
+    );
+  }
+
+  if (element.type === 'image') {
+    const width = (element.props.width as number) || 320;
+    const height = (element.props.height as number) || 200;
+    return (
+      <motion.div
+        initial={enterVars.initial}
+        animate={animateState}
+        exit={exitAnim}
+        transition={baseTransition}
+        style={{ willChange: 'transform, opacity' }}
+      >
+        <FigureImage
+          assetId={element.props.assetId}
+          figureId={element.props.figureId}
+          width={width}
+          height={height}
+          crop={element.props.crop}
+          zoom={element.props.zoom as number}
+          panX={element.props.panX as number}
+          panY={element.props.panY as number}
+          style={{ width: `${width}px`, height: `${height}px` }}
+        />
+      </motion.div>
+    );
+  }
 
   if (element.type === 'text') {
     return (
@@ -367,28 +471,20 @@ export default function ConceptRenderer({
   animationData,
   narration,
   animationProgress,
+  stepIndex,
+  stepProgress,
   title,
   transitionState = 'active',
   enableDoodles = true,
 }: ConceptRendererProps) {
+  const frameTransition = useFrameTransition();
   const steps = animationData?.steps || [];
   const containerOpacity = transitionState === 'active' ? 1 : 0.88;
   const containerScale = transitionState === 'entering' ? 0.97 : transitionState === 'exiting' ? 1.02 : 1;
 
-  // Apply easing to animation progress for smoother step transitions
-  const easedProgress = easeProgress(animationProgress, 'easeInOut');
-
-  const currentStepIndex = Math.min(
-    Math.floor(easedProgress * steps.length),
-    steps.length - 1
-  );
-
+  const currentStepIndex = Math.min(stepIndex, steps.length - 1);
   const currentStep = steps[currentStepIndex];
 
-  // Compute intra-step progress (0-1 within the current step)
-  const rawStepProgress = easedProgress * steps.length;
-  const stepProgress = rawStepProgress - currentStepIndex; // 0-1 within step
-
   // Check if ANY element in the current step has x/y coordinates
   const hasPositionedElements = currentStep?.elements?.some(
     (el) => (el.props.x !== undefined && el.props.y !== undefined)
@@ -428,7 +524,7 @@ export default function ConceptRenderer({
         <motion.h3
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6 }}
+          transition={frameTransition({ duration: 0.6 })}
           className="text-2xl font-bold text-white mb-5 tracking-tight"
         >
           {title}
@@ -443,12 +539,13 @@ export default function ConceptRenderer({
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.5 }}
+                transition={frameTransition({ duration: 0.5 })}
               >
                 {/* Step label */}
                 <motion.div
                   initial={{ opacity: 0, x: -10 }}
                   animate={{ opacity: 1, x: 0 }}
+                  transition={frameTransition()}
                   className="flex items-center gap-2 mb-3"
                 >
                   <span className="w-6 h-6 rounded-full bg-indigo-500/30 border border-indigo-400/50 flex items-center justify-center text-[10px] font-bold text-indigo-300">
@@ -484,7 +581,7 @@ export default function ConceptRenderer({
                   <div className="flex flex-wrap items-center justify-center gap-4">
                     <AnimatePresence>
                       {currentStep.elements?.map((element, elIdx) => (
-                        <MotionElement key={elIdx} element={element} index={elIdx} />
+                        <MotionElement key={elIdx} element={element} index={elIdx} stepProgress={stepProgress} />
                       ))}
                     </AnimatePresence>
                   </div>
@@ -497,7 +594,7 @@ export default function ConceptRenderer({
         <motion.p
           initial={{ opacity: 0 }}
           animate={{ opacity: animationProgress > 0.2 ? 0.7 : 0 }}
-          transition={{ duration: 0.8 }}
+          transition={frameTransition({ duration: 0.8 })}
           className="mt-5 text-slate-400 text-center max-w-lg leading-relaxed text-sm"
         >
           {narration}
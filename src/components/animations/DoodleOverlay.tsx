@@ -2,6 +2,7 @@
 
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { useFrameTransition } from '@/lib/frame-animations';
 import type { AnimationStep } from '@/types';
 
 interface DoodleOverlayProps {
@@ -26,6 +27,7 @@ export default function DoodleOverlay({
   width = 800,
   height = 500,
 }: DoodleOverlayProps) {
+  const frameTransition = useFrameTransition();
   const doodles = useMemo(() => {
     if (!currentStep?.elements) return [];
 
@@ -110,7 +112,7 @@ export default function DoodleOverlay({
           key={`doodle-${i}`}
           initial={{ opacity: 0 }}
           animate={{ opacity: animationProgress > 0.1 ? 1 : 0 }}
-          transition={{ duration: 0.8, delay: doodle.delay }}
+          transition={frameTransition({ duration: 0.8, delay: doodle.delay })}
         >
           {doodle.type === 'wavy-underline' && (
             <motion.path
@@ -121,7 +123,7 @@ export default function DoodleOverlay({
               strokeLinecap="round"
               initial={{ pathLength: 0 }}
               animate={{ pathLength: 1 }}
-              transition={{ duration: 1.2, delay: doodle.delay }}
+              transition={frameTransition({ duration: 1.2, delay: doodle.delay })}
             />
           )}
 
@@ -139,7 +141,7 @@ export default function DoodleOverlay({
               transform={`rotate(-3, ${doodle.x}, ${doodle.y})`}
               initial={{ pathLength: 0, opacity: 0 }}
               animate={{ pathLength: 1, opacity: 1 }}
-              transition={{ duration: 1.5, delay: doodle.delay }}
+              transition={frameTransition({ duration: 1.5, delay: doodle.delay })}
             />
           )}
 
@@ -147,7 +149,7 @@ export default function DoodleOverlay({
             <motion.g
               initial={{ scale: 0, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
-              transition={{ duration: 0.5, delay: doodle.delay, type: 'spring' }}
+              transition={frameTransition({ duration: 0.5, delay: doodle.delay, type: 'spring' })}
             >
               <path
                 d={`M${doodle.x},${doodle.y - doodle.size} L${doodle.x + doodle.size * 0.3},${doodle.y - doodle.size * 0.3} L${doodle.x + doodle.size},${doodle.y} L${doodle.x + doodle.size * 0.3},${doodle.y + doodle.size * 0.3} L${doodle.x},${doodle.y + doodle.size} L${doodle.x - doodle.size * 0.3},${doodle.y + doodle.size * 0.3} L${doodle.x - doodle.size},${doodle.y} L${doodle.x - doodle.size * 0.3},${doodle.y - doodle.size * 0.3} Z`}
@@ -166,7 +168,7 @@ export default function DoodleOverlay({
               strokeLinecap="round"
               initial={{ pathLength: 0 }}
               animate={{ pathLength: 1 }}
-              transition={{ duration: 1, delay: doodle.delay }}
+              transition={frameTransition({ duration: 1, delay: doodle.delay })}
             />
           )}
         </motion.g>
@@ -5,13 +5,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
 import DoodleOverlay from './DoodleOverlay';
+import { useFrameTransition } from '@/lib/frame-animations';
 import type { AnimationStep } from '@/types';
-import { easeProgress } from '@/lib/keyframes';
 
 interface EquationRendererProps {
   equations: string[];
   narration: string;
   animationProgress: number;
+  equationIndex: number;     // equation for the step the narration is on
   title: string;
   transitionState?: 'entering' | 'active' | 'exiting';
   enableDoodles?: boolean;
@@ -21,10 +22,12 @@ export default function EquationRenderer({
   equations,
   narration,
   animationProgress,
+  equationIndex,
   title,
   transitionState = 'active',
   enableDoodles = true,
 }: EquationRendererProps) {
+  const frameTransition = useFrameTransition();
   const containerRef = useRef<HTMLDivElement>(null);
   const [renderedEquations, setRenderedEquations] = useState<string[]>([]);
   const containerOpacity = transitionState === 'active' ? 1 : 0.9;
@@ -45,14 +48,8 @@ export default function EquationRenderer({
     setRenderedEquations(rendered);
   }, [equations]);
 
-  // Apply easing for smoother equation transitions
-  const easedProgress = easeProgress(animationProgress, 'easeInOut');
-
   // Single equation at a time (lifecycle rendering)
-  const currentEqIndex = Math.min(
-    Math.floor(easedProgress * equations.length),
-    equations.length - 1
-  );
+  const currentEqIndex = Math.min(equationIndex, equations.length - 1);
 
   // Synthetic step for doodle overlay (current equation only)
   const syntheticStep: AnimationStep | null = useMemo(() => {
@@ -123,7 +120,7 @@ export default function EquationRenderer({
         <motion.h3
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: animationProgress > 0 ? 1 : 0, y: animationProgress > 0 ? 0 : -20 }}
-          transition={{ duration: 0.6 }}
+          transition={frameTransition({ duration: 0.6 })}
           className="text-2xl font-bold text-white mb-6 tracking-tight"
         >
           {title}
@@ -137,7 +134,7 @@ export default function EquationRenderer({
                 initial={{ opacity: 0, y: 30, scale: 0.9 }}
                 animate={{ opacity: 1, y: 0, scale: 1 }}
                 exit={{ opacity: 0, y: -20, scale: 0.95 }}
-                transition={{ duration: 0.8 }}
+                transition={frameTransition({ duration: 0.8 })}
                 className="relative equation-block rounded-xl px-8 py-6 backdrop-blur-sm"
                 style={{
                   background: cardAccents[currentEqIndex % cardAccents.length].glow,
@@ -171,7 +168,7 @@ export default function EquationRenderer({
         <motion.p
           initial={{ opacity: 0 }}
           animate={{ opacity: animationProgress > 0.3 ? 0.7 : 0 }}
-          transition={{ duration: 0.8 }}
+          transition={frameTransition({ duration: 0.8 })}
           className="mt-6 text-slate-400 text-center max-w-lg leading-relaxed text-sm"
         >
           {narration}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { ImageCrop } from '@/types';
+import { getProjectAssets } from '@/lib/project-assets';
+
+interface FigureImageProps {
+  assetId: unknown;
+  figureId?: unknown;
+  width: number;   // box size in canvas units, used for the aspect ratio
+  height: number;
+  crop?: unknown;
+  zoom?: number;
+  panX?: number;
+  panY?: number;
+  style?: React.CSSProperties;
+}
+
+const FULL_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Accept a model-supplied crop only if it is a sane sub-rectangle of the image */
+function normalizeCrop(raw: unknown): ImageCrop {
+  if (!raw || typeof raw !== 'object') return FULL_CROP;
+  const { x, y, width, height } = raw as Partial<ImageCrop>;
+  if ([x, y, width, height].some((v) => typeof v !== 'number' || !Number.isFinite(v))) return FULL_CROP;
+  const cx = clamp(x!, 0, 0.95);
+  const cy = clamp(y!, 0, 0.95);
+  return { x: cx, y: cy, width: clamp(width!, 0.05, 1 - cx), height: clamp(height!, 0.05, 1 - cy) };
+}
+
+/**
+ * Place the image inside a box so the crop region fits (contain) at zoom 1,
+ * magnified by `zoom` around the pan focus point. The focus is clamped so
+ * the view never leaves the crop region. Returns percentages of the box.
+ */
+function imageLayout(
+  box: { width: number; height: number },
+  natural: { width: number; height: number },
+  crop: ImageCrop,
+  zoom: number,
+  panX: number,
+  panY: number
+) {
+  const scale = Math.min(
+    box.width / (crop.width * natural.width),
+    box.height / (crop.height * natural.height)
+  ) * Math.max(1, zoom);
+  const imageWidth = natural.width * scale;
+  const imageHeight = natural.height * scale;
+
+  const halfViewX = box.width / 2 / imageWidth;
+  const halfViewY = box.height / 2 / imageHeight;
+  const focusX = halfViewX * 2 >= crop.width
+    ? crop.x + crop.width / 2
+    : clamp(crop.x + panX * crop.width, crop.x + halfViewX, crop.x + crop.width - halfViewX);
+  const focusY = halfViewY * 2 >= crop.height
+    ? crop.y + crop.height / 2
+    : clamp(crop.y + panY * crop.height, crop.y + halfViewY, crop.y + crop.height - halfViewY);
+
+  return {
+    left: `${((box.width / 2 - focusX * imageWidth) / box.width) * 100}%`,
+    top: `${((box.height / 2 - focusY * imageHeight) / box.height) * 100}%`,
+    width: `${(imageWidth / box.width) * 100}%`,
+    height: `${(imageHeight / box.height) * 100}%`,
+  };
+}
+
+export default function FigureImage({
+  assetId,
+  figureId,
+  width,
+  height,
+  crop,
+  zoom = 1,
+  panX = 0.5,
+  panY = 0.5,
+  style,
+}: FigureImageProps) {
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const src = getProjectAssets().getSrc(assetId);
+
+  if (!src) {
+    return (
+      <div
+        style={style}
+        className="relative rounded-lg border border-dashed border-slate-500/50 flex items-center justify-center text-xs text-slate-400"
+      >
+        {typeof figureId === 'string' ? `Figure ${figureId.replace(/^F/i, '')}` : 'Figure'}
+      </div>
+    );
+  }
+
+  const layout = natural
+    ? imageLayout({ width, height }, natural, normalizeCrop(crop), zoom, panX, panY)
+    : { left: '0%', top: '0%', width: '100%', height: '100%' };
+
+  return (
+    <div
+      style={style}
+      className="relative overflow-hidden rounded-lg bg-white shadow-xl border border-white/10"
+    >
+      {/* data: URLs from the source paper; there is nothing for the optimizer to fetch */}
+      <Image
+        src={src}
+        fill
+        unoptimized
+        alt={typeof figureId === 'string' ? `Figure ${figureId}` : ''}
+        draggable={false}
+        onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        style={{
+          position: 'absolute',
+          maxWidth: 'none',
+          objectFit: natural ? 'fill' : 'contain',
+          ...layout,
+        }}
+      />
+    </div>
+  );
+}
@@ -3,56 +3,128 @@
 import { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 import { motion } from 'framer-motion';
-import { AnimationData } from '@/types';
+import { AnimationData, AnimationElement } from '@/types';
 import DoodleOverlay from './DoodleOverlay';
-import { easeProgress } from '@/lib/keyframes';
+import FigureImage from './FigureImage';
+import { interpolateKeyframes, keyframesFromLegacyAnimation } from '@/lib/keyframes';
+import { normalizeTableProps, revealWindow, tableColumnWidths, tablePhases } from '@/lib/table-animation';
+import { useFrameTransition } from '@/lib/frame-animations';
 
 interface GraphRendererProps {
   animationData: AnimationData;
   narration: string;
   animationProgress: number;
+  stepIndex: number;         // step the narration is on
+  stepProgress: number;      // 0-1 within that step
   title: string;
   transitionState?: 'entering' | 'active' | 'exiting';
   enableDoodles?: boolean;
+  frameTime?: number;        // timeline seconds when rendering frame by frame
+}
+
+// Shared with the D3 drawing: elements are positioned inside these margins
+const SVG_WIDTH = 700;
+const SVG_HEIGHT = 400;
+const MARGIN = { top: 40, right: 40, bottom: 60, left: 60 };
+
+/**
+ * Figure image placed in SVG coordinates. Rendered by React on every tick
+ * (not by the step-change D3 rebuild) so zoom and pan follow the keyframes.
+ */
+function GraphImage({
+  element,
+  index,
+  stepProgress,
+}: {
+  element: AnimationElement;
+  index: number;
+  stepProgress: number;
+}) {
+  const width = (element.props.width as number) || 320;
+  const height = (element.props.height as number) || 200;
+  const x = (element.props.x as number) ?? (SVG_WIDTH - MARGIN.left - MARGIN.right) / 2;
+  const y = (element.props.y as number) ?? (SVG_HEIGHT - MARGIN.top - MARGIN.bottom) / 2;
+
+  const keyframes = element.animation.keyframes
+    || keyframesFromLegacyAnimation(element.animation, { x, y }, index);
+  const state = interpolateKeyframes(keyframes, stepProgress);
+  const view = element.animation.keyframes
+    ? state
+    : { zoom: element.props.zoom as number, panX: element.props.panX as number, panY: element.props.panY as number };
+
+  return (
+    <foreignObject
+      x={MARGIN.left + state.x - width / 2}
+      y={MARGIN.top + state.y - height / 2}
+      width={width}
+      height={height}
+      opacity={state.opacity}
+    >
+      <FigureImage
+        assetId={element.props.assetId}
+        figureId={element.props.figureId}
+        width={width}
+        height={height}
+        crop={element.props.crop}
+        zoom={view.zoom}
+        panX={view.panX}
+        panY={view.panY}
+        style={{
+          width: '100%',
+          height: '100%',
+          transform: `scale(${state.scaleX}) rotate(${state.rotateZ || 0}deg)`,
+        }}
+      />
+    </foreignObject>
+  );
 }
 
 export default function GraphRenderer({
   animationData,
   narration,
   animationProgress,
+  stepIndex,
+  stepProgress,
   title,
   transitionState = 'active',
   enableDoodles = true,
+  frameTime,
 }: GraphRendererProps) {
+  const frameTransition = useFrameTransition();
   const svgRef = useRef<SVGSVGElement>(null);
   const prevStepRef = useRef<number>(-1);
+  const stepStartRef = useRef(0);
   const containerOpacity = transitionState === 'active' ? 1 : 0.9;
   const containerScale = transitionState === 'entering' ? 0.97 : transitionState === 'exiting' ? 1.02 : 1;
 
-  // Apply easing to progress
-  const easedProgress = easeProgress(animationProgress, 'easeInOut');
-
-  // Compute current step index
   const currentStepIndex = animationData?.steps
-    ? Math.min(
-        Math.floor(easedProgress * animationData.steps.length),
-        animationData.steps.length - 1
-      )
+    ? Math.min(stepIndex, animationData.steps.length - 1)
     : 0;
 
+  // stepProgress (0-1 within the step) drives keyframed image elements
+  const imageElements = animationData?.steps?.[currentStepIndex]?.elements
+    ?.filter((el) => el.type === 'image') || [];
+
   useEffect(() => {
     if (!svgRef.current || !animationData?.steps) return;
 
-    // Only rebuild when step index CHANGES (not every progress tick)
-    if (currentStepIndex === prevStepRef.current) return;
+    // Only rebuild when step index CHANGES (not every progress tick), except
+    // frame by frame: then the step is redrawn each frame as it stands at frameTime
+    const stepChanged = currentStepIndex !== prevStepRef.current;
+    if (!stepChanged && frameTime === undefined) return;
     prevStepRef.current = currentStepIndex;
+    if (stepChanged) stepStartRef.current = frameTime ?? 0;
+
+    // Transition delays count from when the step began, not from this redraw
+    const elapsedMs = frameTime === undefined ? 0 : (frameTime - stepStartRef.current) * 1000;
+    const delay = (ms: number) => ms - elapsedMs;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll('*').remove();
 
-    const width = 700;
-    const height = 400;
-    const margin = { top: 40, right: 40, bottom: 60, left: 60 };
+    const width = SVG_WIDTH;
+    const height = SVG_HEIGHT;
+    const margin = MARGIN;
 
     const g = svg
       .attr('viewBox', `0 0 ${width} ${height}`)
@@ -129,6 +201,7 @@ export default function GraphRenderer({
             .attr('stroke-dasharray', '6,4')
             .attr('opacity', 0)
             .transition()
+            .delay(delay(0))
             .duration(600)
             .ease(d3.easeCubicOut)
             .attr('opacity', 1);
@@ -154,7 +227,7 @@ export default function GraphRenderer({
         .transition()
         .duration(600)
         .ease(d3.easeBackOut)
-        .delay((_, i) => i * 100)
+        .delay((_, i) => delay(i * 100))
         .attr('r', (d) => d.size + 6);
 
       // Main node circle with gradient
@@ -166,7 +239,7 @@ export default function GraphRenderer({
         .transition()
         .duration(600)
         .ease(d3.easeBackOut)
-        .delay((_, i) => i * 100)
+        .delay((_, i) => delay(i * 100))
         .attr('r', (d) => d.size);
 
       // Node labels
@@ -181,12 +254,16 @@ export default function GraphRenderer({
         .transition()
         .duration(400)
         .ease(d3.easeCubicOut)
-        .delay((_, i) => i * 100 + 300)
+        .delay((_, i) => delay(i * 100 + 300))
         .attr('opacity', 1);
 
       // Continuous float animation on node groups
       nodeGroups.each(function(d) {
         const el = d3.select(this);
+        if (frameTime !== undefined) {
+          el.attr('transform', `translate(${d.x},${d.y - 3 * Math.sin((elapsedMs / 3000) * 2 * Math.PI)})`);
+          return;
+        }
         function floatLoop() {
           el.transition()
             .duration(1500)
@@ -215,6 +292,7 @@ export default function GraphRenderer({
         .attr('font-weight', '500')
         .attr('opacity', 0)
         .transition()
+        .delay(delay(0))
         .duration(600)
         .ease(d3.easeCubicOut)
         .attr('opacity', 1);
@@ -247,7 +325,7 @@ export default function GraphRenderer({
           .transition()
           .duration(800)
           .ease(d3.easeCubicOut)
-          .delay(i * 100)
+          .delay(delay(i * 100))
           .attr('y', (s.props.y as number) || innerHeight / 2)
           .attr('height', (s.props.height as number) || innerHeight / 2);
       }
@@ -285,6 +363,7 @@ export default function GraphRenderer({
         .attr('marker-end', `url(#arrowhead-${idx})`)
         .attr('opacity', 0.8)
         .transition()
+        .delay(delay(0))
         .duration(800)
         .ease(d3.easeCubicOut)
         .attr('x2', x2)
@@ -313,7 +392,7 @@ export default function GraphRenderer({
         .transition()
         .duration(600)
         .ease(d3.easeCubicOut)
-        .delay(idx * 150)
+        .delay(delay(idx * 150))
         .attr('opacity', 1);
 
       g.append('text')
@@ -328,10 +407,122 @@ export default function GraphRenderer({
         .transition()
         .duration(400)
         .ease(d3.easeCubicOut)
-        .delay(idx * 150 + 200)
+        .delay(delay(idx * 150 + 200))
         .attr('opacity', 1);
     });
-  }, [animationData, currentStepIndex]);
+
+    // Render tables: phases are scheduled as transitions across the step
+    const stepMs = (currentStep?.duration || 4) * 1000;
+    const tables = visibleElements.filter((el) => el.type === 'table');
+    tables.forEach((t) => {
+      const table = normalizeTableProps(t.props);
+      if (!table) return;
+
+      const phases = tablePhases(table);
+      const rowH = 24;
+      const tableWidth = (t.props.width as number) || 460;
+      const headerH = table.header ? rowH : 0;
+      const tableHeight = headerH + table.rows.length * rowH;
+      const tx = ((t.props.x as number) ?? innerWidth / 2) - tableWidth / 2;
+      const ty = ((t.props.y as number) ?? innerHeight / 2) - tableHeight / 2;
+      const widths = tableColumnWidths(table, tableWidth);
+      const offsets = widths.map((_, c) => widths.slice(0, c).reduce((sum, w) => sum + w, 0));
+      const fit = (text: string, c: number) => {
+        const max = Math.max(3, Math.floor(widths[c] / 6.5));
+        return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+      };
+
+      const tg = g.append('g').attr('transform', `translate(${tx},${ty})`);
+      tg.append('rect')
+        .attr('width', tableWidth)
+        .attr('height', tableHeight)
+        .attr('rx', 8)
+        .attr('fill', 'rgba(15, 23, 42, 0.7)')
+        .attr('stroke', 'rgba(148, 163, 184, 0.3)');
+
+      if (table.header) {
+        table.header.forEach((cell, c) => {
+          tg.append('text')
+            .text(fit(cell, c))
+            .attr('x', c === 0 ? offsets[c] + 8 : offsets[c] + widths[c] / 2)
+            .attr('y', rowH / 2)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', c === 0 ? 'start' : 'middle')
+            .attr('fill', '#A5B4FC')
+            .attr('font-size', '11px')
+            .attr('font-weight', '700');
+        });
+        tg.append('line')
+          .attr('x1', 0).attr('x2', tableWidth)
+          .attr('y1', headerH).attr('y2', headerH)
+          .attr('stroke', 'rgba(148, 163, 184, 0.4)');
+      }
+
+      table.rows.forEach((row, r) => {
+        const rowG = tg.append('g').attr('transform', `translate(0,${headerH + r * rowH})`);
+
+        if (table.reveal === 'rows') {
+          const [start, end] = revealWindow(r, table.rows.length, phases.revealEnd);
+          rowG.attr('opacity', 0)
+            .transition()
+            .delay(delay(start * stepMs))
+            .duration((end - start) * stepMs)
+            .attr('opacity', 1);
+        } else if (table.reveal === 'none') {
+          rowG.attr('opacity', 0).transition().delay(delay(0)).duration(phases.revealEnd * stepMs).attr('opacity', 1);
+        }
+
+        row.forEach((cell, c) => {
+          if (table.highlighted.has(`${r}:${c}`)) {
+            rowG.append('rect')
+              .attr('x', offsets[c] + 2).attr('y', 2)
+              .attr('width', widths[c] - 4).attr('height', rowH - 4)
+              .attr('rx', 4)
+              .attr('fill', 'rgba(251, 191, 36, 0.25)')
+              .attr('stroke', 'rgba(251, 191, 36, 0.6)')
+              .attr('opacity', 0)
+              .transition()
+              .delay(delay(phases.highlightStart * stepMs))
+              .duration((phases.highlightEnd - phases.highlightStart) * stepMs)
+              .attr('opacity', 1);
+          }
+
+          const text = rowG.append('text')
+            .text(fit(cell, c))
+            .attr('x', c === 0 ? offsets[c] + 8 : offsets[c] + widths[c] / 2)
+            .attr('y', rowH / 2)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', c === 0 ? 'start' : 'middle')
+            .attr('fill', table.highlighted.has(`${r}:${c}`) ? '#FCD34D' : '#E2E8F0')
+            .attr('font-size', '11px');
+
+          if (table.reveal === 'columns') {
+            const [start, end] = revealWindow(c, row.length, phases.revealEnd);
+            text.attr('opacity', 0)
+              .transition()
+              .delay(delay(start * stepMs))
+              .duration((end - start) * stepMs)
+              .attr('opacity', 1);
+          }
+        });
+
+        // Named transition so the sort runs independently of the reveal
+        if (table.sortedSlots) {
+          rowG.transition('sort')
+            .delay(delay(phases.sortStart * stepMs))
+            .duration((phases.sortEnd - phases.sortStart) * stepMs)
+            .ease(d3.easeCubicInOut)
+            .attr('transform', `translate(0,${headerH + table.sortedSlots[r] * rowH})`);
+        }
+      });
+    });
+
+    if (frameTime !== undefined) {
+      // Apply every transition as it stands now, then stop them; the next frame redraws
+      d3.timerFlush();
+      svg.selectAll('*').interrupt().interrupt('sort');
+    }
+  }, [animationData, currentStepIndex, frameTime]);
 
   return (
     <div
@@ -367,7 +558,7 @@ export default function GraphRenderer({
         <motion.h3
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6 }}
+          transition={frameTransition({ duration: 0.6 })}
           className="text-2xl font-bold text-white mb-4 tracking-tight"
         >
           {title}
@@ -385,6 +576,21 @@ export default function GraphRenderer({
             className="w-full"
             style={{ maxHeight: '400px' }}
           />
+          {imageElements.length > 0 && (
+            <svg
+              viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            >
+              {imageElements.map((element, idx) => (
+                <GraphImage
+                  key={`${currentStepIndex}-${idx}`}
+                  element={element}
+                  index={idx}
+                  stepProgress={stepProgress}
+                />
+              ))}
+            </svg>
+          )}
           {enableDoodles && (
             <DoodleOverlay
               currentStep={animationData?.steps?.[currentStepIndex] || null}
@@ -398,7 +604,7 @@ export default function GraphRenderer({
         <motion.p
           initial={{ opacity: 0 }}
           animate={{ opacity: animationProgress > 0.2 ? 0.7 : 0 }}
-          transition={{ duration: 0.8 }}
+          transition={frameTransition({ duration: 0.8 })}
           className="mt-5 text-slate-400 text-center max-w-lg leading-relaxed text-sm"
         >
           {narration}
@@ -0,0 +1,70 @@
+'use client';
+
+import { NormalizedTable, tableColumnWidths, tableFrameAt } from '@/lib/table-animation';
+
+interface TableViewProps {
+  table: NormalizedTable;
+  progress: number;   // 0-1 within the step
+  rowHeight?: number; // px
+  style?: React.CSSProperties;
+}
+
+/**
+ * Progress-driven table: rows or columns fade in one by one, rows glide to
+ * their sorted slots, then highlighted cells light up.
+ */
+export default function TableView({ table, progress, rowHeight = 28, style }: TableViewProps) {
+  const frame = tableFrameAt(table, progress);
+  const widths = tableColumnWidths(table, 100);
+
+  const renderCells = (cells: string[], row?: number) => cells.map((cell, column) => {
+    const highlighted = row !== undefined && table.highlighted.has(`${row}:${column}`);
+    return (
+      <div
+        key={column}
+        className="px-2 truncate flex items-center rounded-md"
+        style={{
+          width: `${widths[column]}%`,
+          opacity: frame.columnOpacity[column],
+          justifyContent: column === 0 ? 'flex-start' : 'center',
+          background: highlighted ? `rgba(251, 191, 36, ${0.25 * frame.highlight})` : undefined,
+          color: highlighted && frame.highlight > 0.5 ? '#FCD34D' : undefined,
+          fontWeight: highlighted && frame.highlight > 0.5 ? 600 : undefined,
+        }}
+      >
+        {cell}
+      </div>
+    );
+  });
+
+  return (
+    <div
+      style={style}
+      className="rounded-xl border border-slate-500/30 bg-slate-900/70 backdrop-blur-sm text-xs text-slate-200 overflow-hidden"
+    >
+      {table.header && (
+        <div
+          className="flex border-b border-slate-500/40 font-semibold text-indigo-300"
+          style={{ height: `${rowHeight}px` }}
+        >
+          {renderCells(table.header)}
+        </div>
+      )}
+      <div className="relative" style={{ height: `${table.rows.length * rowHeight}px` }}>
+        {table.rows.map((row, i) => (
+          <div
+            key={table.rowIndices[i]}
+            className="absolute left-0 right-0 flex"
+            style={{
+              top: `${frame.rowSlot[i] * rowHeight}px`,
+              height: `${rowHeight}px`,
+              opacity: frame.rowOpacity[i],
+            }}
+          >
+            {renderCells(row, i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 'use client';
 
-import { useRef, useMemo } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import { useRef, useMemo, useEffect } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Text, Float } from '@react-three/drei';
 import { EffectComposer, Bloom, DepthOfField, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import { motion } from 'framer-motion';
 import { AnimationData, ThreeElement, CameraKeyframe } from '@/types';
 import { interpolate3DKeyframes, interpolateCameraTrack, easeProgress } from '@/lib/keyframes';
+import { useFrameTransition } from '@/lib/frame-animations';
 
 interface ThreeRendererProps {
   animationData: AnimationData;
@@ -16,6 +17,23 @@ interface ThreeRendererProps {
   title: string;
   contentType: string;
   transitionState?: 'entering' | 'active' | 'exiting';
+  frameTime?: number;        // timeline seconds when rendering frame by frame
+}
+
+// ============================================
+// Frame Advancer (renders one frame at frameTime)
+// ============================================
+
+// With frameloop="never" nothing renders on its own; each frameTime renders
+// one frame and sets clock.elapsedTime to it, which everything animated reads
+function FrameAdvancer({ frameTime }: { frameTime: number }) {
+  const advance = useThree((state) => state.advance);
+
+  useEffect(() => {
+    advance(frameTime);
+  }, [advance, frameTime]);
+
+  return null;
 }
 
 // ============================================
@@ -218,9 +236,9 @@ function DataDrivenScene({ elements, progress }: { elements: ThreeElement[]; pro
   const groupRef = useRef<THREE.Group>(null);
 
   // Slow auto-rotation when no camera track
-  useFrame((_, delta) => {
+  useFrame(({ clock }) => {
     if (groupRef.current) {
-      groupRef.current.rotation.y += delta * 0.15;
+      groupRef.current.rotation.y = clock.elapsedTime * 0.15;
     }
   });
 
@@ -246,9 +264,9 @@ function DataDrivenScene({ elements, progress }: { elements: ThreeElement[]; pro
 function MoleculeVisualization({ progress }: { progress: number }) {
   const groupRef = useRef<THREE.Group>(null);
 
-  useFrame((_, delta) => {
+  useFrame(({ clock }) => {
     if (groupRef.current) {
-      groupRef.current.rotation.y += delta * 0.3;
+      groupRef.current.rotation.y = clock.elapsedTime * 0.3;
     }
   });
 
@@ -307,10 +325,10 @@ function MoleculeVisualization({ progress }: { progress: number }) {
 function GeometricVisualization({ progress }: { progress: number }) {
   const groupRef = useRef<THREE.Group>(null);
 
-  useFrame((_, delta) => {
+  useFrame(({ clock }) => {
     if (groupRef.current) {
-      groupRef.current.rotation.y += delta * 0.2;
-      groupRef.current.rotation.x += delta * 0.1;
+      groupRef.current.rotation.y = clock.elapsedTime * 0.2;
+      groupRef.current.rotation.x = clock.elapsedTime * 0.1;
     }
   });
 
@@ -437,7 +455,9 @@ export default function ThreeRenderer({
   title,
   contentType,
   transitionState = 'active',
+  frameTime,
 }: ThreeRendererProps) {
+  const frameTransition = useFrameTransition();
   // Check for data-driven scene config
   const threeElements = animationData?.config?.threeElements as ThreeElement[] | undefined;
   const cameraTrack = animationData?.config?.cameraTrack as CameraKeyframe[] | undefined;
@@ -500,7 +520,7 @@ export default function ThreeRenderer({
         <motion.h3
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6 }}
+          transition={frameTransition({ duration: 0.6 })}
           className="text-2xl font-bold text-white mb-4 tracking-tight"
         >
           {title}
@@ -515,7 +535,11 @@ export default function ThreeRenderer({
           <Canvas
             camera={{ position: [0, 0, 6], fov: 50 }}
             style={{ background: 'transparent' }}
+            frameloop={frameTime === undefined ? 'always' : 'never'}
+            // Frames are read back for export, after the browser would have cleared them
+            gl={{ preserveDrawingBuffer: frameTime !== undefined }}
           >
+            {frameTime !== undefined && <FrameAdvancer frameTime={frameTime} />}
             <color attach="background" args={['#0F172A']} />
             <fog attach="fog" args={['#0F172A', 8, 18]} />
             <ambientLight intensity={0.4} />
@@ -562,7 +586,7 @@ export default function ThreeRenderer({
         <motion.p
           initial={{ opacity: 0 }}
           animate={{ opacity: animationProgress > 0.2 ? 0.7 : 0 }}
-          transition={{ duration: 0.8 }}
+          transition={frameTransition({ duration: 0.8 })}
           className="mt-5 text-slate-400 text-center max-w-lg leading-relaxed text-sm"
         >
           {narration}
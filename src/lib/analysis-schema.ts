@@ -0,0 +1,417 @@
+/**
+ * Analysis Schema
+ *
+ * Runtime validation for the model's analysis JSON: the outline, then each
+ * section's content. Each field is coerced where the intent is clear (a
+ * numeric string duration, "D3" for "d3", a missing optional list) and
+ * rejected with a precise path otherwise, so the renderers only ever see
+ * well-typed sections. Rejections are fed back to the model for repair.
+ */
+
+import {
+  AnalysisResult,
+  AnimationData,
+  AnimationElement,
+  AnimationStep,
+  ContentType,
+  ContinuousAnimation,
+  ExitAnimation,
+  FieldType,
+  NarrationSegment,
+  PacingType,
+  PaperSection,
+  SectionScript,
+  SourceCitation,
+  VisualizationType,
+  VisualStyle,
+} from '@/types';
+
+export interface SchemaIssue {
+  path: string;      // e.g. "sections[1].animationData.steps[0].duration"
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value?: T;         // set when there were no errors
+  errors: SchemaIssue[];
+  coercions: SchemaIssue[];
+}
+
+interface Context {
+  errors: SchemaIssue[];
+  coercions: SchemaIssue[];
+}
+
+const INVALID = Symbol('invalid');
+
+type Schema<T> = (value: unknown, path: string, ctx: Context) => T | typeof INVALID;
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function reject(ctx: Context, path: string, message: string): typeof INVALID {
+  ctx.errors.push({ path, message });
+  return INVALID;
+}
+
+function coerce<T>(ctx: Context, path: string, message: string, value: T): T {
+  ctx.coercions.push({ path, message });
+  return value;
+}
+
+// ============================================
+// Combinators
+// ============================================
+
+function str(options: { fallback?: string } = {}): Schema<string> {
+  return (value, path, ctx) => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return coerce(ctx, path, 'number converted to string', String(value));
+    if (value === undefined || value === null) {
+      return options.fallback !== undefined
+        ? options.fallback
+        : reject(ctx, path, 'expected a string, got nothing');
+    }
+    return reject(ctx, path, `expected a string, got ${describe(value)}`);
+  };
+}
+
+/** Numbers, or strings that are a number with an optional unit ("4", "4.5s", "3 seconds") */
+function num(options: { fallback?: number; min?: number; max?: number } = {}): Schema<number> {
+  return (value, path, ctx) => {
+    let n: number | undefined;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      n = value;
+    } else if (typeof value === 'string') {
+      const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(?:s|sec|secs|seconds?)?$/i);
+      if (match) n = coerce(ctx, path, `string ${describe(value)} converted to a number`, parseFloat(match[1]));
+    } else if (value === undefined || value === null) {
+      if (options.fallback !== undefined) return options.fallback;
+      return reject(ctx, path, 'expected a number, got nothing');
+    }
+    if (n === undefined) return reject(ctx, path, `expected a number, got ${describe(value)}`);
+
+    if (options.min !== undefined && n < options.min) return coerce(ctx, path, `${n} raised to ${options.min}`, options.min);
+    if (options.max !== undefined && n > options.max) return coerce(ctx, path, `${n} lowered to ${options.max}`, options.max);
+    return n;
+  };
+}
+
+/**
+ * One of `values`, matched case-insensitively and through `aliases`. With a
+ * fallback, unknown values are coerced to it instead of rejected.
+ */
+function oneOf<T extends string>(
+  values: readonly T[],
+  options: { fallback?: T; aliases?: Record<string, T> } = {}
+): Schema<T> {
+  const lookup = new Map<string, T>(values.map((v) => [v.toLowerCase(), v]));
+  for (const [alias, target] of Object.entries(options.aliases || {})) lookup.set(alias, target);
+
+  return (value, path, ctx) => {
+    if (typeof value === 'string') {
+      if ((values as readonly string[]).includes(value)) return value as T;
+      const match = lookup.get(value.trim().toLowerCase());
+      if (match) return coerce(ctx, path, `${describe(value)} read as "${match}"`, match);
+    }
+    if (options.fallback !== undefined) {
+      return value === undefined
+        ? options.fallback
+        : coerce(ctx, path, `unknown value ${describe(value)} replaced by "${options.fallback}"`, options.fallback);
+    }
+    return reject(ctx, path, `expected one of ${values.map((v) => `"${v}"`).join(', ')}, got ${describe(value)}`);
+  };
+}
+
+/**
+ * An array of `item`. With `dropInvalid`, bad entries are dropped (and
+ * reported as coercions) instead of failing the whole array.
+ */
+function list<T>(item: Schema<T>, options: { fallback?: T[]; dropInvalid?: boolean; minLength?: number } = {}): Schema<T[]> {
+  return (value, path, ctx) => {
+    if (value === undefined || value === null) {
+      return options.fallback !== undefined ? options.fallback : reject(ctx, path, 'expected an array, got nothing');
+    }
+    if (!Array.isArray(value)) return reject(ctx, path, `expected an array, got ${describe(value)}`);
+
+    const result: T[] = [];
+    let failed = false;
+    value.forEach((entry, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (options.dropInvalid) {
+        const scratch: Context = { errors: [], coercions: [] };
+        const parsed = item(entry, itemPath, scratch);
+        if (parsed === INVALID) {
+          ctx.coercions.push({ path: itemPath, message: `dropped (${scratch.errors.map((e) => e.message).join('; ')})` });
+          return;
+        }
+        ctx.coercions.push(...scratch.coercions);
+        result.push(parsed);
+        return;
+      }
+      const parsed = item(entry, itemPath, ctx);
+      if (parsed === INVALID) failed = true;
+      else result.push(parsed);
+    });
+
+    if (failed) return INVALID;
+    if (options.minLength !== undefined && result.length < options.minLength) {
+      return reject(ctx, path, `expected at least ${options.minLength} entries, got ${result.length}`);
+    }
+    return result;
+  };
+}
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, ctx) => (value === undefined || value === null ? undefined : schema(value, path, ctx));
+}
+
+/** Any value, kept as is (fields sanitized later, such as page lists) */
+function raw(): Schema<unknown> {
+  return (value) => value;
+}
+
+function plainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** A free-form object such as element props; missing becomes {} */
+function looseObject(): Schema<Record<string, unknown>> {
+  return (value, path, ctx) => {
+    if (value === undefined || value === null) return {};
+    if (!plainObject(value)) return reject(ctx, path, `expected an object, got ${describe(value)}`);
+    return value;
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * An object with the given fields. Unlisted fields are discarded; fields
+ * that come out undefined are omitted.
+ */
+function object<T>(shape: Shape<T>, options: { fallback?: () => unknown } = {}): Schema<T> {
+  return (value, path, ctx) => {
+    if ((value === undefined || value === null) && options.fallback) value = options.fallback();
+    if (!plainObject(value)) return reject(ctx, path, `expected an object, got ${describe(value)}`);
+
+    const result: Record<string, unknown> = {};
+    let failed = false;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](value[key], path ? `${path}.${key}` : key, ctx);
+      if (parsed === INVALID) failed = true;
+      else if (parsed !== undefined) result[key] = parsed;
+    }
+    return failed ? INVALID : (result as T);
+  };
+}
+
+// ============================================
+// Analysis Schema
+// ============================================
+
+const FIELDS: FieldType[] = ['mathematics', 'computer_science', 'biology', 'physics', 'chemistry', 'general'];
+const CONTENT_TYPES: ContentType[] = ['equation', 'algorithm', 'biological_process', 'graph', 'diagram', 'concept'];
+const VISUALIZATIONS: VisualizationType[] = ['katex', 'threejs', 'd3', 'css'];
+const ELEMENT_TYPES: AnimationElement['type'][] = [
+  'text', 'shape', 'equation', 'line', 'node', 'edge', 'molecule', 'arrow', 'highlight', 'image', 'table',
+];
+const EXITS: ExitAnimation[] = ['fadeOut', 'slideDown', 'scaleDown', 'slideLeft', 'none'];
+const CONTINUOUS: ContinuousAnimation[] = ['float', 'pulse', 'rotate', 'sway', 'none'];
+const PACINGS: PacingType[] = ['normal', 'pause-before', 'pause-after'];
+const STYLES: VisualStyle[] = ['minimal', 'detailed'];
+
+const VISUALIZATION_ALIASES: Record<string, VisualizationType> = {
+  'three.js': 'threejs',
+  three: 'threejs',
+  '3d': 'threejs',
+  'd3.js': 'd3',
+  latex: 'katex',
+  tex: 'katex',
+  math: 'katex',
+  html: 'css',
+  'framer-motion': 'css',
+};
+
+const scaleValue: Schema<number | [number, number, number]> = (value, path, ctx) => {
+  if (Array.isArray(value)) {
+    const parsed = list(num())(value, path, ctx);
+    if (parsed === INVALID) return INVALID;
+    return parsed.length === 3 ? (parsed as [number, number, number]) : reject(ctx, path, 'expected a number or [x, y, z]');
+  }
+  return num()(value, path, ctx);
+};
+
+const keyframeSchema = object<NonNullable<AnimationElement['animation']['keyframes']>[number]>({
+  time: num({ min: 0, max: 1 }),
+  x: optional(num()),
+  y: optional(num()),
+  z: optional(num()),
+  rotateX: optional(num()),
+  rotateY: optional(num()),
+  rotateZ: optional(num()),
+  scale: optional(scaleValue),
+  opacity: optional(num({ min: 0, max: 1 })),
+  color: optional(str()),
+  zoom: optional(num({ min: 0.1 })),
+  panX: optional(num({ min: 0, max: 1 })),
+  panY: optional(num({ min: 0, max: 1 })),
+  easing: optional(str()),
+});
+
+const elementSchema = object<AnimationElement>({
+  type: oneOf(ELEMENT_TYPES),
+  props: looseObject(),
+  animation: object<AnimationElement['animation']>({
+    enter: str({ fallback: 'fadeIn' }),
+    exit: optional(oneOf(EXITS, { fallback: 'fadeOut' })),
+    continuous: optional(oneOf(CONTINUOUS, { fallback: 'none' })),
+    keyframes: optional(list(keyframeSchema, { dropInvalid: true })),
+    duration: num({ fallback: 0.5, min: 0 }),
+    delay: num({ fallback: 0, min: 0 }),
+  }, { fallback: () => ({}) }),
+});
+
+const stepSchema = object<AnimationStep>({
+  id: str(),
+  description: str({ fallback: '' }),
+  duration: num({ fallback: 4, min: 0.5 }),
+  elements: list(elementSchema, { fallback: [] }),
+});
+
+const quoteSchema = object<Pick<SourceCitation, 'quote' | 'page'>>({
+  quote: str(),
+  page: optional(num({ min: 1 })),
+});
+
+/** A supporting quote, {"quote": "...", "page": 3} or the bare string; verified later against the source */
+const citationSchema: Schema<SourceCitation> = (value, path, ctx) => {
+  if (typeof value === 'string') return coerce(ctx, path, 'string converted to a citation', { quote: value, verified: false });
+  const parsed = quoteSchema(value, path, ctx);
+  return parsed === INVALID ? INVALID : { ...parsed, verified: false };
+};
+
+const segmentSchema = object<NarrationSegment>({
+  id: str({ fallback: '' }),
+  text: str(),
+  stepId: str({ fallback: '' }),
+  estimatedDuration: num({ fallback: 4, min: 0 }),
+  startTime: num({ fallback: 0 }),
+  endTime: num({ fallback: 0 }),
+  emphasis: optional(list(str(), { dropInvalid: true })),
+  pacing: oneOf(PACINGS, { fallback: 'normal' }),
+  citations: optional(list(citationSchema, { dropInvalid: true })),
+  unsupported: () => undefined, // set by citation verification
+});
+
+/** One entry of the outline: what a section covers, before its script is written */
+export type OutlineSection = Pick<PaperSection, 'id' | 'title' | 'contentType' | 'visualization' | 'concept' | 'sourcePages' | 'sourceChunks'>
+  & { equationRefs?: unknown };
+
+export type AnalysisOutline = Pick<AnalysisResult, 'field' | 'title' | 'abstract' | 'suggestedStyle' | 'totalDuration'>
+  & { sections: OutlineSection[] };
+
+/** The generated body of one section: narration script, steps and code */
+export type SectionContent = Pick<PaperSection, 'narration' | 'equations' | 'codeSnippet' | 'manimCode'>
+  & { visualization?: VisualizationType; equationRefs?: unknown; script: SectionScript; animationData: AnimationData };
+
+const outlineSectionSchema = object<OutlineSection>({
+  id: str({ fallback: '' }),
+  title: str(),
+  contentType: oneOf(CONTENT_TYPES, { fallback: 'concept' }),
+  visualization: oneOf(VISUALIZATIONS, { aliases: VISUALIZATION_ALIASES }),
+  concept: str({ fallback: '' }),
+  equationRefs: raw(),
+  sourcePages: raw() as Schema<number[] | undefined>,
+  sourceChunks: raw() as Schema<string[] | undefined>,
+});
+
+const outlineSchema = object<AnalysisOutline>({
+  field: oneOf(FIELDS, { fallback: 'general' }),
+  title: str(),
+  abstract: str({ fallback: '' }),
+  suggestedStyle: oneOf(STYLES, { fallback: 'minimal' }),
+  totalDuration: num({ fallback: 0, min: 0 }),
+  sections: list(outlineSectionSchema, { minLength: 1 }),
+});
+
+const sectionContentSchema = object<SectionContent>({
+  visualization: optional(oneOf(VISUALIZATIONS, { aliases: VISUALIZATION_ALIASES })),
+  narration: str({ fallback: '' }),
+  equations: optional(list(str(), { dropInvalid: true })),
+  equationRefs: raw(),
+  codeSnippet: optional(str()),
+  manimCode: optional(str()),
+  script: object<SectionScript>({
+    sectionId: str({ fallback: '' }),
+    fullText: str({ fallback: '' }),
+    segments: list(segmentSchema),
+    totalDuration: num({ fallback: 0 }),
+  }),
+  animationData: object<AnimationData>({
+    type: oneOf(VISUALIZATIONS, { aliases: VISUALIZATION_ALIASES }),
+    config: looseObject(),
+    steps: list(stepSchema, { minLength: 1 }),
+  }),
+});
+
+const narrationSchema = object<{ segments: NarrationSegment[] }>({
+  segments: list(segmentSchema, { minLength: 1 }),
+});
+
+/**
+ * Parse `text` and check it against `schema`. Syntax errors are reported at
+ * path "$" so they go through the same repair round-trip.
+ */
+function validateJson<T>(text: string, schema: Schema<T>): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return {
+      errors: [{ path: '$', message: `invalid JSON: ${e instanceof Error ? e.message : String(e)}` }],
+      coercions: [],
+    };
+  }
+
+  const ctx: Context = { errors: [], coercions: [] };
+  const value = schema(parsed, '', ctx);
+  return {
+    value: value === INVALID || ctx.errors.length > 0 ? undefined : value,
+    errors: ctx.errors,
+    coercions: ctx.coercions,
+  };
+}
+
+/** Validate the model's outline reply (titles and visualizations, no scripts) */
+export function validateOutlineJson(text: string): ValidationResult<AnalysisOutline> {
+  return validateJson(text, outlineSchema);
+}
+
+/** Validate the model's reply for one section's script and animation */
+export function validateSectionJson(text: string): ValidationResult<SectionContent> {
+  return validateJson(text, sectionContentSchema);
+}
+
+/** Validate a rewritten narration: one segment per animation step */
+export function validateNarrationJson(text: string): ValidationResult<{ segments: NarrationSegment[] }> {
+  return validateJson(text, narrationSchema);
+}
+
+/** Validate a single rewritten narration segment */
+export function validateSegmentJson(text: string): ValidationResult<NarrationSegment> {
+  return validateJson(text, segmentSchema);
+}
+
+/** One issue per line, e.g. "- sections[0].visualization: expected one of ..." */
+export function formatSchemaIssues(issues: SchemaIssue[], limit: number = 20): string {
+  const lines = issues.slice(0, limit).map((issue) => `- ${issue.path || '$'}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`- ... and ${issues.length - limit} more`);
+  return lines.join('\n');
+}
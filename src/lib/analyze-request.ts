@@ -0,0 +1,136 @@
+/**
+ * Analyze Request
+ *
+ * The form fields accepted by POST /api/analyze and POST /api/jobs, and the
+ * pipeline both run: analysis followed by the presentation script.
+ */
+
+import { analyzePaper, AnalysisSettings, AnalyzeOptions } from '@/lib/gemini';
+import { isSupportedLanguage } from '@/lib/languages';
+import { LLMCallOptions, parseLLMCallOptions } from '@/lib/llm';
+import { parsePromptVersions } from '@/lib/prompts';
+import { buildPresentationScript } from '@/lib/script-builder';
+import { AnalysisResult, AudienceLevel, DocumentSourceType, ExtractedDocument, PromptVersions } from '@/types';
+
+const AUDIENCE_LEVELS: AudienceLevel[] = ['high-school', 'undergraduate', 'expert'];
+const DOCUMENT_SOURCES: DocumentSourceType[] = ['pdf', 'text', 'latex', 'bundle'];
+
+export interface AnalyzeRequest {
+  pdfText: string;
+  narratorPerspective: string;
+  settings: Required<AnalysisSettings>;
+  sourceDocument?: ExtractedDocument;
+  llm: LLMCallOptions;
+  bypassCache: boolean;
+  promptVersions: PromptVersions;  // from a JSON field such as {"section": 2}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isArrayOf(value: unknown, check: (item: Record<string, unknown>) => boolean): boolean {
+  return Array.isArray(value) && value.every((item) => isRecord(item) && check(item));
+}
+
+function isOptionalArrayOf(value: unknown, check: (item: Record<string, unknown>) => boolean): boolean {
+  return value === undefined || isArrayOf(value, check);
+}
+
+// Only what prompt building reads; the rest of the document passes through as sent
+export function isExtractedDocument(value: unknown): value is ExtractedDocument {
+  if (!isRecord(value) || !DOCUMENT_SOURCES.includes(value.source as DocumentSourceType)) return false;
+  return isArrayOf(value.sections, (section) =>
+      typeof section.id === 'string'
+      && typeof section.heading === 'string'
+      && typeof section.level === 'number'
+      && isArrayOf(section.paragraphs, (paragraph) => typeof paragraph.text === 'string'))
+    && isOptionalArrayOf(value.equations, (equation) => typeof equation.id === 'string' && typeof equation.latex === 'string')
+    && isOptionalArrayOf(value.figures, (figure) => typeof figure.id === 'string' && typeof figure.caption === 'string')
+    && isOptionalArrayOf(value.tables, (table) => typeof table.id === 'string' && Array.isArray(table.rows))
+    && isOptionalArrayOf(value.assets, (asset) => typeof asset.id === 'string' && typeof asset.path === 'string');
+}
+
+/** Settings sent as JSON, e.g. for section regeneration; every field is optional but must be the right kind */
+export function isAnalysisSettings(value: unknown): value is AnalysisSettings {
+  if (!isRecord(value)) return false;
+  const { audienceLevel, language, visualStyle, colorScheme, animationDuration, includeEquations, includeCode } = value;
+  return (audienceLevel === undefined || AUDIENCE_LEVELS.includes(audienceLevel as AudienceLevel))
+    && (language === undefined || isSupportedLanguage(language))
+    && (visualStyle === undefined || typeof visualStyle === 'string')
+    && (colorScheme === undefined || typeof colorScheme === 'string')
+    && (animationDuration === undefined || (typeof animationDuration === 'number' && Number.isFinite(animationDuration)))
+    && (includeEquations === undefined || typeof includeEquations === 'boolean')
+    && (includeCode === undefined || typeof includeCode === 'boolean');
+}
+
+/** Read and check the form; returns an error message for a 400 response instead */
+export function parseAnalyzeForm(formData: FormData): AnalyzeRequest | { error: string } {
+  const pdfText = formData.get('text') as string;
+  const documentJson = formData.get('document') as string | null;
+
+  if (!pdfText || pdfText.trim().length === 0) {
+    return { error: 'No text content provided' };
+  }
+
+  let sourceDocument: ExtractedDocument | undefined;
+  if (documentJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(documentJson);
+    } catch {
+      return { error: 'Invalid document structure' };
+    }
+    if (!isExtractedDocument(parsed)) {
+      return { error: 'Invalid document structure' };
+    }
+    sourceDocument = parsed;
+  }
+
+  const promptVersions = parsePromptVersions(formData.get('promptVersions'));
+  if ('error' in promptVersions) {
+    return promptVersions;
+  }
+
+  const audienceLevel = formData.get('audienceLevel') as AudienceLevel | null;
+  const language = formData.get('language');
+
+  return {
+    pdfText,
+    narratorPerspective: (formData.get('narratorPerspective') as string) || 'first-person',
+    settings: {
+      audienceLevel: audienceLevel && AUDIENCE_LEVELS.includes(audienceLevel) ? audienceLevel : 'undergraduate',
+      language: isSupportedLanguage(language) ? language : 'en',
+      visualStyle: (formData.get('visualStyle') as string) || 'minimal',
+      colorScheme: (formData.get('colorScheme') as string) || 'dark',
+      animationDuration: parseInt(formData.get('animationDuration') as string || '5'),
+      includeEquations: formData.get('includeEquations') !== 'false',
+      includeCode: formData.get('includeCode') !== 'false',
+    },
+    sourceDocument,
+    llm: parseLLMCallOptions({
+      provider: formData.get('provider'),
+      model: formData.get('model'),
+      temperature: formData.get('temperature'),
+      endpoint: formData.get('endpoint'),
+    }),
+    bypassCache: formData.get('bypassCache') === 'true',
+    promptVersions,
+  };
+}
+
+/** Analyze the paper and attach the presentation script with computed timestamps and transitions */
+export async function runAnalyzeRequest(
+  request: AnalyzeRequest,
+  options: Omit<AnalyzeOptions, 'llm' | 'bypassCache' | 'promptVersions'> = {}
+): Promise<AnalysisResult> {
+  const analysis = await analyzePaper(request.pdfText, request.narratorPerspective, request.settings, request.sourceDocument, {
+    ...options,
+    llm: request.llm,
+    bypassCache: request.bypassCache,
+    promptVersions: request.promptVersions,
+  });
+  options.onProgress?.({ phase: 'building-script', completed: 0, total: 1, message: 'Building the presentation script' });
+  analysis.presentationScript = buildPresentationScript(analysis);
+  return analysis;
+}
@@ -0,0 +1,155 @@
+/**
+ * Source Citations
+ *
+ * Checks the quotes each narration segment gives as its support against the
+ * extracted document. Quotes are matched on their words alone (case,
+ * punctuation and line breaks are ignored, "..." may skip text) and located
+ * by page and by offset into documentToText(). A segment none of whose
+ * quotes can be found is flagged as unsupported, so reviewers can catch
+ * claims the paper never makes.
+ */
+
+import { ExtractedDocument, NarrationSegment, SectionScript, SourceCitation } from '@/types';
+import { documentTextBlocks } from '@/lib/document';
+
+// Quotes shorter than this match almost anywhere, so they do not count as support
+const MIN_QUOTE_WORDS = 4;
+
+// Most normalized characters an ellipsis in a quote may skip
+const MAX_ELLIPSIS_GAP = 1500;
+
+export interface SourceIndex {
+  normalized: string;   // lower-case words separated by single spaces
+  offsets: number[];    // position in `normalized` → offset in the document text
+  blocks: { start: number; page?: number }[];
+}
+
+// ============================================
+// Index
+// ============================================
+
+/**
+ * Lower-case words separated by single spaces, with each character's source
+ * offset. Words hyphenated across a line break are joined back together.
+ */
+function normalize(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (char === '-' && chars[i + 1] === '\n') {
+      offset += 2;
+      i++;
+      continue;
+    }
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      for (const lower of char.toLowerCase()) {
+        normalized += lower;
+        offsets.push(offset);
+      }
+    } else if (normalized.length > 0 && !normalized.endsWith(' ')) {
+      normalized += ' ';
+      offsets.push(offset);
+    }
+    offset += char.length;
+  }
+  return { normalized, offsets };
+}
+
+/** Build the lookup structure for a document; reuse it across segments */
+export function buildSourceIndex(doc: ExtractedDocument): SourceIndex {
+  const textBlocks = documentTextBlocks(doc);
+
+  // Offsets follow documentToText, which trims the joined blocks
+  const joined = textBlocks.map((block) => block.text).join('\n\n');
+  const leading = joined.length - joined.trimStart().length;
+
+  const blocks: SourceIndex['blocks'] = [];
+  let start = -leading;
+  for (const block of textBlocks) {
+    blocks.push({ start, page: block.page });
+    start += block.text.length + 2;
+  }
+
+  return { ...normalize(joined.trimStart()), blocks };
+}
+
+function pageAt(index: SourceIndex, offset: number): number | undefined {
+  let page: number | undefined;
+  for (const block of index.blocks) {
+    if (block.start > offset) break;
+    page = block.page ?? page;
+  }
+  return page;
+}
+
+/** Position of `needle` in the normalized text at word boundaries, from `from` */
+function findWords(index: SourceIndex, needle: string, from: number): number {
+  const { normalized } = index;
+  let at = normalized.indexOf(needle, from);
+  while (at !== -1) {
+    const before = at === 0 || normalized[at - 1] === ' ';
+    const end = at + needle.length;
+    const after = end === normalized.length || normalized[end] === ' ';
+    if (before && after) return at;
+    at = normalized.indexOf(needle, at + 1);
+  }
+  return -1;
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/** Where `quote` occurs in the source, or undefined when it cannot be found */
+export function locateQuote(index: SourceIndex, quote: string): { offset: number; page?: number } | undefined {
+  const parts = quote
+    .split(/\[?(?:\.\.\.|…)\]?/)
+    .map((part) => normalize(part).normalized.trim())
+    .filter(Boolean);
+  const wordCount = parts.reduce((sum, part) => sum + part.split(' ').length, 0);
+  if (parts.length === 0 || wordCount < MIN_QUOTE_WORDS) return undefined;
+
+  // Try each occurrence of the first part until the rest follow it closely enough
+  let first = findWords(index, parts[0], 0);
+  while (first !== -1) {
+    let end = first + parts[0].length;
+    const matched = parts.slice(1).every((part) => {
+      const at = findWords(index, part, end);
+      if (at === -1 || at - end > MAX_ELLIPSIS_GAP) return false;
+      end = at + part.length;
+      return true;
+    });
+    if (matched) {
+      const offset = index.offsets[first];
+      return { offset, page: pageAt(index, offset) };
+    }
+    first = findWords(index, parts[0], first + 1);
+  }
+  return undefined;
+}
+
+/** Resolve a segment's citations against the source and flag it when none are found */
+export function verifySegmentCitations(segment: NarrationSegment, index: SourceIndex): NarrationSegment {
+  const citations = (segment.citations || []).map((citation): SourceCitation => {
+    const found = locateQuote(index, citation.quote);
+    return found
+      ? { quote: citation.quote, page: found.page, offset: found.offset, verified: true }
+      : { quote: citation.quote, verified: false };
+  });
+  return { ...segment, citations, unsupported: !citations.some((citation) => citation.verified) };
+}
+
+export function verifyScriptCitations(script: SectionScript, index: SourceIndex): SectionScript {
+  return { ...script, segments: script.segments.map((segment) => verifySegmentCitations(segment, index)) };
+}
+
+/** Verified quotes of the given segments, without duplicates */
+export function collectQuotes(segments: NarrationSegment[]): string[] {
+  const quotes = segments.flatMap((segment) =>
+    (segment.citations || []).filter((citation) => citation.verified).map((citation) => citation.quote)
+  );
+  return Array.from(new Set(quotes));
+}
@@ -0,0 +1,180 @@
+/**
+ * Document Chunking
+ *
+ * Splits a structured document into prompt-sized chunks for papers too long
+ * to analyze in one pass. Chunks follow section boundaries, preferring to
+ * break at top-level headings; a section that is too long on its own is
+ * split between paragraphs.
+ */
+
+import { DocumentSection, ExtractedDocument, SourceChunk } from '@/types';
+import { formatSectionForPrompt, formatSourcePages } from '@/lib/document';
+
+// Target size of one chunk's body text, in characters
+export const CHUNK_CHARS = 12000;
+
+export interface DocumentChunk {
+  chunk: SourceChunk;
+  text: string;     // prompt rendering of the chunk's sections
+}
+
+interface PendingChunk {
+  sections: DocumentSection[];
+  length: number;
+}
+
+function sectionLength(section: DocumentSection): number {
+  return section.heading.length + section.paragraphs.reduce((sum, p) => sum + p.text.length + 1, 0);
+}
+
+/** Hard-split a paragraph that alone exceeds the chunk size, at sentence ends where possible */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = window.lastIndexOf('. ');
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Split one oversized section into parts under `maxChars`, each keeping the
+ * section's id and heading (continuations are marked "(cont.)").
+ */
+function splitSection(section: DocumentSection, maxChars: number): DocumentSection[] {
+  const parts: DocumentSection[] = [];
+  let current: DocumentSection = { ...section, paragraphs: [] };
+  let length = section.heading.length;
+
+  const paragraphs = section.paragraphs.flatMap((paragraph) =>
+    splitLongText(paragraph.text, maxChars).map((text) => ({ ...paragraph, text }))
+  );
+
+  for (const paragraph of paragraphs) {
+    if (current.paragraphs.length > 0 && length + paragraph.text.length > maxChars) {
+      parts.push(current);
+      current = {
+        ...section,
+        heading: section.heading ? `${section.heading} (cont.)` : '',
+        paragraphs: [],
+      };
+      length = current.heading.length;
+    }
+    current.paragraphs.push(paragraph);
+    length += paragraph.text.length + 1;
+  }
+  parts.push(current);
+
+  // Page ranges of each part come from its own paragraphs
+  return parts.map((part) => {
+    const pages = part.paragraphs.map((p) => p.page).filter((p): p is number => p !== undefined);
+    return pages.length > 0
+      ? { ...part, pageStart: Math.min(...pages), pageEnd: Math.max(...pages) }
+      : part;
+  });
+}
+
+function toDocumentChunk(pending: PendingChunk, index: number): DocumentChunk {
+  const cursor: { page?: number } = {};
+  const text = pending.sections
+    .flatMap((section) => formatSectionForPrompt(section, cursor))
+    .join('\n')
+    .trim();
+
+  const pages = pending.sections.flatMap((section) =>
+    section.paragraphs.map((p) => p.page).filter((p): p is number => p !== undefined)
+  );
+  const headings = pending.sections
+    .map((section) => section.heading.replace(/ \(cont\.\)$/, ''))
+    .filter((heading, i, all) => heading && all.indexOf(heading) === i);
+
+  return {
+    chunk: {
+      id: `C${index + 1}`,
+      headings,
+      sectionIds: Array.from(new Set(pending.sections.map((section) => section.id))),
+      pageStart: pages.length > 0 ? Math.min(...pages) : undefined,
+      pageEnd: pages.length > 0 ? Math.max(...pages) : undefined,
+      charCount: text.length,
+    },
+    text,
+  };
+}
+
+/**
+ * Group the document's sections into chunks of at most about `maxChars`.
+ * A new chunk starts when the next section would overflow the current one,
+ * or at a top-level heading once the current chunk is half full.
+ */
+export function chunkDocument(doc: ExtractedDocument, maxChars: number = CHUNK_CHARS): DocumentChunk[] {
+  const pending: PendingChunk[] = [];
+  let current: PendingChunk = { sections: [], length: 0 };
+
+  const flush = () => {
+    if (current.sections.length > 0) pending.push(current);
+    current = { sections: [], length: 0 };
+  };
+
+  for (const section of doc.sections) {
+    const parts = sectionLength(section) > maxChars ? splitSection(section, maxChars) : [section];
+    for (const part of parts) {
+      const length = sectionLength(part);
+      const overflows = current.length + length > maxChars;
+      const topLevelBreak = part.level <= 1 && part.heading !== '' && current.length > maxChars / 2;
+      if (overflows || topLevelBreak) flush();
+      current.sections.push(part);
+      current.length += length;
+    }
+  }
+  flush();
+
+  return pending.map(toDocumentChunk);
+}
+
+/** Short label for a chunk in prompts and tooltips, e.g. "C2: Method, Experiments (pp. 4-6)" */
+export function describeChunk(chunk: SourceChunk): string {
+  const headings = chunk.headings.length > 0 ? chunk.headings.join(', ') : 'Front matter';
+  const pages = chunk.pageStart !== undefined
+    ? ` (${formatSourcePages([chunk.pageStart, chunk.pageEnd ?? chunk.pageStart])})`
+    : '';
+  return `${chunk.id}: ${headings}${pages}`;
+}
+
+/**
+ * Clean up a model-supplied list of chunk ids. When it yields nothing, fall
+ * back to the chunks whose page ranges contain any of `pages`.
+ */
+export function resolveChunkRefs(raw: unknown, chunks: SourceChunk[], pages?: number[]): string[] | undefined {
+  const known = new Map(chunks.map((chunk) => [chunk.id.toUpperCase(), chunk.id]));
+  const ids = Array.isArray(raw)
+    ? raw
+      .map((ref) => (typeof ref === 'string' ? known.get(ref.trim().replace(/^\[|\]$/g, '').toUpperCase()) : undefined))
+      .filter((id): id is string => id !== undefined)
+    : [];
+
+  if (ids.length === 0 && pages && pages.length > 0) {
+    ids.push(...chunks
+      .filter((chunk) => chunk.pageStart !== undefined
+        && pages.some((page) => page >= chunk.pageStart! && page <= (chunk.pageEnd ?? chunk.pageStart!)))
+      .map((chunk) => chunk.id));
+  }
+
+  if (ids.length === 0) return undefined;
+  const order = chunks.map((chunk) => chunk.id);
+  return Array.from(new Set(ids)).sort((a, b) => order.indexOf(a) - order.indexOf(b));
+}
+
+/** Every page covered by the given chunks, sorted */
+export function pagesOfChunks(chunks: SourceChunk[], ids: string[]): number[] | undefined {
+  const pages = new Set<number>();
+  for (const chunk of chunks) {
+    if (!ids.includes(chunk.id) || chunk.pageStart === undefined) continue;
+    for (let page = chunk.pageStart; page <= (chunk.pageEnd ?? chunk.pageStart); page++) pages.add(page);
+  }
+  return pages.size > 0 ? Array.from(pages).sort((a, b) => a - b) : undefined;
+}
@@ -0,0 +1,374 @@
+import {
+  AnalysisResult,
+  AnimationElement,
+  DocumentAsset,
+  DocumentParagraph,
+  DocumentSection,
+  DocumentTable,
+  ExtractedDocument,
+  PaperSection,
+} from '@/types';
+
+// ============================================
+// Plain-text Rendering
+// ============================================
+
+/** One block of the plain-text rendering and the page it came from */
+export interface TextBlock {
+  text: string;
+  page?: number;
+}
+
+/**
+ * The blocks documentToText joins: the title, headings, then paragraphs,
+ * with equation and table placeholders restored.
+ */
+export function documentTextBlocks(doc: ExtractedDocument): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  if (doc.title) blocks.push({ text: doc.title });
+
+  const equations = new Map((doc.equations || []).map((eq) => [eq.id, eq.latex]));
+  const tables = new Map((doc.tables || []).map((table) => [table.id, table]));
+
+  for (const section of doc.sections) {
+    if (section.heading) blocks.push({ text: section.heading, page: section.pageStart });
+    for (const paragraph of section.paragraphs) {
+      // Equation placeholders are restored as display math, tables as rows
+      const standalone = paragraph.text.match(/^\[([ET]\d+)\]$/);
+      const latex = standalone ? equations.get(standalone[1]) : undefined;
+      const table = standalone ? tables.get(standalone[1]) : undefined;
+      const text = latex !== undefined ? `$$${latex}$$` : table ? formatTableRows(table).join('\n') : paragraph.text;
+      blocks.push({ text, page: paragraph.page });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Flatten a structured document back into readable text:
+ * headings on their own line, paragraphs separated by blank lines.
+ */
+export function documentToText(doc: ExtractedDocument): string {
+  return documentTextBlocks(doc).map((block) => block.text).join('\n\n').trim();
+}
+
+/**
+ * Copy of the document without inline asset payloads (image data URLs),
+ * for sending to the server where only the metadata is needed.
+ */
+export function stripAssetData(doc: ExtractedDocument): ExtractedDocument {
+  if (!doc.assets) return doc;
+  return {
+    ...doc,
+    assets: doc.assets.map((asset) => ({ ...asset, src: undefined })),
+  };
+}
+
+/** One line per row, cells separated by " | ", header first */
+function formatTableRows(table: DocumentTable): string[] {
+  const rows = table.header ? [table.header, ...table.rows] : table.rows;
+  return rows.map((row) => row.join(' | '));
+}
+
+function formatPageRange(start?: number, end?: number): string {
+  if (start === undefined) return '';
+  if (end === undefined || end === start) return ` [page ${start}]`;
+  return ` [pages ${start}-${end}]`;
+}
+
+/**
+ * Prompt lines for one section: its `#` heading with page range, then its
+ * paragraphs, with a `[Page N]` marker whenever the page changes. `cursor`
+ * carries the current page across consecutive sections.
+ */
+export function formatSectionForPrompt(section: DocumentSection, cursor: { page?: number } = {}): string[] {
+  const lines: string[] = [];
+  if (section.heading) {
+    const hashes = '#'.repeat(Math.min(Math.max(section.level, 1), 4) + 1);
+    lines.push('', `${hashes} ${section.heading}${formatPageRange(section.pageStart, section.pageEnd)}`);
+  }
+  for (const paragraph of section.paragraphs) {
+    if (paragraph.page !== undefined && paragraph.page !== cursor.page) {
+      lines.push(`[Page ${paragraph.page}]`);
+      cursor.page = paragraph.page;
+    }
+    lines.push(paragraph.text);
+  }
+  return lines;
+}
+
+/**
+ * The equation, table and figure lists that follow the body text. With
+ * `sectionIds`, only items belonging to those sections are listed.
+ */
+export function formatReferenceLists(doc: ExtractedDocument, sectionIds?: Set<string>): string[] {
+  const include = (item: { sectionId: string }) => !sectionIds || sectionIds.has(item.sectionId);
+  const equations = (doc.equations || []).filter(include);
+  const tables = (doc.tables || []).filter(include);
+  const figures = (doc.figures || []).filter(include);
+  const lines: string[] = [];
+
+  if (equations.length > 0) {
+    lines.push('', 'Display equations (verbatim LaTeX, referenced as [E#] above):');
+    for (const equation of equations) {
+      lines.push(`${equation.id}: ${equation.latex.replace(/\s*\n\s*/g, ' ')}`);
+    }
+  }
+
+  if (tables.length > 0) {
+    lines.push('', 'Tables (referenced as [T#] above; rows numbered r0, r1, ... and cells separated by " | "):');
+    for (const table of tables) {
+      const page = table.page !== undefined ? ` (page ${table.page})` : '';
+      lines.push(`${table.id}${page}: ${table.caption.replace(/\s+/g, ' ')}`);
+      if (table.header) lines.push(`  header: ${table.header.join(' | ')}`);
+      lines.push(...table.rows.map((row, i) => `  r${i}: ${row.join(' | ')}`));
+    }
+  }
+
+  if (figures.length > 0) {
+    lines.push('', 'Figures (id, page, whether the image is available, caption):');
+    for (const figure of figures) {
+      const page = figure.page !== undefined ? `, page ${figure.page}` : '';
+      const image = figureImage(doc, figure.id) ? 'image' : 'caption only';
+      lines.push(`${figure.id}${page}, ${image}: ${figure.caption.replace(/\s+/g, ' ')}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render the document for the analysis prompt. Headings are marked with `#`
+ * by level and carry their page range, and a `[Page N]` marker is emitted
+ * whenever a paragraph starts on a new page, so the model can cite pages.
+ */
+export function formatDocumentForPrompt(doc: ExtractedDocument): string {
+  const lines: string[] = [];
+  if (doc.title) lines.push(`Title: ${doc.title}`);
+  if (doc.pageCount) lines.push(`Pages: ${doc.pageCount}`);
+
+  const cursor: { page?: number } = {};
+  for (const section of doc.sections) {
+    lines.push(...formatSectionForPrompt(section, cursor));
+  }
+  lines.push(...formatReferenceLists(doc));
+
+  return lines.join('\n').trim();
+}
+
+// ============================================
+// Plain-text / Markdown Documents
+// ============================================
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+}
+
+export function createSectionId(heading: string, index: number): string {
+  const slug = slugify(heading);
+  return slug ? `doc-${index + 1}-${slug}` : `doc-${index + 1}`;
+}
+
+/**
+ * Build a structured document from unpaginated text. Markdown `#` headings
+ * start new sections; blank lines separate paragraphs.
+ */
+export function buildTextDocument(text: string): ExtractedDocument {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { id: 'front-matter', heading: '', level: 0, paragraphs: [] };
+  let buffer: string[] = [];
+
+  const flushParagraph = () => {
+    const joined = buffer.join(' ').replace(/\s+/g, ' ').trim();
+    if (joined) current.paragraphs.push({ text: joined });
+    buffer = [];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const heading = rawLine.match(MARKDOWN_HEADING);
+    if (heading) {
+      flushParagraph();
+      if (current.heading || current.paragraphs.length > 0) sections.push(current);
+      current = {
+        id: createSectionId(heading[2], sections.length),
+        heading: heading[2],
+        level: heading[1].length,
+        paragraphs: [],
+      };
+      continue;
+    }
+    if (rawLine.trim() === '') {
+      flushParagraph();
+    } else {
+      buffer.push(rawLine.trim());
+    }
+  }
+  flushParagraph();
+  if (current.heading || current.paragraphs.length > 0) sections.push(current);
+
+  // A leading level-1 heading with nothing under it is the document title
+  let title: string | undefined;
+  if (sections[0]?.level === 1 && sections[0].paragraphs.length === 0) {
+    title = sections.shift()!.heading;
+  }
+
+  return { source: 'text', title, sections };
+}
+
+// ============================================
+// Page Provenance
+// ============================================
+
+function normalizeHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^(\d+(\.\d+)*|[ivx]+)\.?\s+/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function pagesOfParagraphs(paragraphs: DocumentParagraph[]): number[] {
+  const pages = paragraphs
+    .map((p) => p.page)
+    .filter((p): p is number => typeof p === 'number');
+  return Array.from(new Set(pages)).sort((a, b) => a - b);
+}
+
+/**
+ * Clean up a model-supplied page list: integers inside the document, sorted,
+ * de-duplicated. Returns undefined when nothing usable remains.
+ */
+export function sanitizeSourcePages(raw: unknown, pageCount?: number): number[] | undefined {
+  if (!Array.isArray(raw) || !pageCount) return undefined;
+  const pages = raw
+    .map((value) => (typeof value === 'number' ? value : Number(value)))
+    .filter((value) => Number.isInteger(value) && value >= 1 && value <= pageCount);
+  if (pages.length === 0) return undefined;
+  return Array.from(new Set(pages)).sort((a, b) => a - b);
+}
+
+/**
+ * Best-effort page lookup for a generated section: match its title against
+ * the document's headings and return the pages of the matching section.
+ */
+export function findPagesForTitle(doc: ExtractedDocument, title: string): number[] | undefined {
+  const target = normalizeHeading(title);
+  if (!target) return undefined;
+
+  const match = doc.sections.find((section) => {
+    const heading = normalizeHeading(section.heading);
+    return heading.length > 0 && (heading === target || target.includes(heading) || heading.includes(target));
+  });
+  if (!match) return undefined;
+
+  const pages = pagesOfParagraphs(match.paragraphs);
+  return pages.length > 0 ? pages : undefined;
+}
+
+/**
+ * Resolve equation ids (e.g. "E3") against the document, returning the
+ * author's LaTeX in the order requested. Unknown ids are skipped.
+ */
+export function resolveEquationRefs(doc: ExtractedDocument, refs: unknown): string[] {
+  if (!Array.isArray(refs) || !doc.equations) return [];
+  const byId = new Map(doc.equations.map((eq) => [eq.id.toUpperCase(), eq.latex]));
+  return refs
+    .map((ref) => (typeof ref === 'string' ? byId.get(ref.trim().replace(/^\[|\]$/g, '').toUpperCase()) : undefined))
+    .filter((latex): latex is string => typeof latex === 'string');
+}
+
+/** Short human label for a page list, e.g. "p. 3" or "pp. 3-5". */
+export function formatSourcePages(pages?: number[]): string {
+  if (!pages || pages.length === 0) return '';
+  const first = pages[0];
+  const last = pages[pages.length - 1];
+  return first === last ? `p. ${first}` : `pp. ${first}-${last}`;
+}
+
+// ============================================
+// Figures, Tables & Data-backed Elements
+// ============================================
+
+function isDisplayableImage(asset: DocumentAsset): boolean {
+  return asset.kind === 'image' && asset.mimeType.startsWith('image/');
+}
+
+/** The first displayable image asset of a figure, by figure id ("F3" or "3") */
+export function figureImage(doc: Pick<ExtractedDocument, 'figures' | 'assets'>, figureId: unknown): DocumentAsset | undefined {
+  if (typeof figureId !== 'string' && typeof figureId !== 'number') return undefined;
+  const id = String(figureId).trim().toUpperCase().replace(/^(?:FIGURE|FIG\.?)\s*/, '');
+  const normalized = id.startsWith('F') ? id : `F${id}`;
+  const figure = doc.figures?.find((f) => f.id.toUpperCase() === normalized);
+  if (!figure?.assetIds) return undefined;
+  return figure.assetIds
+    .map((assetId) => doc.assets?.find((a) => a.id === assetId))
+    .find((asset): asset is DocumentAsset => asset !== undefined && isDisplayableImage(asset));
+}
+
+function mapElements(
+  section: PaperSection,
+  type: AnimationElement['type'],
+  map: (element: AnimationElement) => AnimationElement | null
+): PaperSection {
+  if (!section.animationData) return section;
+  return {
+    ...section,
+    animationData: {
+      ...section.animationData,
+      steps: section.animationData.steps.map((step) => ({
+        ...step,
+        elements: step.elements
+          .map((element) => (element.type === type ? map(element) : element))
+          .filter((element): element is AnimationElement => element !== null),
+      })),
+    },
+  };
+}
+
+/**
+ * Drop image elements that point at a figure without an image, and record
+ * the asset id on the rest. Runs server-side, where asset data is stripped.
+ */
+export function validateImageElements(section: PaperSection, doc?: ExtractedDocument): PaperSection {
+  return mapElements(section, 'image', (element) => {
+    const asset = doc ? figureImage(doc, element.props.figureId) : undefined;
+    if (!asset) return null;
+    return { ...element, props: { ...element.props, assetId: asset.id } };
+  });
+}
+
+/**
+ * Fill table elements from the source table named by `tableId`, so the
+ * numbers on screen are the paper's own. Elements with no usable rows are
+ * dropped.
+ */
+export function resolveTableElements(section: PaperSection, doc?: ExtractedDocument): PaperSection {
+  return mapElements(section, 'table', (element) => {
+    const tableId = typeof element.props.tableId === 'string'
+      ? element.props.tableId.trim().replace(/^\[|\]$/g, '').toUpperCase()
+      : undefined;
+    const table = tableId ? doc?.tables?.find((t) => t.id.toUpperCase() === tableId) : undefined;
+    const props = table
+      ? { ...element.props, tableId: table.id, header: table.header, rows: table.rows }
+      : element.props;
+    if (!Array.isArray(props.rows) || props.rows.length === 0) return null;
+    return { ...element, props };
+  });
+}
+
+/**
+ * Attach the document's figures and image assets to an analysis as project
+ * assets; image elements reference them by `assetId`.
+ */
+export function attachFigureAssets(analysis: AnalysisResult, doc: ExtractedDocument): AnalysisResult {
+  const assets = (doc.assets || []).filter((asset) => asset.kind === 'image' && asset.src);
+  if (assets.length === 0) return analysis;
+  return { ...analysis, figures: doc.figures, assets };
+}
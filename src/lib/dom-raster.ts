@@ -0,0 +1,173 @@
+'use client';
+
+/**
+ * DOM Rasterizer
+ *
+ * Draws a live element onto a canvas. The element is cloned into an SVG
+ * <foreignObject> along with the page's stylesheets (fonts and images they
+ * load inlined as data URLs) and drawn as an image, so SVG, KaTeX and
+ * Framer Motion styles come out as they are laid out on screen. <canvas>
+ * elements are copied in as images of their current pixels; a WebGL canvas
+ * needs preserveDrawingBuffer for that.
+ */
+
+const CSS_URL = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+// Keys of a keyframe that are not style properties
+const KEYFRAME_KEYS = new Set(['offset', 'computedOffset', 'easing', 'composite']);
+
+// The copy is a still picture: animations in it would start over from their first keyframe
+const STILL_STYLES = '*,*::before,*::after{animation:none!important;transition:none!important}';
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// A resource that cannot be fetched keeps its URL; it is simply missing from the picture
+function fetchDataUrl(url: string, cache: Map<string, Promise<string>>): Promise<string> {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((response) => (response.ok ? response.blob() : Promise.reject(new Error(`${response.status}`))))
+      .then(blobToDataUrl)
+      .catch(() => url);
+    cache.set(url, pending);
+  }
+  return pending;
+}
+
+async function inlineUrls(css: string, base: string, cache: Map<string, Promise<string>>): Promise<string> {
+  const urls = new Set<string>();
+  for (const match of css.matchAll(CSS_URL)) {
+    if (!match[2].startsWith('data:') && !match[2].startsWith('#')) urls.add(match[2]);
+  }
+  const inlined = new Map<string, string>();
+  await Promise.all([...urls].map(async (url) => {
+    inlined.set(url, await fetchDataUrl(new URL(url, base).href, cache));
+  }));
+  return css.replace(CSS_URL, (whole, _quote, url: string) => {
+    const data = inlined.get(url);
+    return data ? `url("${data}")` : whole;
+  });
+}
+
+function ruleText(rule: CSSRule): string {
+  if (!(rule instanceof CSSFontFaceRule)) return rule.cssText;
+  // Fonts list several formats, best first; the first is enough for a picture
+  const src = rule.style.getPropertyValue('src');
+  return rule.cssText.replace(src, src.split(/,(?=\s*(?:url|local)\()/)[0]);
+}
+
+async function sheetText(sheet: CSSStyleSheet, cache: Map<string, Promise<string>>): Promise<string> {
+  let rules: CSSRuleList;
+  try {
+    rules = sheet.cssRules;
+  } catch {
+    return '';   // cross-origin sheets cannot be read
+  }
+  const parts = await Promise.all(Array.from(rules, (rule) =>
+    rule instanceof CSSImportRule && rule.styleSheet ? sheetText(rule.styleSheet, cache) : Promise.resolve(ruleText(rule))
+  ));
+  return inlineUrls(parts.join('\n'), sheet.href ?? document.baseURI, cache);
+}
+
+/** Style properties that browser animations are changing, by element */
+function animatedProperties(root: Element): Map<Element, Set<string>> {
+  const animated = new Map<Element, Set<string>>();
+  for (const animation of root.getAnimations({ subtree: true })) {
+    const effect = animation.effect;
+    if (!(effect instanceof KeyframeEffect) || !effect.target || effect.pseudoElement) continue;
+    const properties = animated.get(effect.target) ?? new Set<string>();
+    for (const keyframe of effect.getKeyframes()) {
+      for (const key of Object.keys(keyframe)) {
+        if (KEYFRAME_KEYS.has(key)) continue;
+        properties.add(key.startsWith('--') ? key : key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`));
+      }
+    }
+    animated.set(effect.target, properties);
+  }
+  return animated;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+export class DomRasterizer {
+  private constructor(private element: HTMLElement, private encodedStyles: string) {}
+
+  /**
+   * Read the page's stylesheets once; they are the same for every frame and
+   * most of every picture, so they are also URL-encoded only once
+   */
+  static async create(element: HTMLElement): Promise<DomRasterizer> {
+    const cache = new Map<string, Promise<string>>();
+    const sheets = await Promise.all(Array.from(document.styleSheets, (sheet) => sheetText(sheet, cache)));
+    const styles = `${sheets.join('\n')}\n${STILL_STYLES}`.replace(/]]>/g, ']]]]><![CDATA[>');
+    return new DomRasterizer(element, encodeURIComponent(`<style><![CDATA[${styles}]]></style>`));
+  }
+
+  /** Draw the element as it is now, scaled to fill the canvas */
+  async draw(ctx: CanvasRenderingContext2D): Promise<void> {
+    const { width, height } = ctx.canvas;
+    const image = new Image();
+    image.src = this.snapshotUrl(width, height);
+    await image.decode();
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+
+  private snapshotUrl(outputWidth: number, outputHeight: number): string {
+    const width = this.element.offsetWidth;
+    const height = this.element.offsetHeight;
+    const clone = this.element.cloneNode(true) as HTMLElement;
+
+    // CSS transitions and keyframes and Web Animations are not in the markup,
+    // so their current values are written onto the copy
+    const animated = animatedProperties(this.element);
+    if (animated.size > 0) {
+      const originals = [this.element, ...this.element.querySelectorAll('*')];
+      const copies = [clone, ...clone.querySelectorAll('*')];
+      originals.forEach((original, i) => {
+        const properties = animated.get(original);
+        const copy = copies[i];
+        if (!properties || !(copy instanceof HTMLElement || copy instanceof SVGElement)) return;
+        const computed = getComputedStyle(original);
+        for (const property of properties) {
+          copy.style.setProperty(property, computed.getPropertyValue(property));
+        }
+      });
+    }
+
+    const canvases = this.element.querySelectorAll('canvas');
+    clone.querySelectorAll('canvas').forEach((copy, i) => {
+      const image = document.createElement('img');
+      image.src = canvases[i].toDataURL();
+      image.setAttribute('style', copy.getAttribute('style') ?? '');
+      image.style.width = `${canvases[i].clientWidth}px`;
+      image.style.height = `${canvases[i].clientHeight}px`;
+      copy.replaceWith(image);
+    });
+
+    // What the element inherits from outside itself
+    const computed = getComputedStyle(this.element);
+    const rootStyle = [
+      `width:${width}px`,
+      `height:${height}px`,
+      `font-family:${computed.fontFamily}`,
+      `font-size:${computed.fontSize}`,
+      `line-height:${computed.lineHeight}`,
+      `color:${computed.color}`,
+    ].join(';');
+
+    const open = `<svg xmlns="http://www.w3.org/2000/svg" width="${outputWidth}" height="${outputHeight}" viewBox="0 0 ${width} ${height}">`
+      + `<foreignObject x="0" y="0" width="${width}" height="${height}">`
+      + `<div xmlns="http://www.w3.org/1999/xhtml" style="${escapeAttribute(rootStyle)}">`;
+    const body = new XMLSerializer().serializeToString(clone) + '</div></foreignObject></svg>';
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(open)}${this.encodedStyles}${encodeURIComponent(body)}`;
+  }
+}
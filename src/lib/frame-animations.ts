@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * Frame-Driven Animations
+ *
+ * Puts animations that run on the browser's clock onto the timeline's when
+ * a player renders frame by frame, so a frame shows the same in-between
+ * moment however long it took to draw. Framer Motion animations are given a
+ * FrameDriver and the frame's time through the `driver` and `startTime`
+ * options of their transitions, so they advance only when the frame time
+ * does while the rest of the page stays on the real clock. Browser
+ * animations (CSS transitions and keyframes, and the Web Animations that
+ * Framer Motion hands opacity and transforms to) are paused and seeked to
+ * the time since the frame they first appeared in.
+ */
+
+import { createContext, useCallback, useContext, useLayoutEffect, useMemo, useState } from 'react';
+import type { Transition, ValueTransition } from 'framer-motion';
+
+type Driver = NonNullable<ValueTransition['driver']>;
+
+/** What a frame-driven player hands the transitions below it */
+export interface FrameMotion {
+  driver: Driver;
+  startTime: number;  // ms; the frame being rendered, when animations it starts begin
+}
+
+// Timeline seconds at which each browser animation was first seen
+const browserAnimationStarts = new WeakMap<Animation, number>();
+
+/** Plays the animations it drives only when moved to a new time */
+class FrameDriver {
+  private time = 0;  // ms
+  // Each running animation's update, and whether it keeps running after the next one
+  private updates = new Map<(timestamp: number) => void, boolean>();
+
+  readonly driver: Driver = (update) => ({
+    start: (keepAlive = true) => {
+      this.updates.set(update, keepAlive || this.updates.get(update) === true);
+    },
+    stop: () => {
+      this.updates.delete(update);
+    },
+    now: () => this.time,
+  });
+
+  seek(ms: number): void {
+    this.time = ms;
+    for (const [update, keepAlive] of [...this.updates]) {
+      if (!keepAlive) this.updates.delete(update);
+      update(ms);
+    }
+  }
+}
+
+/** Frame timing for Framer Motion animations below a frame-driven player; unset on the real clock */
+export const FrameMotionContext = createContext<FrameMotion | undefined>(undefined);
+
+/**
+ * Frame timing for FrameMotionContext, with a driver that moves to
+ * `frameTime` (timeline seconds) on each render; undefined when `frameTime`
+ * is unset.
+ */
+export function useFrameMotion(frameTime: number | undefined): FrameMotion | undefined {
+  const [frameDriver] = useState(() => new FrameDriver());
+
+  // Running animations catch up with the frame before it is drawn; ones it
+  // starts begin at its startTime
+  useLayoutEffect(() => {
+    if (frameTime !== undefined) frameDriver.seek(frameTime * 1000);
+  }, [frameDriver, frameTime]);
+
+  return useMemo(
+    () => (frameTime === undefined ? undefined : { driver: frameDriver.driver, startTime: frameTime * 1000 }),
+    [frameDriver, frameTime]
+  );
+}
+
+/**
+ * Put a transition on the frame timing of the player it is rendered in, if
+ * that player is frame-driven. A transition given as nothing is then no
+ * longer Framer Motion's per-value default but its default tween.
+ */
+export function useFrameTransition(): (transition?: Transition) => Transition | undefined {
+  const frameMotion = useContext(FrameMotionContext);
+  return useCallback(
+    (transition?: Transition) => (frameMotion ? { ...transition, ...frameMotion } : transition),
+    [frameMotion]
+  );
+}
+
+/** Pause every browser animation under `root` at `time` seconds of the timeline */
+export function seekBrowserAnimations(root: Element, time: number): void {
+  for (const animation of root.getAnimations({ subtree: true })) {
+    let start = browserAnimationStarts.get(animation);
+    if (start === undefined) {
+      start = time;
+      browserAnimationStarts.set(animation, start);
+    }
+    animation.pause();
+    animation.currentTime = Math.max(0, time - start) * 1000;
+  }
+}
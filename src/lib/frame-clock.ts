@@ -0,0 +1,96 @@
+/**
+ * Frame Clocks
+ *
+ * What advances the timeline. The player runs on RealtimeClock, one frame
+ * per requestAnimationFrame with the wall-clock time between them. Rendering
+ * (video export, snapshots) runs on FixedStepClock, which only moves when
+ * step() is called and then by one frame, and also reports the time since
+ * start() as frames / fps, so the same frame always shows the same moment
+ * however many frames came before it. It needs no window.
+ */
+
+/**
+ * Called once per frame with the seconds since the previous frame and, from
+ * clocks that count frames, the seconds since start() computed in one step
+ * rather than summed from deltas
+ */
+export type FrameCallback = (deltaSeconds: number, elapsedSeconds?: number) => void;
+
+export interface FrameClock {
+  /** Call `onFrame` every frame until stop() */
+  start(onFrame: FrameCallback): void;
+  stop(): void;
+  readonly running: boolean;
+}
+
+export class RealtimeClock implements FrameClock {
+  private rafId: number | null = null;
+  private lastTimestamp: number | null = null;
+  private onFrame: FrameCallback | null = null;
+
+  get running(): boolean {
+    return this.onFrame !== null;
+  }
+
+  start(onFrame: FrameCallback): void {
+    this.stop();
+    this.onFrame = onFrame;
+    this.rafId = requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.onFrame = null;
+    this.lastTimestamp = null;
+  }
+
+  private tick = (timestamp: number): void => {
+    // The first frame after a start has nothing to measure from
+    const delta = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+    this.rafId = null;
+    this.onFrame?.(delta);
+    if (this.onFrame) {
+      this.rafId = requestAnimationFrame(this.tick);
+    }
+  };
+}
+
+export class FixedStepClock implements FrameClock {
+  private onFrame: FrameCallback | null = null;
+  private frame = 0;
+  private startFrame = 0;
+
+  constructor(readonly fps: number) {
+    if (!(fps > 0)) throw new Error(`Frame rate must be positive, got ${fps}`);
+  }
+
+  get running(): boolean {
+    return this.onFrame !== null;
+  }
+
+  /** Frames stepped so far */
+  get frameCount(): number {
+    return this.frame;
+  }
+
+  start(onFrame: FrameCallback): void {
+    this.onFrame = onFrame;
+    this.startFrame = this.frame;
+  }
+
+  stop(): void {
+    this.onFrame = null;
+  }
+
+  /** Advance `frames` frames of 1/fps each; nothing moves while stopped */
+  step(frames: number = 1): void {
+    for (let i = 0; i < frames && this.onFrame; i++) {
+      this.frame += 1;
+      this.onFrame(1 / this.fps, (this.frame - this.startFrame) / this.fps);
+    }
+  }
+}
@@ -1,419 +1,745 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AnalysisResult, PaperSection, AnimationData, AnimationStep, NarrationSegment, SectionScript } from '@/types';
-import { ensureThreeVisuals } from '@/lib/three-scene';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-type RetryConfig = {
-  maxAttempts: number;
-  initialDelayMs: number;
-  multiplier: number;
-  maxDelayMs: number;
-  jitterRatio: number;
+import { AnalysisResult, AnalysisProgress, AudienceLevel, PaperSection, AnimationData, AnimationStep, NarrationSegment, PresentationScript, PromptName, PromptVersions, SectionScript, ExtractedDocument, VisualizationType } from '@/types';
+import { enhanceThreeScene } from '@/lib/three-scene';
+import {
+  buildTextDocument,
+  figureImage,
+  findPagesForTitle,
+  formatDocumentForPrompt,
+  formatReferenceLists,
+  resolveEquationRefs,
+  resolveTableElements,
+  sanitizeSourcePages,
+  validateImageElements,
+} from '@/lib/document';
+import { chunkDocument, describeChunk, DocumentChunk, pagesOfChunks, resolveChunkRefs } from '@/lib/document-chunks';
+import { describeModel, generateText, LLMCallOptions } from '@/lib/llm';
+import { getLanguage } from '@/lib/languages';
+import { buildSourceIndex, collectQuotes, SourceIndex, verifyScriptCitations } from '@/lib/citations';
+import { cached } from '@/lib/llm-cache';
+import { renderPrompt, resolvePromptVersions } from '@/lib/prompts';
+import { recordCacheHit, UsageMeter, UsageScope } from '@/lib/usage';
+import { retimeSectionScript } from '@/lib/script-builder';
+import {
+  AnalysisOutline,
+  formatSchemaIssues,
+  OutlineSection,
+  SchemaIssue,
+  validateNarrationJson,
+  validateOutlineJson,
+  validateSectionJson,
+  validateSegmentJson,
+  ValidationResult,
+} from '@/lib/analysis-schema';
+
+const perspectiveInstructions: Record<string, string> = {
+  'first-person': `- Write narration in FIRST PERSON perspective. Use "Let me show you...", "We can see that...", "I want to highlight...", "Let us explore...", "As we move forward...", "Here, we observe...". The narrator is a guide walking alongside the viewer.`,
+  'third-person': `- Write narration in THIRD PERSON perspective. Use "The paper demonstrates...", "This section shows...", "The authors propose...", "It can be observed that...", "The data reveals...", "The research indicates...". The narrator is an objective observer describing the paper's contents.`,
+  'instructor': `- Write narration in INSTRUCTOR perspective. Use "Notice how...", "Consider the following...", "You can see that...", "Pay attention to...", "Think about why...", "Observe the relationship between...". The narrator is a professor directly teaching the viewer.`,
 };
 
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxAttempts: 4,
-  initialDelayMs: 1_000,
-  multiplier: 2,
-  maxDelayMs: 20_000,
-  jitterRatio: 0.2,
+const VISUALIZATION_GUIDANCE: Record<VisualizationType, string> = {
+  css: '- Focus on shapes (boxes, badges), arrows (flow connections), highlights (key terms), and text (labels). Create flowchart-like layouts with clear visual hierarchy. Include x/y coordinates for precise element positioning on a 600x300 canvas.',
+  d3: '- Use nodes + edges for network graphs. Use shapes with "bar" for charts. Include text labels for axes. Use arrows for directed relationships.',
+  katex: '- The equations array handles rendering. But also include shape/highlight/text elements in animationData steps to accompany each equation reveal with visual context.',
+  threejs: '- Include threeElements and cameraTrack in config for data-driven 3D scenes. Also include text/shape elements in steps for pacing.',
 };
 
-type GeminiErrorPayload = {
-  status?: number;
-  message?: unknown;
-  response?: {
-    status?: number;
-    statusText?: string;
-    data?: {
-      error?: {
-        message?: string;
-      };
-    };
-  };
+/**
+ * How each audience changes the video: background sections and equation
+ * depth in the outline, vocabulary and pacing in each section's script.
+ */
+const audienceInstructions: Record<AudienceLevel, { outline: string; section: string; wordsPerMinute: number }> = {
+  'high-school': {
+    outline: `- AUDIENCE: high-school students. Open with 1-2 extra background sections (contentType "concept") that explain, in everyday terms, the prerequisites the paper takes for granted
+- Favor intuition over formalism: include at most one equation section, and only if that equation is the heart of the paper`,
+    section: `- AUDIENCE: high-school students. Use everyday vocabulary, define every technical term the first time it appears, and lean on familiar analogies
+- Explain equations in words (what each symbol stands for and what the equation says); no derivations
+- Take it slowly: one idea per segment, with "pause-before" ahead of the key point`,
+    wordsPerMinute: 130,
+  },
+  undergraduate: {
+    outline: `- AUDIENCE: undergraduate students in a related field. Add one background section only if the paper relies on something beyond a standard undergraduate curriculum
+- Include the paper's central equations`,
+    section: `- AUDIENCE: undergraduate students. Use the field's standard terms, briefly defining anything specialized
+- Walk through equations term by term and say what each part contributes; skip long derivations`,
+    wordsPerMinute: 150,
+  },
+  expert: {
+    outline: `- AUDIENCE: researchers in the field. No background sections; go straight to what is new in the paper
+- Give the method's key equations and the results the paper's claims rest on their own sections`,
+    section: `- AUDIENCE: domain experts. Use precise field terminology without defining standard terms
+- Present equations at full depth: state assumptions, the key derivation steps, and how they differ from prior work
+- Keep a brisk pace and spend the time on the contribution, not on motivation`,
+    wordsPerMinute: 170,
+  },
 };
 
-function isRateLimitError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') return false;
+function audienceFor(level: AudienceLevel | undefined) {
+  return audienceInstructions[level || 'undergraduate'] ?? audienceInstructions.undergraduate;
+}
+
+/**
+ * Prompt rule for writing `fields` in a language other than English; empty
+ * for English. LaTeX, code and ids must survive untouched so equations
+ * still render and segments still line up with their steps.
+ */
+function languageInstruction(code: string | undefined, fields: string): string {
+  const language = getLanguage(code);
+  if (language.code === 'en') return '';
+  return `- LANGUAGE: Write ${fields} in ${language.name}. Keep LaTeX, equations, code, symbols and variable names exactly as they are, keep technical terms that have no established ${language.name} form in their original form, and keep every id, stepId and JSON key in English`;
+}
+
+/** The estimatedDuration rule: spaceless scripts are paced by characters, not words */
+function pacingInstruction(code: string | undefined, wordsPerMinute: number): string {
+  if (getLanguage(code).spaceless) {
+    const charsPerSecond = Math.round((wordsPerMinute / 150) * 40) / 10;
+    return `- For estimatedDuration: assume ~${charsPerSecond} characters per second. A 20-character sentence ≈ ${Math.round(20 / charsPerSecond)} seconds`;
+  }
+  return `- For estimatedDuration: assume ~${wordsPerMinute} words per minute. A 10-word sentence ≈ ${Math.round(600 / wordsPerMinute)} seconds`;
+}
+
+export interface AnalysisSettings {
+  audienceLevel?: AudienceLevel;
+  language?: string;
+  visualStyle?: string;
+  colorScheme?: string;
+  animationDuration?: number;
+  includeEquations?: boolean;
+  includeCode?: boolean;
+}
+
+// Papers whose prompt text is longer than this are summarized chunk by chunk first
+const SINGLE_PASS_CHARS = 30000;
 
-  const err = error as GeminiErrorPayload;
-  const response = err.response;
-  const status = typeof err.status === 'number' ? err.status : response?.status;
+// Chunk summaries requested from the model at the same time
+const SUMMARY_CONCURRENCY = 3;
 
-  const messages: string[] = [];
-  if (typeof err.message === 'string') messages.push(err.message);
-  if (typeof response?.statusText === 'string') messages.push(response.statusText);
-  const nestedMessage = response?.data?.error?.message;
-  if (typeof nestedMessage === 'string') messages.push(nestedMessage);
+// Sections written by the model at the same time
+const SECTION_CONCURRENCY = 3;
 
-  if (status === 429) return true;
-  if (messages.some((msg) => /429|resource exhausted|rate limit|quota/i.test(msg))) return true;
+// Round-trips that send schema errors back to the model before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
 
-  return false;
+// Templates an analysis renders; their versions are part of its cache key
+const ANALYSIS_PROMPTS: PromptName[] = ['chunk-summary', 'outline', 'section'];
+
+export interface GenerationOptions {
+  llm?: LLMCallOptions;
+  bypassCache?: boolean;   // skip the cache lookup (the fresh result is still stored)
+  signal?: AbortSignal;    // cancels in-flight model calls
+  meter?: UsageMeter;      // also collects the usage of this call's model calls
+  promptVersions?: PromptVersions; // template versions to render; the latest when omitted
 }
 
-async function wait(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export interface NarrationOptions extends GenerationOptions {
+  language?: string;       // BCP 47 tag of the language to write in; English when omitted
 }
 
-async function withGeminiRetry<T>(operation: () => Promise<T>, config: RetryConfig = DEFAULT_RETRY_CONFIG): Promise<T> {
-  let attempt = 0;
-  let delay = config.initialDelayMs;
+export interface AnalyzeOptions extends GenerationOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  onSection?: (section: PaperSection, index: number, total: number) => void;
+  maxRepairs?: number;
+}
 
-  while (true) {
-    try {
-      return await operation();
-    } catch (error) {
-      attempt += 1;
+interface ChunkSummary {
+  summary: string;
+  keyPoints: string[];
+  concepts: { name: string; why: string; refs: string[] }[];
+}
 
-      if (!isRateLimitError(error) || attempt >= config.maxAttempts) {
-        if (isRateLimitError(error)) {
-          throw new Error('The AI service is temporarily busy. Please wait a few moments and try again.');
-        }
-        throw error;
-      }
+/** Remove a markdown code fence the model sometimes wraps JSON in */
+function stripCodeFence(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.startsWith('```')
+    ? trimmed.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
+    : trimmed;
+}
 
-      const jitter = delay * config.jitterRatio * (Math.random() - 0.5) * 2; // ± jitterRatio
-      const waitTime = Math.min(config.maxDelayMs, Math.max(config.initialDelayMs, delay + jitter));
+type RepairKind = 'outline' | 'section' | 'narration' | 'segment' | 'translation';
+
+const REPAIR_HINTS: Record<RepairKind, { what: string; rules: string }> = {
+  outline: {
+    what: 'a JSON paper outline',
+    rules: `- "visualization" must be one of "katex", "threejs", "d3", "css"
+- "sections" must be a non-empty array; every section needs "title" and "visualization"`,
+  },
+  section: {
+    what: 'the JSON script and animation for one section',
+    rules: `- "animationData.type" must be one of "katex", "threejs", "d3", "css"
+- Durations and times are plain numbers (seconds), not strings
+- "script" and "animationData" are required; every step needs "id"; every segment needs "text"`,
+  },
+  narration: {
+    what: 'a JSON narration with one segment per animation step',
+    rules: `- "segments" must be a non-empty array; every segment needs "text" and "stepId"
+- "pacing" must be one of "normal", "pause-before", "pause-after"`,
+  },
+  segment: {
+    what: 'one JSON narration segment',
+    rules: `- The object needs "text"; "emphasis" is an array of strings
+- "pacing" must be one of "normal", "pause-before", "pause-after"`,
+  },
+  translation: {
+    what: 'a JSON translation of a narration script',
+    rules: `- "segments" must be a non-empty array with one entry per source segment; every segment needs "id" and "text"
+- "emphasis" is an array of strings`,
+  },
+};
 
-      console.warn(
-        `Gemini API rate limit hit. Retrying attempt ${attempt + 1} of ${config.maxAttempts} after ${Math.round(
-          waitTime
-        )}ms.`
-      );
+/**
+ * Ask the model to fix its own reply. The validation errors name each bad
+ * field by path, so the model can correct them without the original prompt.
+ */
+function buildRepairPrompt(reply: string, errors: SchemaIssue[], kind: RepairKind): string {
+  const { what, rules } = REPAIR_HINTS[kind];
+  return `Your previous reply was supposed to be ${what}, but it failed validation:
+${formatSchemaIssues(errors)}
+
+Fix every listed problem and return the complete corrected JSON object. Keep all other content unchanged.
+${rules}
 
-      await wait(waitTime);
-      delay = Math.min(config.maxDelayMs, delay * config.multiplier);
+Previous reply:
+${reply}
+
+Return ONLY the JSON object, no markdown formatting or code blocks.`;
+}
+
+/** Run `task` over `items` with at most `limit` in flight, keeping result order */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function toStringList(raw: unknown): string[] {
+  return Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
+
+/**
+ * Map step of the long-paper pipeline: summarize one chunk, keeping the
+ * candidate concepts and the equation/table/figure ids they rely on. A reply
+ * that does not parse degrades to an excerpt rather than failing the run.
+ */
+async function summarizeChunk(
+  doc: ExtractedDocument,
+  { chunk, text }: DocumentChunk,
+  index: number,
+  total: number,
+  { llm = {}, signal, promptVersions }: GenerationOptions,
+  usage: UsageScope
+): Promise<ChunkSummary> {
+  const { text: prompt } = renderPrompt('chunk-summary', {
+    partNumber: index + 1,
+    partCount: total,
+    paperTitle: doc.title || '',
+    chunkId: chunk.id,
+    text,
+    references: formatReferenceLists(doc, new Set(chunk.sectionIds)).join('\n').trim(),
+  }, promptVersions);
+
+  const reply = await generateText(prompt, llm, { json: true, signal, usage });
+
+  try {
+    const parsed = JSON.parse(stripCodeFence(reply)) as Record<string, unknown>;
+    const concepts = Array.isArray(parsed.concepts) ? parsed.concepts as Record<string, unknown>[] : [];
+    return {
+      summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+      keyPoints: toStringList(parsed.keyPoints),
+      concepts: concepts
+        .filter((c) => c && typeof c.name === 'string')
+        .map((c) => ({ name: c.name as string, why: typeof c.why === 'string' ? c.why : '', refs: toStringList(c.refs) })),
+    };
+  } catch (e) {
+    console.error(`Failed to parse summary of chunk ${chunk.id}:`, e);
+    return { summary: text.slice(0, 1500), keyPoints: [], concepts: [] };
   }
 }
 
-const perspectiveInstructions: Record<string, string> = {
-  'first-person': `- Write narration in FIRST PERSON perspective. Use "Let me show you...", "We can see that...", "I want to highlight...", "Let us explore...", "As we move forward...", "Here, we observe...". The narrator is a guide walking alongside the viewer.`,
-  'third-person': `- Write narration in THIRD PERSON perspective. Use "The paper demonstrates...", "This section shows...", "The authors propose...", "It can be observed that...", "The data reveals...", "The research indicates...". The narrator is an objective observer describing the paper's contents.`,
-  'instructor': `- Write narration in INSTRUCTOR perspective. Use "Notice how...", "Consider the following...", "You can see that...", "Pay attention to...", "Think about why...", "Observe the relationship between...". The narrator is a professor directly teaching the viewer.`,
-};
+/**
+ * Input for the planning pass over a chunked paper: one block per chunk with
+ * its summary, then the paper's equation, table and figure lists in full.
+ */
+function formatChunkDigest(doc: ExtractedDocument, chunks: DocumentChunk[], summaries: ChunkSummary[]): string {
+  const lines: string[] = [];
+  if (doc.title) lines.push(`Title: ${doc.title}`);
+  if (doc.pageCount) lines.push(`Pages: ${doc.pageCount}`);
+
+  chunks.forEach(({ chunk }, i) => {
+    const { summary, keyPoints, concepts } = summaries[i];
+    lines.push('', `## ${describeChunk(chunk)}`, summary);
+    if (keyPoints.length > 0) lines.push('Key points:', ...keyPoints.map((point) => `- ${point}`));
+    if (concepts.length > 0) {
+      lines.push('Candidate concepts:', ...concepts.map((c) =>
+        `- ${c.name}${c.why ? `: ${c.why}` : ''}${c.refs.length > 0 ? ` [${c.refs.join(', ')}]` : ''}`
+      ));
+    }
+  });
+  lines.push(...formatReferenceLists(doc));
 
-interface AnalysisSettings {
-  visualStyle?: string;
-  colorScheme?: string;
-  animationDuration?: number;
-  includeEquations?: boolean;
-  includeCode?: boolean;
+  return lines.join('\n').trim();
 }
 
+/**
+ * Analyze a paper into animated sections. Results are cached by the source
+ * text, narrator, settings, model and prompt template versions.
+ */
 export async function analyzePaper(
   pdfText: string,
   narratorPerspective: string = 'first-person',
-  analysisSettings: AnalysisSettings = {}
+  analysisSettings: AnalysisSettings = {},
+  sourceDocument?: ExtractedDocument,
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-  const perspectiveText = perspectiveInstructions[narratorPerspective] || perspectiveInstructions['first-person'];
-
-  const settingsInstructions = [
-    analysisSettings.visualStyle === 'detailed'
-      ? '- Use DETAILED visual style: more elements per step (4-5), richer descriptions, detailed annotations'
-      : '- Use MINIMAL visual style: clean and focused, 3-4 elements per step, emphasis on clarity',
-    analysisSettings.includeEquations === false
-      ? '- Do NOT include equation sections. Skip any mathematical formulas.'
-      : '',
-    analysisSettings.includeCode === false
-      ? '- Do NOT include manimCode in the output.'
-      : '',
-    analysisSettings.animationDuration
-      ? `- Target approximately ${analysisSettings.animationDuration} seconds per concept section`
-      : '',
-    analysisSettings.colorScheme === 'light'
-      ? '- Use LIGHT color scheme: prefer blues, grays, and white backgrounds'
-      : analysisSettings.colorScheme === 'field-specific'
-      ? '- Use FIELD-SPECIFIC color scheme: choose colors that are conventional for this research field'
-      : '- Use DARK color scheme: vibrant colors on dark backgrounds',
-  ].filter(Boolean).join('\n');
-
-  const prompt = `You are an expert at analyzing research papers and creating structured educational video scripts with synchronized animations.
-
-Analyze this research paper and extract the key concepts. For each concept, create:
-1. A detailed narration SCRIPT broken into segments, where EACH segment maps to exactly ONE animation step
-2. Animation steps with RICH visual elements that illustrate each narration segment
-
-For each concept, determine:
-1. The content type (equation, algorithm, biological_process, graph, diagram, or concept)
-2. The best visualization method:
-   - "katex" for mathematical equations and formulas
-   - "threejs" for 3D structures (molecules, geometric shapes, spatial concepts)
-   - "d3" for graphs, charts, data visualizations, trees, networks
-   - "css" for simple concept illustrations, flowcharts, step-by-step processes
-3. A structured narration script with 3-6 segments per section
-4. Any equations in LaTeX format
-5. Manim Python code that would render this concept as a clean animation
-
-CRITICAL: The "script.segments" array MUST have EXACTLY the same number of entries as "animationData.steps". Each segment narrates what happens in its corresponding step.
-
-Return a JSON object with this exact structure:
-{
-  "field": "mathematics" | "computer_science" | "biology" | "physics" | "chemistry" | "general",
-  "title": "Paper title",
-  "abstract": "One sentence summary",
-  "suggestedStyle": "minimal",
-  "totalDuration": 120,
-  "sections": [
-    {
-      "id": "section-1",
-      "title": "Section title",
-      "contentType": "equation" | "algorithm" | "biological_process" | "graph" | "diagram" | "concept",
-      "visualization": "katex" | "threejs" | "d3" | "css",
-      "concept": "One line description of the concept",
-      "narration": "Full narration text (all segments concatenated with spaces).",
-      "equations": ["\\\\LaTeX equation here"],
-      "manimCode": "from manim import *\\n\\nclass ConceptScene(Scene):\\n    def construct(self):\\n        ...",
-      "script": {
-        "sectionId": "section-1",
-        "fullText": "Full narration text (all segments concatenated with spaces).",
-        "segments": [
-          {
-            "id": "seg-1-1",
-            "text": "First narration sentence describing what appears on screen.",
-            "stepId": "step-1",
-            "estimatedDuration": 4,
-            "startTime": 0,
-            "endTime": 0,
-            "emphasis": ["key term"],
-            "pacing": "normal"
-          },
-          {
-            "id": "seg-1-2",
-            "text": "Second sentence explaining the next visual change.",
-            "stepId": "step-2",
-            "estimatedDuration": 5,
-            "startTime": 0,
-            "endTime": 0,
-            "emphasis": ["another term"],
-            "pacing": "normal"
-          }
-        ],
-        "totalDuration": 0
-      },
-      "animationData": {
-        "type": "d3" | "threejs" | "css" | "katex",
-        "config": {},
-        "steps": [
-          {
-            "id": "step-1",
-            "description": "Introduce the core concept with a labeled diagram",
-            "duration": 4,
-            "elements": [
-              {
-                "type": "shape",
-                "props": { "content": "Core Concept", "x": 300, "y": 60, "width": 160, "height": 50, "color": "#818CF8", "shape": "rect" },
-                "animation": { "enter": "scale", "continuous": "pulse", "exit": "fadeOut", "duration": 0.8, "delay": 0 }
-              },
-              {
-                "type": "arrow",
-                "props": { "content": "leads to", "x1": 300, "y1": 110, "x2": 300, "y2": 170, "color": "#60A5FA" },
-                "animation": { "enter": "draw", "continuous": "none", "exit": "fadeOut", "duration": 0.6, "delay": 0.3 }
-              },
-              {
-                "type": "highlight",
-                "props": { "content": "Key finding", "x": 300, "y": 200, "color": "#FBBF24" },
-                "animation": { "enter": "fadeIn", "continuous": "float", "exit": "scaleDown", "duration": 0.6, "delay": 0.6 }
-              },
-              {
-                "type": "text",
-                "props": { "content": "Supporting explanation", "x": 300, "y": 260, "color": "#94A3B8", "size": 14 },
-                "animation": { "enter": "slideUp", "continuous": "sway", "exit": "slideDown", "duration": 0.6, "delay": 0.9 }
-              }
-            ]
-          },
-          {
-            "id": "step-2",
-            "description": "Show the relationship between two entities",
-            "duration": 5,
-            "elements": [
-              {
-                "type": "node",
-                "props": { "content": "A", "x": 150, "y": 130, "color": "#818CF8", "size": 22 },
-                "animation": { "enter": "scale", "continuous": "float", "exit": "scaleDown", "duration": 0.6, "delay": 0 }
-              },
-              {
-                "type": "node",
-                "props": { "content": "B", "x": 450, "y": 130, "color": "#34D399", "size": 22 },
-                "animation": { "enter": "scale", "continuous": "float", "exit": "scaleDown", "duration": 0.6, "delay": 0.2 }
-              },
-              {
-                "type": "arrow",
-                "props": { "content": "transforms", "x1": 180, "y1": 130, "x2": 420, "y2": 130, "color": "#F39C12" },
-                "animation": { "enter": "draw", "continuous": "none", "exit": "fadeOut", "duration": 0.8, "delay": 0.5 }
-              },
-              {
-                "type": "text",
-                "props": { "content": "Relationship description", "x": 300, "y": 210, "color": "#E2E8F0", "size": 16 },
-                "animation": { "enter": "fadeIn", "continuous": "sway", "exit": "slideDown", "duration": 0.6, "delay": 0.8 }
-              }
-            ]
-          }
-        ]
-      }
+  const keyParts = {
+    text: sourceDocument ? formatDocumentForPrompt(sourceDocument) : pdfText,
+    narratorPerspective,
+    analysisSettings,
+    model: describeModel(options.llm),
+    promptVersions: resolvePromptVersions(ANALYSIS_PROMPTS, options.promptVersions),
+  };
+  const meter = options.meter ?? new UsageMeter();
+  const usage: UsageScope = { operation: 'analysis', meter };
+  let computed = false;
+  const analysis = await cached('analysis', keyParts, options.bypassCache, () => {
+    computed = true;
+    return runAnalysis(pdfText, narratorPerspective, analysisSettings, sourceDocument, { ...options, promptVersions: keyParts.promptVersions }, usage);
+  }, () => recordCacheHit(usage, keyParts.model));
+  if (!computed) {
+    options.onProgress?.({ phase: 'finalizing', completed: 1, total: 1, message: 'Loaded cached analysis' });
+    analysis.sections.forEach((section, index) => options.onSection?.(section, index, analysis.sections.length));
+  }
+  // Usage describes this request, so it is attached after the cache
+  return { ...analysis, usage: meter.summary(), promptVersions: keyParts.promptVersions };
+}
+
+/** What the outline and section prompts know about the source */
+interface SourceContext {
+  paperText: string;           // the paper, or a digest of its chunks when too long
+  paperHeading: string;        // introduces paperText in prompts
+  doc?: ExtractedDocument;     // structured source the chunks were cut from
+  chunks?: DocumentChunk[];
+  sourceDocument?: ExtractedDocument;
+  pageCount?: number;
+  hasSourceEquations: boolean;
+  hasFigureImages: boolean;
+  hasSourceTables: boolean;
+  citationIndex: SourceIndex;  // checks the quotes segments cite
+}
+
+function describeSource(pdfText: string, sourceDocument: ExtractedDocument | undefined): SourceContext {
+  return {
+    // Prefer the structured rendering so headings and page markers survive
+    paperText: sourceDocument ? formatDocumentForPrompt(sourceDocument) : pdfText,
+    paperHeading: 'Research Paper Text:',
+    sourceDocument,
+    pageCount: sourceDocument?.pageCount,
+    hasSourceEquations: (sourceDocument?.equations?.length ?? 0) > 0,
+    hasFigureImages: !!sourceDocument?.figures?.some((f) => figureImage(sourceDocument, f.id)),
+    hasSourceTables: (sourceDocument?.tables?.length ?? 0) > 0,
+    citationIndex: buildSourceIndex(sourceDocument ?? buildTextDocument(pdfText)),
+  };
+}
+
+async function prepareSource(
+  pdfText: string,
+  sourceDocument: ExtractedDocument | undefined,
+  { onProgress, llm = {}, signal, promptVersions }: AnalyzeOptions,
+  usage: UsageScope
+): Promise<SourceContext> {
+  const context = describeSource(pdfText, sourceDocument);
+
+  // Too long for one prompt: summarize each chunk, then outline over the summaries
+  if (context.paperText.length > SINGLE_PASS_CHARS) {
+    const doc = sourceDocument ?? buildTextDocument(pdfText);
+    const chunks = chunkDocument(doc);
+    let completed = 0;
+    onProgress?.({ phase: 'summarizing', completed, total: chunks.length, message: `Summarizing ${chunks.length} parts of the paper` });
+    const summaries = await mapWithConcurrency(chunks, SUMMARY_CONCURRENCY, async (chunk, index) => {
+      const summary = await summarizeChunk(doc, chunk, index, chunks.length, { llm, signal, promptVersions }, usage);
+      completed++;
+      onProgress?.({ phase: 'summarizing', completed, total: chunks.length, message: `Summarized ${describeChunk(chunk.chunk)}` });
+      return summary;
+    });
+    context.paperText = formatChunkDigest(doc, chunks, summaries);
+    context.paperHeading = 'Research Paper Digest (the paper was too long to include in full; each part is summarized below):';
+    context.doc = doc;
+    context.chunks = chunks;
+  }
+
+  return context;
+}
+
+/**
+ * The paper text a section is written from: for chunked papers, the full
+ * text of the parts the outline says it draws on; otherwise the paper.
+ */
+function formatSectionSource(source: SourceContext, entry: OutlineSection): { heading: string; text: string } {
+  const { chunks, doc } = source;
+  if (chunks && doc) {
+    const pages = sanitizeSourcePages(entry.sourcePages, source.pageCount);
+    const ids = resolveChunkRefs(entry.sourceChunks, chunks.map(({ chunk }) => chunk), pages) ?? [];
+    const picked = chunks.filter(({ chunk }) => ids.includes(chunk.id));
+    if (picked.length > 0) {
+      const sectionIds = new Set(picked.flatMap(({ chunk }) => chunk.sectionIds));
+      return {
+        heading: 'Paper excerpt this section is drawn from:',
+        text: [
+          ...picked.map(({ chunk, text }) => `## ${describeChunk(chunk)}\n${text}`),
+          ...formatReferenceLists(doc, sectionIds),
+        ].join('\n').trim(),
+      };
     }
-  ]
-}
-
-IMPORTANT RULES:
-- Extract 3-6 key concepts maximum (enough for a ~2 minute video)
-- CRITICAL: Each section's script.segments array MUST have the SAME length as animationData.steps
-- Each segment's stepId MUST match the corresponding step's id (seg-X-1 → step-1, seg-X-2 → step-2, etc.)
-- Each step's duration should match its corresponding segment's estimatedDuration
-- For estimatedDuration: assume ~150 words per minute. A 10-word sentence ≈ 4 seconds
-- The narration field should be the concatenation of all segment texts
-- script.fullText should equal narration
-- Set startTime and endTime to 0 (they will be computed client-side)
-- Set script.totalDuration to 0 (it will be computed client-side)
-- pacing options: "normal", "pause-before" (adds 0.5s pause before), "pause-after" (adds 0.5s pause after)
-- emphasis: list 1-2 key terms from each segment for caption highlighting
-- Write narration segments in a clear, educational, conversational tone
-${perspectiveText}
-${settingsInstructions}
-- Each segment should describe what the viewer is seeing on screen
-- Use clean color schemes: blues (#4A90E2, #818CF8, #60A5FA), greens (#27AE60, #34D399), purples (#8E44AD, #A78BFA), ambers (#F39C12, #FBBF24), pinks (#F472B6)
-- For equations, always provide valid LaTeX
-- For Manim code, generate complete, runnable Manim Community Edition code
-- Make sure the JSON is valid and parseable
-
-VISUAL RICHNESS RULES:
-- Each animation step MUST contain 3-5 elements. A step with only 1 element is NOT acceptable.
-- Use a MIX of element types per step: combine shapes + text + arrows, or nodes + edges + highlights, or shapes + highlights + text.
-- For concepts: Use "shape" elements as labeled boxes for key ideas, "arrow" elements to show cause-effect or flow, "highlight" elements for key terms, and "text" for explanations.
-- For graphs/data: Use "node" and "edge" elements for network relationships, "shape" with "bar" for data comparisons, "arrow" for trends and directions.
-- For processes/algorithms: Use "node" elements for states/steps, "arrow" elements for transitions between them, "text" for labels, "highlight" for the current active step.
-- ALWAYS include coordinates (x, y) for positioning elements. Use a canvas of roughly 600x300. Space elements apart to avoid overlap.
-- ALWAYS include arrows or lines to show relationships and flow between elements. Do not leave elements isolated.
-- Use diverse enter animations: alternate between "fadeIn", "slideUp", "slideRight", "scale", and "draw" within the same step for visual interest.
-- Stagger delays: use increasing delay values (0, 0.2, 0.4, 0.6...) so elements appear sequentially, not all at once.
-
-ANIMATION LIFECYCLE RULES:
-- Each element MUST specify a "continuous" animation: "float", "pulse", "rotate", "sway", or "none"
-- Each element SHOULD specify an "exit" animation: "fadeOut", "slideDown", "scaleDown", "slideLeft", or "none"
-- Use "float" for nodes and shapes to give them a gentle hovering effect
-- Use "pulse" for highlights and important elements to draw attention
-- Use "sway" for text elements to add subtle life
-- Use "rotate" sparingly, mainly for loading indicators or circular concepts
-- Use "none" for arrows and connectors that should remain static
-- For exit: "fadeOut" is the default, use "slideDown" for bottom elements, "scaleDown" for nodes
-- IMPORTANT: Only ONE step is visible at a time. Each step fully replaces the previous one with enter/exit transitions.
-
-KEYFRAME ANIMATION RULES (OPTIONAL — for advanced motion):
-- Each element's "animation" object can optionally include a "keyframes" array for smooth intra-step motion
-- Keyframes are time-based within a step: time 0 = step start, time 1 = step end
-- Each keyframe can specify: time, x, y, opacity, scale, rotateZ, color, easing
-- Available easing values: "linear", "easeIn", "easeOut", "easeInOut", "backOut", "cubicOut", "spring", "bounceOut", "elasticOut", or GSAP names like "power2.inOut", "back.out(1.7)", "elastic.out(1, 0.3)"
-- Common patterns:
-  - Slide in: [{ "time": 0, "y": 340, "opacity": 0, "easing": "backOut" }, { "time": 0.3, "y": 150, "opacity": 1 }, { "time": 1, "y": 150, "opacity": 1 }]
-  - Move across: [{ "time": 0, "x": 100, "y": 150, "easing": "easeInOut" }, { "time": 0.5, "x": 300, "y": 100 }, { "time": 1, "x": 500, "y": 150 }]
-- If no keyframes provided, the system auto-generates them from enter/exit (full backward compat)
-- Use keyframes when elements should MOVE within their step, not just enter and hold
-
-3D SCENE RULES (for "threejs" visualization):
-- For threejs, include "threeElements" array and "cameraTrack" in animationData.config
-- threeElement: { geometry, position: [x,y,z], color, label?, material?, keyframes? }
-- Geometries: "sphere", "box", "cylinder", "torus", "cone", "plane", "ring", "dodecahedron", "octahedron"
-- Materials: "standard", "physical", "wireframe", "glass", "toon"
-- Position range: [-3, 3] per axis. Include 3-6 threeElements per scene
-- cameraTrack: array of { time, position: [x,y,z], lookAt?: [x,y,z], fov?, easing? }
-- Example threejs config:
-  "config": { "threeElements": [{ "geometry": "sphere", "position": [0,0,0], "color": "#818CF8", "label": "Core", "material": "physical" }, { "geometry": "box", "position": [2,0,0], "color": "#34D399" }], "cameraTrack": [{ "time": 0, "position": [0,0,8], "lookAt": [0,0,0], "fov": 50 }, { "time": 1, "position": [2,1,6], "lookAt": [0,0,0], "fov": 45 }] }
-
-VISUALIZATION-SPECIFIC GUIDANCE:
-- For "css" visualization: Focus on shapes (boxes, badges), arrows (flow connections), highlights (key terms), and text (labels). Create flowchart-like layouts with clear visual hierarchy. Include x/y coordinates for precise element positioning on a 600x300 canvas.
-- For "d3" visualization: Use nodes + edges for network graphs. Use shapes with "bar" for charts. Include text labels for axes. Use arrows for directed relationships.
-- For "katex" visualization: The equations array handles rendering. But also include shape/highlight/text elements in animationData steps to accompany each equation reveal with visual context.
-- For "threejs" visualization: Include threeElements and cameraTrack in config for data-driven 3D scenes. Also include text/shape elements in steps for pacing.
-
-Research Paper Text:
-${pdfText.substring(0, 30000)}
+  }
+  return { heading: source.paperHeading, text: source.paperText };
+}
 
-Return ONLY the JSON object, no markdown formatting or code blocks.`;
+function buildOutlinePrompt(source: SourceContext, analysisSettings: AnalysisSettings, promptVersions?: PromptVersions): string {
+  const { chunks, pageCount, hasSourceEquations } = source;
+  return renderPrompt('outline', {
+    paperHeading: source.paperHeading,
+    paperText: source.paperText,
+    audienceRules: audienceFor(analysisSettings.audienceLevel).outline,
+    languageRule: languageInstruction(analysisSettings.language, '"title", "abstract", and each section\'s "title" and "concept"'),
+    includeEquations: analysisSettings.includeEquations !== false,
+    hasSourceEquations,
+    pageCount: pageCount ?? 0,
+    chunked: chunks !== undefined,
+    chunkCount: chunks?.length ?? 0,
+  }, promptVersions).text;
+}
+
+function buildSectionPrompt(
+  source: SourceContext,
+  outline: AnalysisOutline,
+  index: number,
+  narratorPerspective: string,
+  analysisSettings: AnalysisSettings,
+  guidance?: string,
+  promptVersions?: PromptVersions
+): string {
+  const entry = outline.sections[index];
+  const paper = formatSectionSource(source, entry);
+  const audience = audienceFor(analysisSettings.audienceLevel);
+  const verbatimEquations = source.sourceDocument ? resolveEquationRefs(source.sourceDocument, entry.equationRefs) : [];
+
+  return renderPrompt('section', {
+    sectionNumber: index + 1,
+    sectionCount: outline.sections.length,
+    sectionId: entry.id,
+    paperTitle: outline.title,
+    outline: outline.sections
+      .map((s, i) => `${i + 1}. ${s.title}: ${s.concept}${i === index ? '  <-- this section' : ''}`)
+      .join('\n'),
+    title: entry.title,
+    contentType: entry.contentType,
+    visualization: entry.visualization,
+    concept: entry.concept,
+    equations: verbatimEquations.map((latex) => `- ${latex}`).join('\n'),
+    guidance: guidance || '',
+    isFirstSection: index === 0,
+    perspective: perspectiveInstructions[narratorPerspective] || perspectiveInstructions['first-person'],
+    audienceRules: audience.section,
+    languageRule: languageInstruction(
+      analysisSettings.language,
+      '"narration", "script.fullText", every segment\'s "text" and "emphasis", and all on-screen text (text and label "content")'
+    ),
+    pacingRule: pacingInstruction(analysisSettings.language, audience.wordsPerMinute),
+    detailedStyle: analysisSettings.visualStyle === 'detailed',
+    includeEquations: analysisSettings.includeEquations !== false,
+    includeCode: analysisSettings.includeCode !== false,
+    targetSeconds: analysisSettings.animationDuration ?? 0,
+    lightColors: analysisSettings.colorScheme === 'light',
+    fieldColors: analysisSettings.colorScheme === 'field-specific',
+    visualizationGuidance: VISUALIZATION_GUIDANCE[entry.visualization],
+    hasSourceEquations: source.hasSourceEquations,
+    hasFigureImages: source.hasFigureImages,
+    hasSourceTables: source.hasSourceTables,
+    pageCount: source.pageCount ?? 0,
+    isThreejs: entry.visualization === 'threejs',
+    paperHeading: paper.heading,
+    paperText: paper.text,
+  }, promptVersions).text;
+}
 
-  const result = await withGeminiRetry(() => model.generateContent(prompt));
-  const text = result.response.text();
+/**
+ * Generate JSON for `prompt` and validate it, sending schema errors back to
+ * the model until the reply validates or the repairs run out.
+ */
+async function generateValidated<T>(
+  prompt: string,
+  validate: (text: string) => ValidationResult<T>,
+  kind: RepairKind,
+  label: string,
+  { llm, signal, usage, maxRepairs, onRepair }: {
+    llm: LLMCallOptions;
+    signal?: AbortSignal;
+    usage: UsageScope;
+    maxRepairs: number;
+    onRepair?: (attempt: number, errors: SchemaIssue[]) => void;
+  }
+): Promise<T> {
+  let text = await generateText(prompt, llm, { json: true, signal, usage });
+  let validation = validate(stripCodeFence(text));
+
+  for (let attempt = 1; !validation.value && attempt <= maxRepairs; attempt++) {
+    console.warn(`${label} failed validation (repair ${attempt} of ${maxRepairs}):\n${formatSchemaIssues(validation.errors)}`);
+    onRepair?.(attempt, validation.errors);
+    text = await generateText(buildRepairPrompt(text, validation.errors, kind), llm, { json: true, signal, usage });
+    validation = validate(stripCodeFence(text));
+  }
 
-  // Clean up the response - remove markdown code blocks if present
-  let cleanJson = text.trim();
-  if (cleanJson.startsWith('```')) {
-    cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  if (!validation.value) {
+    console.error('Raw response:', text.substring(0, 500));
+    throw new Error(`${label} did not match the expected format:\n${formatSchemaIssues(validation.errors, 5)}`);
   }
+  if (validation.coercions.length > 0) {
+    console.warn(`Coerced ${validation.coercions.length} fields of ${label}:\n${formatSchemaIssues(validation.coercions)}`);
+  }
+  return validation.value;
+}
 
-  try {
-    const analysis: AnalysisResult = JSON.parse(cleanJson);
+export interface SectionRegenerationRequest {
+  outline: AnalysisOutline;    // the current analysis; the target section keeps its title and concept
+  sectionIndex: number;
+  pdfText: string;
+  sourceDocument?: ExtractedDocument;
+  narratorPerspective?: string;
+  analysisSettings?: AnalysisSettings;
+  guidance?: string;           // e.g. "use a tree diagram instead"
+}
 
-    // Ensure all sections have IDs and validate/fix scripts
-    analysis.sections = analysis.sections.map((section, index) => {
-      const id = section.id || `section-${index + 1}`;
-      const fixedSection = { ...section, id };
+/**
+ * Write a fresh script and animation for one section of an existing
+ * analysis, optionally steered by the user's guidance, and return the
+ * validated replacement. The rest of the outline goes into the prompt so
+ * the section still fits between its neighbours. Not cached: asking again
+ * should give a different take.
+ */
+export async function regenerateSection(
+  {
+    outline,
+    sectionIndex,
+    pdfText,
+    sourceDocument,
+    narratorPerspective = 'first-person',
+    analysisSettings = {},
+    guidance,
+  }: SectionRegenerationRequest,
+  { llm = {}, signal, meter, promptVersions }: GenerationOptions = {}
+): Promise<PaperSection> {
+  const entry = outline.sections[sectionIndex];
+  if (!entry) {
+    throw new Error(`Section ${sectionIndex + 1} does not exist`);
+  }
 
-      // Ensure narration is populated from script if available
-      if (fixedSection.script && !fixedSection.narration) {
-        fixedSection.narration = fixedSection.script.fullText;
-      }
+  // Long papers are not summarized again: the section is written from the
+  // chunks it was drawn from, and the start of the paper otherwise
+  const source = describeSource(pdfText, sourceDocument);
+  if (source.paperText.length > SINGLE_PASS_CHARS) {
+    source.doc = sourceDocument ?? buildTextDocument(pdfText);
+    source.chunks = chunkDocument(source.doc);
+    source.paperText = source.paperText.slice(0, SINGLE_PASS_CHARS);
+    source.paperHeading = 'Research Paper Text (the beginning; the paper was too long to include in full):';
+  }
+
+  const content = await generateValidated(
+    buildSectionPrompt(source, outline, sectionIndex, narratorPerspective, analysisSettings, guidance?.trim() || undefined, promptVersions),
+    validateSectionJson,
+    'section',
+    `Section "${entry.title}"`,
+    { llm, signal, usage: { operation: 'section', meter }, maxRepairs: MAX_REPAIR_ATTEMPTS }
+  );
+  return finalizeSection({ ...entry, ...content }, sectionIndex, source);
+}
 
-      // Validate segment-step alignment and regenerate narration when needed
-      if (fixedSection.script && fixedSection.animationData) {
-        const segCount = fixedSection.script.segments.length;
-        const stepCount = fixedSection.animationData.steps.length;
-        const uniqueTexts = new Set(
-          fixedSection.script.segments
-            .map((seg) => (seg.text || '').trim().toLowerCase())
-            .filter(Boolean)
-        );
-        const shouldRegenerate = segCount !== stepCount || segCount === 0 || uniqueTexts.size <= 1;
-
-        if (shouldRegenerate) {
-          fixedSection.script = alignSegmentsToSteps(
-            fixedSection.script,
-            fixedSection.animationData,
-            fixedSection.narration,
-            id,
-            fixedSection.title,
-            fixedSection.concept
-          );
-        } else {
-          // Even when counts match, sync durations & pacing with animation steps
-          fixedSection.script.segments = fixedSection.script.segments.map((segment, segmentIndex) => {
-            const step = fixedSection.animationData!.steps[segmentIndex];
-            const textWordCount = segment.text
-              ? segment.text.split(/\s+/).filter(Boolean).length
-              : 0;
-            const estimatedFromText = textWordCount > 0
-              ? Math.max(2.5, (textWordCount / 150) * 60)
-              : 4;
-            return {
-              ...segment,
-              stepId: step.id,
-              estimatedDuration: step.duration || segment.estimatedDuration || estimatedFromText,
-            };
-          });
-          fixedSection.script.fullText = fixedSection.script.segments.map((seg) => seg.text).join(' ');
-          fixedSection.script.totalDuration = 0;
+/**
+ * Two passes: a cheap outline call picks the sections, then each section's
+ * script and animation are written by their own call, several at a time.
+ * `onSection` fires as each section is finished, in whatever order they
+ * complete.
+ */
+async function runAnalysis(
+  pdfText: string,
+  narratorPerspective: string,
+  analysisSettings: AnalysisSettings,
+  sourceDocument: ExtractedDocument | undefined,
+  options: AnalyzeOptions,
+  usage: UsageScope
+): Promise<AnalysisResult> {
+  const { onProgress, onSection, llm = {}, signal, promptVersions, maxRepairs = MAX_REPAIR_ATTEMPTS } = options;
+  const source = await prepareSource(pdfText, sourceDocument, options, usage);
+  const sourceChunks = source.chunks?.map(({ chunk }) => chunk);
+
+  onProgress?.({ phase: 'planning', completed: 0, total: 1, message: 'Outlining the paper' });
+  const outline = await generateValidated(
+    buildOutlinePrompt(source, analysisSettings, promptVersions),
+    validateOutlineJson,
+    'outline',
+    'Paper outline',
+    {
+      llm,
+      signal,
+      usage,
+      maxRepairs,
+      onRepair: (attempt, errors) => onProgress?.({ phase: 'repairing', completed: attempt - 1, total: maxRepairs, message: `Repairing ${errors.length} outline errors` }),
+    }
+  );
+  outline.sections.forEach((entry, index) => {
+    entry.id = entry.id || `section-${index + 1}`;
+  });
+
+  const total = outline.sections.length;
+  onProgress?.({ phase: 'scripting', completed: 0, total, message: `Writing ${total} sections` });
+
+  // One failed section fails the analysis, so stop writing the others
+  const stopSections = new AbortController();
+  const sectionSignal = signal ? AbortSignal.any([signal, stopSections.signal]) : stopSections.signal;
+
+  const sections = await mapWithConcurrency(outline.sections, SECTION_CONCURRENCY, async (entry, index) => {
+    try {
+      const content = await generateValidated(
+        buildSectionPrompt(source, outline, index, narratorPerspective, analysisSettings, undefined, promptVersions),
+        validateSectionJson,
+        'section',
+        `Section "${entry.title}"`,
+        {
+          llm,
+          signal: sectionSignal,
+          usage,
+          maxRepairs,
+          onRepair: (attempt, errors) => onProgress?.({ phase: 'repairing', completed: attempt - 1, total: maxRepairs, message: `Repairing ${errors.length} errors in "${entry.title}"` }),
         }
-      }
+      );
+      const section = finalizeSection(
+        { ...entry, ...content, equationRefs: content.equationRefs ?? entry.equationRefs },
+        index,
+        source
+      );
+      onSection?.(section, index, total);
+      return section;
+    } catch (error) {
+      stopSections.abort();
+      throw error;
+    }
+  });
 
-      // Ensure script metadata stays in sync
-      if (fixedSection.script) {
-        fixedSection.script.sectionId = id;
-        fixedSection.narration = fixedSection.script.fullText || fixedSection.narration;
-      }
+  const analysis: AnalysisResult = {
+    field: outline.field,
+    title: outline.title,
+    abstract: outline.abstract,
+    suggestedStyle: outline.suggestedStyle,
+    totalDuration: outline.totalDuration,
+    sections,
+  };
+  if (analysisSettings.language) {
+    analysis.language = getLanguage(analysisSettings.language).code;
+  }
+  if (source.pageCount) {
+    analysis.sourcePageCount = source.pageCount;
+  }
+  if (sourceChunks) {
+    analysis.sourceChunks = sourceChunks;
+  }
 
-      return fixedSection;
-    });
+  return analysis;
+}
 
-    ensureThreeVisuals(analysis.sections);
+/** Resolve references against the source and make the script match the steps */
+function finalizeSection(
+  section: PaperSection & { equationRefs?: unknown },
+  index: number,
+  { sourceDocument, pageCount, chunks, citationIndex }: SourceContext
+): PaperSection {
+  const id = section.id || `section-${index + 1}`;
+  const fixedSection = resolveTableElements(validateImageElements({ ...section, id }, sourceDocument), sourceDocument);
+  const sourceChunks = chunks?.map(({ chunk }) => chunk);
+
+  // Keep only valid page references, falling back to a heading match
+  const pages = sanitizeSourcePages(section.sourcePages, pageCount)
+    ?? (sourceDocument ? findPagesForTitle(sourceDocument, section.title) : undefined);
+
+  // Chunked runs record which parts each section came from
+  if (sourceChunks) {
+    fixedSection.sourceChunks = resolveChunkRefs(section.sourceChunks, sourceChunks, pages);
+    fixedSection.sourcePages = pages
+      ?? (fixedSection.sourceChunks ? pagesOfChunks(sourceChunks, fixedSection.sourceChunks) : undefined);
+  } else {
+    fixedSection.sourcePages = pages;
+    delete fixedSection.sourceChunks;
+  }
 
-    return analysis;
-  } catch (e) {
-    console.error('Failed to parse Gemini response:', e);
-    console.error('Raw response:', text.substring(0, 500));
-    throw new Error('Failed to parse paper analysis. Please try again.');
+  // Swap model-typed equations for the author's LaTeX when ids were given
+  const equationRefs = section.equationRefs;
+  delete (fixedSection as { equationRefs?: unknown }).equationRefs;
+  if (sourceDocument && equationRefs) {
+    const verbatim = resolveEquationRefs(sourceDocument, equationRefs);
+    if (verbatim.length > 0) {
+      fixedSection.equations = verbatim;
+    }
   }
+
+  // Ensure narration is populated from script if available
+  if (fixedSection.script && !fixedSection.narration) {
+    fixedSection.narration = fixedSection.script.fullText;
+  }
+
+  // Validate segment-step alignment and regenerate narration when needed
+  if (fixedSection.script && fixedSection.animationData) {
+    const segCount = fixedSection.script.segments.length;
+    const stepCount = fixedSection.animationData.steps.length;
+    const uniqueTexts = new Set(
+      fixedSection.script.segments
+        .map((seg) => (seg.text || '').trim().toLowerCase())
+        .filter(Boolean)
+    );
+    const shouldRegenerate = segCount !== stepCount || segCount === 0 || uniqueTexts.size <= 1;
+
+    if (shouldRegenerate) {
+      fixedSection.script = alignSegmentsToSteps(
+        fixedSection.script,
+        fixedSection.animationData,
+        fixedSection.narration,
+        id,
+        fixedSection.title,
+        fixedSection.concept
+      );
+    } else {
+      // Even when counts match, sync durations & pacing with animation steps
+      fixedSection.script.segments = fixedSection.script.segments.map((segment, segmentIndex) => {
+        const step = fixedSection.animationData!.steps[segmentIndex];
+        const textWordCount = segment.text
+          ? segment.text.split(/\s+/).filter(Boolean).length
+          : 0;
+        const estimatedFromText = textWordCount > 0
+          ? Math.max(2.5, (textWordCount / 150) * 60)
+          : 4;
+        return {
+          ...segment,
+          stepId: step.id,
+          estimatedDuration: step.duration || segment.estimatedDuration || estimatedFromText,
+        };
+      });
+      fixedSection.script.fullText = fixedSection.script.segments.map((seg) => seg.text).join(' ');
+      fixedSection.script.totalDuration = 0;
+    }
+  }
+
+  // Ensure script metadata stays in sync
+  if (fixedSection.script) {
+    fixedSection.script.sectionId = id;
+    fixedSection.narration = fixedSection.script.fullText || fixedSection.narration;
+    fixedSection.script = verifyScriptCitations(fixedSection.script, citationIndex);
+  }
+
+  enhanceThreeScene(fixedSection, index);
+  return fixedSection;
 }
 
 function splitIntoSentences(text: string): string[] {
@@ -569,76 +895,260 @@ function alignSegmentsToSteps(
 
 export async function generateAnimationCode(
   section: PaperSection,
-  engine: 'threejs' | 'd3' | 'css' | 'manim'
+  engine: 'threejs' | 'd3' | 'css' | 'manim',
+  { llm = {}, bypassCache, signal, meter, promptVersions }: GenerationOptions = {}
 ): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-  const prompt = `Generate ${engine} code for this educational concept visualization.
-
-Concept: ${section.concept}
-Content Type: ${section.contentType}
-Narration: ${section.narration}
-${section.equations ? `Equations: ${section.equations.join(', ')}` : ''}
-
-Style Requirements:
-- Clean, minimal, educational (white/light background)
-- No flashy effects - smooth, slow transitions
-- Clear labels and annotations
-- Educational pacing
-- Colors: Blues (#4A90E2), Greens (#27AE60), clean palette
-
-${engine === 'threejs' ? `
-Generate a React Three Fiber component (JSX). Use @react-three/drei helpers.
-The component should accept an "animationProgress" prop (0-1) to control the animation state.
-Export default the component.
-` : engine === 'd3' ? `
-Generate a React component that uses D3.js for visualization.
-Use useRef for SVG element and useEffect for D3 rendering.
-The component should accept an "animationProgress" prop (0-1) to control the animation.
-SVG dimensions: 800x500.
-Export default the component.
-` : engine === 'manim' ? `
-Generate complete Manim Community Edition Python code.
-Use clean Scene with white background.
-Include smooth animations (Write, FadeIn, Transform).
-` : `
-Generate a React component using CSS animations and Framer Motion.
-Use clean, educational styling with Tailwind classes.
-The component should accept an "animationProgress" prop (0-1).
-Export default the component.
-`}
-
-Return ONLY the code, no explanations or markdown formatting.`;
-
-  const result = await withGeminiRetry(() => model.generateContent(prompt));
-  return result.response.text().trim();
+  const { text: prompt, version } = renderPrompt('animation-code', {
+    engine,
+    isThreejs: engine === 'threejs',
+    isD3: engine === 'd3',
+    isManim: engine === 'manim',
+    isCss: engine === 'css',
+    concept: section.concept,
+    contentType: section.contentType,
+    narration: section.narration,
+    equations: section.equations?.join(', ') || '',
+  }, promptVersions);
+
+  const keyParts = { prompt, model: describeModel(llm), promptVersion: version };
+  const usage: UsageScope = { operation: 'animation-code', meter };
+  return cached(
+    'animation-code',
+    keyParts,
+    bypassCache,
+    async () => (await generateText(prompt, llm, { signal, usage })).trim(),
+    () => recordCacheHit(usage, keyParts.model)
+  );
 }
 
-export async function regenerateNarration(
+const narrationPerspectiveHints: Record<string, string> = {
+  'first-person': 'Use first person perspective: "Let me explain...", "We can see that...", "Let us explore..."',
+  'third-person': 'Use third person perspective: "The paper shows...", "This demonstrates...", "The authors propose..."',
+  'instructor': 'Use instructor perspective: "Notice how...", "Consider the...", "You can see that..."',
+};
+
+// Han, kana and Thai characters: these scripts are written without spaces between words
+const SPACELESS_CHARS = /[\u0e00-\u0e7f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+
+/**
+ * Speaking time at ~150 words per minute. In spaceless scripts every two
+ * characters count as one word.
+ */
+function estimateSpeechDuration(text: string): number {
+  const spacelessCount = text.match(SPACELESS_CHARS)?.length ?? 0;
+  const wordCount = text.replace(SPACELESS_CHARS, ' ').split(/\s+/).filter(Boolean).length + spacelessCount / 2;
+  return Number(Math.max(2.5, (wordCount / 150) * 60).toFixed(1));
+}
+
+/** The section's animation steps, or one stand-in step when it has none */
+function narrationSteps(section: PaperSection): AnimationStep[] {
+  const steps = section.animationData?.steps;
+  if (steps && steps.length > 0) return steps;
+  return [{ id: 'step-1', description: section.concept || section.title, duration: 4, elements: [] }];
+}
+
+function describeStepForPrompt(step: AnimationStep, index: number): string {
+  const onScreen = extractStepHighlights(step);
+  return `Step ${index + 1} (id "${step.id}"): ${step.description || 'no description'}${
+    onScreen.length > 0 ? ` [on screen: ${onScreen.join(', ')}]` : ''
+  }`;
+}
+
+/**
+ * The segment that narrates `step`: the model's text when it gave some, with
+ * emphasis terms that actually occur in the text, and a duration estimated
+ * from the words rather than taken from the model.
+ */
+function buildStepSegment(
   section: PaperSection,
-  style: 'professional' | 'conversational' | 'academic',
-  perspective: string = 'first-person'
-): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+  step: AnimationStep,
+  index: number,
+  written: Partial<NarrationSegment> | undefined
+): NarrationSegment {
+  const text = buildSegmentNarration(step, written?.text?.trim(), section.concept, section.title, index);
+  const lower = text.toLowerCase();
+  const emphasis = (written?.emphasis || []).filter((term) => lower.includes(term.toLowerCase())).slice(0, 2);
 
-  const perspectiveMap: Record<string, string> = {
-    'first-person': 'Use first person perspective: "Let me explain...", "We can see that...", "Let us explore..."',
-    'third-person': 'Use third person perspective: "The paper shows...", "This demonstrates...", "The authors propose..."',
-    'instructor': 'Use instructor perspective: "Notice how...", "Consider the...", "You can see that..."',
+  return {
+    id: `seg-${section.id}-${index + 1}`,
+    text,
+    stepId: step.id,
+    estimatedDuration: estimateSpeechDuration(text),
+    startTime: 0,
+    endTime: 0,
+    emphasis: emphasis.length > 0 ? emphasis : buildEmphasis(step, text),
+    pacing: written?.pacing || 'normal',
+    citations: written?.citations,
   };
+}
+
+/**
+ * The verified quotes a rewrite may cite, one per line. The rewrite has no
+ * access to the paper, so it can only reuse passages already found in it;
+ * the caller re-verifies the result against the source.
+ */
+function describeQuotesForPrompt(quotes: string[]): string {
+  return quotes.map((quote) => `- "${quote}"`).join('\n');
+}
 
-  const perspectiveHint = perspectiveMap[perspective] || perspectiveMap['first-person'];
+/**
+ * Rewrite a section's narration as a new script with exactly one segment per
+ * animation step, so captions and the narration panel stay in step with the
+ * visuals.
+ */
+export async function regenerateNarration(
+  section: PaperSection,
+  style: 'professional' | 'conversational' | 'academic',
+  perspective: string = 'first-person',
+  { llm = {}, bypassCache, signal, meter, promptVersions, language }: NarrationOptions = {}
+): Promise<SectionScript> {
+  const steps = narrationSteps(section);
+  const { text: prompt, version } = renderPrompt('narration', {
+    style,
+    perspective: narrationPerspectiveHints[perspective] || narrationPerspectiveHints['first-person'],
+    title: section.title,
+    concept: section.concept,
+    equations: section.equations?.join(', ') || '',
+    stepCount: steps.length,
+    steps: steps.map(describeStepForPrompt).join('\n'),
+    firstStepId: steps[0].id,
+    currentNarration: section.script?.segments.map((segment, i) => `${i + 1}. ${segment.text}`).join('\n') || section.narration,
+    quotes: describeQuotesForPrompt(collectQuotes(section.script?.segments || [])),
+    languageRule: languageInstruction(language, 'every segment\'s "text" and "emphasis"'),
+  }, promptVersions);
+
+  const keyParts = { prompt, model: describeModel(llm), promptVersion: version };
+  const usage: UsageScope = { operation: 'narration', meter };
+  return cached('narration', keyParts, bypassCache, async () => {
+    const { segments: written } = await generateValidated(
+      prompt,
+      validateNarrationJson,
+      'narration',
+      `Narration of "${section.title}"`,
+      { llm, signal, usage, maxRepairs: MAX_REPAIR_ATTEMPTS }
+    );
+    const byStep = new Map(written.map((segment) => [segment.stepId, segment]));
+    const segments = steps.map((step, index) => buildStepSegment(section, step, index, byStep.get(step.id) ?? written[index]));
+    return {
+      sectionId: section.id,
+      fullText: segments.map((segment) => segment.text).join(' '),
+      segments,
+      totalDuration: 0,
+    };
+  }, () => recordCacheHit(usage, keyParts.model));
+}
 
-  const prompt = `Rewrite this educational narration in a ${style} tone.
-${perspectiveHint}
+/**
+ * Rewrite one segment of a section's script, keeping its step. The segments
+ * around it go into the prompt so the narration still reads continuously.
+ */
+export async function regenerateSegment(
+  section: PaperSection,
+  segmentIndex: number,
+  style: 'professional' | 'conversational' | 'academic',
+  perspective: string = 'first-person',
+  { llm = {}, bypassCache, signal, meter, promptVersions, language }: NarrationOptions = {}
+): Promise<NarrationSegment> {
+  const segments = section.script?.segments || [];
+  const current = segments[segmentIndex];
+  if (!current) {
+    throw new Error(`Segment ${segmentIndex + 1} does not exist`);
+  }
+  const steps = narrationSteps(section);
+  const stepIndex = Math.max(0, steps.findIndex((step) => step.id === current.stepId));
+  const step = steps[stepIndex] ?? steps[0];
+  const { text: prompt, version } = renderPrompt('segment', {
+    style,
+    perspective: narrationPerspectiveHints[perspective] || narrationPerspectiveHints['first-person'],
+    title: section.title,
+    concept: section.concept,
+    step: describeStepForPrompt(step, stepIndex),
+    previousText: segments[segmentIndex - 1]?.text || '',
+    currentText: current.text,
+    nextText: segments[segmentIndex + 1]?.text || '',
+    quotes: describeQuotesForPrompt(collectQuotes(segments.slice(Math.max(0, segmentIndex - 1), segmentIndex + 2))),
+    languageRule: languageInstruction(language, '"text" and "emphasis"'),
+  }, promptVersions);
+
+  const keyParts = { prompt, model: describeModel(llm), promptVersion: version };
+  const usage: UsageScope = { operation: 'narration', meter };
+  return cached('narration-segment', keyParts, bypassCache, async () => {
+    const written = await generateValidated(
+      prompt,
+      validateSegmentJson,
+      'segment',
+      `Segment ${segmentIndex + 1} of "${section.title}"`,
+      { llm, signal, usage, maxRepairs: MAX_REPAIR_ATTEMPTS }
+    );
+    return { ...buildStepSegment(section, step, segmentIndex, written), id: current.id };
+  }, () => recordCacheHit(usage, keyParts.model));
+}
 
-Original concept: ${section.concept}
-Original narration: ${section.narration}
-${section.equations ? `Related equations: ${section.equations.join(', ')}` : ''}
+// Section scripts translated at the same time
+const TRANSLATION_CONCURRENCY = 3;
 
-Write 2-3 sentences that clearly explain this concept. Keep it educational and clear.
-Return ONLY the narration text, nothing else.`;
+async function translateSectionScript(
+  script: SectionScript,
+  language: string,
+  { llm = {}, bypassCache, signal, meter, promptVersions }: GenerationOptions
+): Promise<SectionScript> {
+  const target = getLanguage(language);
+  const source = script.segments.map(({ id, text, emphasis }) => ({ id, text, emphasis: emphasis || [] }));
+  const { text: prompt, version } = renderPrompt('translation', {
+    languageName: target.name,
+    segments: JSON.stringify({ segments: source }, null, 2),
+    segmentCount: source.length,
+    firstSegmentId: source[0]?.id ?? 'seg-1',
+  }, promptVersions);
+
+  const keyParts = { prompt, model: describeModel(llm), promptVersion: version };
+  const usage: UsageScope = { operation: 'translation', meter };
+  return cached('translation', keyParts, bypassCache, async () => {
+    const { segments: translated } = await generateValidated(
+      prompt,
+      validateNarrationJson,
+      'translation',
+      `Translation of ${script.sectionId}`,
+      { llm, signal, usage, maxRepairs: MAX_REPAIR_ATTEMPTS }
+    );
+    const byId = new Map(translated.map((segment) => [segment.id, segment]));
+    const segments = script.segments.map((segment, index) => {
+      const written = byId.get(segment.id) ?? translated[index];
+      const text = written?.text.trim();
+      if (!text) {
+        throw new Error(`Translation of ${script.sectionId} is missing segment ${index + 1}`);
+      }
+      const emphasis = (written.emphasis || [])
+        .filter((term) => text.toLowerCase().includes(term.toLowerCase()))
+        .slice(0, 2);
+      return { ...segment, text, emphasis, estimatedDuration: estimateSpeechDuration(text) };
+    });
+    return retimeSectionScript({
+      ...script,
+      fullText: segments.map((segment) => segment.text).join(target.spaceless ? '' : ' '),
+      segments,
+    });
+  }, () => recordCacheHit(usage, keyParts.model));
+}
 
-  const result = await withGeminiRetry(() => model.generateContent(prompt));
-  return result.response.text().trim();
+/**
+ * Translate a presentation script's narration into `language` without
+ * re-running the analysis. Segments keep their ids, steps and pacing; their
+ * durations are re-estimated from the translated text and the timings
+ * recomputed. On-screen text in the animations is not translated.
+ */
+export async function translateScript(
+  script: PresentationScript,
+  language: string,
+  options: GenerationOptions = {}
+): Promise<PresentationScript> {
+  const sections = await mapWithConcurrency(script.sections, TRANSLATION_CONCURRENCY, (sectionScript) =>
+    sectionScript.segments.length > 0 ? translateSectionScript(sectionScript, language, options) : Promise.resolve(sectionScript)
+  );
+  const transitionsDuration = script.transitions.reduce((sum, transition) => sum + transition.duration, 0);
+  return {
+    ...script,
+    sections,
+    totalDuration: sections.reduce((sum, section) => sum + section.totalDuration, 0) + transitionsDuration,
+  };
 }
@@ -0,0 +1,69 @@
+'use client';
+
+/**
+ * Job Client
+ *
+ * Browser side of the analysis job API: start a job, follow its events over
+ * Server-Sent Events, cancel it.
+ */
+
+import { AnalysisJobSnapshot, JobEvent } from '@/types';
+
+const EVENT_TYPES: JobEvent['type'][] = ['phase', 'section', 'completed', 'failed', 'cancelled'];
+
+export interface JobWatchHandlers {
+  onEvent: (event: JobEvent) => void;
+  onError: (message: string) => void;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const body = await res.json().catch(() => ({}));
+  return typeof body.error === 'string' ? body.error : fallback;
+}
+
+export async function startAnalysisJob(formData: FormData): Promise<AnalysisJobSnapshot> {
+  const res = await fetch('/api/jobs', { method: 'POST', body: formData });
+  if (!res.ok) {
+    throw new Error(await readError(res, 'Analysis failed'));
+  }
+  return res.json();
+}
+
+/**
+ * Follow a job's events until it completes, fails or is cancelled. The
+ * browser reconnects dropped streams on its own, resuming from the last
+ * event id. Returns a function that stops watching.
+ */
+export function watchAnalysisJob(jobId: string, { onEvent, onError }: JobWatchHandlers): () => void {
+  const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+  let finished = false;
+
+  const handle = (message: MessageEvent<string>) => {
+    const event = JSON.parse(message.data) as JobEvent;
+    if (event.type === 'completed' || event.type === 'failed' || event.type === 'cancelled') {
+      finished = true;
+      source.close();
+    }
+    onEvent(event);
+  };
+
+  for (const type of EVENT_TYPES) source.addEventListener(type, handle);
+  source.onerror = () => {
+    // CLOSED means the browser gave up (e.g. the job no longer exists)
+    if (!finished && source.readyState === EventSource.CLOSED) {
+      onError('Lost connection to the analysis job');
+    }
+  };
+
+  return () => {
+    finished = true;
+    source.close();
+  };
+}
+
+export async function cancelAnalysisJob(jobId: string): Promise<void> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+  if (!res.ok && res.status !== 404) {
+    throw new Error(await readError(res, 'Failed to cancel analysis'));
+  }
+}
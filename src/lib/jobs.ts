@@ -0,0 +1,184 @@
+/**
+ * Analysis Jobs
+ *
+ * In-memory registry of running analyses for the job API. Each job keeps an
+ * ordered event log, so a Server-Sent Events client that connects late (or
+ * reconnects with Last-Event-ID) replays what it missed, and a snapshot for
+ * polling. Finished jobs are dropped after JOB_TTL_MS, checked every
+ * PRUNE_INTERVAL_MS even while no requests come in.
+ */
+
+import { randomUUID } from 'crypto';
+import { AnalysisJobSnapshot, AnalysisProgress, AnalysisResult, JobEvent, PaperSection } from '@/types';
+
+// Finished jobs stay readable this long
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+// How often expired jobs are looked for
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface JobContext {
+  signal: AbortSignal;
+  progress(progress: AnalysisProgress): void;
+  section(section: PaperSection, index: number, total: number): void;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+interface JobRecord {
+  snapshot: AnalysisJobSnapshot;
+  ready: Map<number, PaperSection>;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+  controller: AbortController;
+}
+
+export function isTerminalEvent(event: JobEvent): boolean {
+  return event.type === 'completed' || event.type === 'failed' || event.type === 'cancelled';
+}
+
+class JobStore {
+  private jobs = new Map<string, JobRecord>();
+
+  constructor() {
+    // Unref'd, so the timer alone does not keep the process alive
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  /** Start `run` in the background and return the new job's snapshot */
+  create(run: (ctx: JobContext) => Promise<AnalysisResult>): AnalysisJobSnapshot {
+    this.prune();
+
+    const now = Date.now();
+    const record: JobRecord = {
+      snapshot: {
+        id: randomUUID(),
+        status: 'running',
+        phase: 'queued',
+        message: 'Queued',
+        sections: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      ready: new Map(),
+      events: [],
+      listeners: new Set(),
+      controller: new AbortController(),
+    };
+    this.jobs.set(record.snapshot.id, record);
+
+    const ctx: JobContext = {
+      signal: record.controller.signal,
+      progress: ({ phase, completed, total, message }) =>
+        this.emit(record, { type: 'phase', phase, message, completed, total }),
+      section: (section, index, total) => {
+        record.ready.set(index, section);
+        this.emit(record, {
+          type: 'section',
+          phase: 'section',
+          message: `Section ${index + 1} of ${total} ready: ${section.title}`,
+          completed: record.ready.size,
+          total,
+          sectionIndex: index,
+          section,
+        });
+      },
+    };
+
+    // Defer so the caller can return the id before any work starts
+    setTimeout(() => {
+      run(ctx).then(
+        (result) => {
+          if (record.snapshot.status !== 'running') return;
+          this.emit(record, { type: 'completed', phase: 'done', message: 'Analysis complete', result });
+        },
+        (error) => {
+          if (record.snapshot.status !== 'running') return;
+          const message = error instanceof Error ? error.message : 'Analysis failed';
+          console.error(`Analysis job ${record.snapshot.id} failed:`, error);
+          this.emit(record, { type: 'failed', phase: record.snapshot.phase, message, error: message });
+        }
+      );
+    }, 0);
+
+    return { ...record.snapshot };
+  }
+
+  get(id: string): AnalysisJobSnapshot | undefined {
+    this.prune();
+    const record = this.jobs.get(id);
+    return record ? { ...record.snapshot } : undefined;
+  }
+
+  /** Events after `lastEventId` (all events when omitted) */
+  eventsSince(id: string, lastEventId: number = 0): JobEvent[] {
+    return this.jobs.get(id)?.events.filter((event) => event.id > lastEventId) ?? [];
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    this.prune();
+    const record = this.jobs.get(id);
+    if (!record) return () => {};
+    record.listeners.add(listener);
+    return () => record.listeners.delete(listener);
+  }
+
+  /** Abort a running job; returns undefined for unknown ids */
+  cancel(id: string): AnalysisJobSnapshot | undefined {
+    const record = this.jobs.get(id);
+    if (!record) return undefined;
+    if (record.snapshot.status === 'running') {
+      this.emit(record, { type: 'cancelled', phase: record.snapshot.phase, message: 'Analysis cancelled' });
+      record.controller.abort();
+    }
+    return { ...record.snapshot };
+  }
+
+  private emit(record: JobRecord, fields: Omit<JobEvent, 'id'>): void {
+    const event: JobEvent = { id: record.events.length + 1, ...fields };
+    record.events.push(event);
+
+    const snapshot = record.snapshot;
+    snapshot.phase = event.phase;
+    snapshot.message = event.message;
+    snapshot.completed = event.completed;
+    snapshot.total = event.total;
+    snapshot.updatedAt = Date.now();
+
+    // Expose only the ready prefix, so clients can play sections in order
+    const sections: PaperSection[] = [];
+    while (record.ready.has(sections.length)) sections.push(record.ready.get(sections.length)!);
+    snapshot.sections = sections;
+
+    if (event.type === 'completed') {
+      snapshot.status = 'completed';
+      snapshot.result = event.result;
+      snapshot.sections = event.result?.sections ?? sections;
+    } else if (event.type === 'failed') {
+      snapshot.status = 'failed';
+      snapshot.error = event.error;
+    } else if (event.type === 'cancelled') {
+      snapshot.status = 'cancelled';
+    }
+
+    for (const listener of record.listeners) listener(event);
+    if (isTerminalEvent(event)) record.listeners.clear();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [id, record] of this.jobs) {
+      if (record.snapshot.status !== 'running' && record.snapshot.updatedAt < cutoff) this.jobs.delete(id);
+    }
+  }
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one store
+const globalForJobs = globalThis as typeof globalThis & { analysisJobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  if (!globalForJobs.analysisJobStore) {
+    globalForJobs.analysisJobStore = new JobStore();
+  }
+  return globalForJobs.analysisJobStore;
+}
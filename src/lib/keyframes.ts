@@ -43,6 +43,38 @@ export function easeProgress(progress: number, easing: string = 'easeInOut'): nu
   return easeFn ? easeFn(clamped) : clamped;
 }
 
+// ============================================
+// Step Position
+// ============================================
+
+export interface StepPosition {
+  index: number;      // current step
+  progress: number;   // 0-1 within that step, for its keyframes
+}
+
+/**
+ * Where a section's visuals are: the step the narration is on, when the
+ * timeline names one of `stepIds`. Otherwise (no script, or a step id the
+ * section does not have) the section's progress is sliced evenly into steps.
+ */
+export function resolveStepPosition(
+  stepIds: string[],
+  sectionProgress: number,
+  activeStepId?: string,
+  stepProgress: number = 0
+): StepPosition {
+  if (stepIds.length === 0) return { index: 0, progress: 0 };
+
+  const active = activeStepId ? stepIds.indexOf(activeStepId) : -1;
+  if (active >= 0) {
+    return { index: active, progress: Math.max(0, Math.min(1, stepProgress)) };
+  }
+
+  const sliced = easeProgress(sectionProgress, 'easeInOut') * stepIds.length;
+  const index = Math.min(Math.floor(sliced), stepIds.length - 1);
+  return { index, progress: Math.min(1, sliced - index) };
+}
+
 // ============================================
 // Interpolated State Types
 // ============================================
@@ -59,6 +91,9 @@ export interface InterpolatedState {
   scaleZ: number;
   opacity: number;
   color?: string;
+  zoom: number;
+  panX: number;
+  panY: number;
 }
 
 export interface InterpolatedCameraState {
@@ -109,6 +144,27 @@ function normalizeScale(s: number | [number, number, number] | undefined, fallba
 // Core: 2D Keyframe Interpolation
 // ============================================
 
+/** State held exactly at one keyframe (before the first, after the last, or alone) */
+function stateAtKeyframe(kf: Keyframe): InterpolatedState {
+  const [sx, sy, sz] = normalizeScale(kf.scale);
+  return {
+    x: kf.x ?? 0,
+    y: kf.y ?? 0,
+    z: kf.z ?? 0,
+    rotateX: kf.rotateX ?? 0,
+    rotateY: kf.rotateY ?? 0,
+    rotateZ: kf.rotateZ ?? 0,
+    scaleX: sx,
+    scaleY: sy,
+    scaleZ: sz,
+    opacity: kf.opacity ?? 1,
+    color: kf.color,
+    zoom: kf.zoom ?? 1,
+    panX: kf.panX ?? 0.5,
+    panY: kf.panY ?? 0.5,
+  };
+}
+
 /**
  * Find the two keyframes surrounding `progress` and compute interpolated state.
  * Keyframes must be sorted by `time` ascending (0 → 1).
@@ -123,6 +179,7 @@ export function interpolateKeyframes(
       rotateX: 0, rotateY: 0, rotateZ: 0,
       scaleX: 1, scaleY: 1, scaleZ: 1,
       opacity: 1,
+      zoom: 1, panX: 0.5, panY: 0.5,
     };
   }
 
@@ -131,59 +188,17 @@ export function interpolateKeyframes(
 
   // Single keyframe — return it as-is
   if (keyframes.length === 1) {
-    const kf = keyframes[0];
-    const [sx, sy, sz] = normalizeScale(kf.scale);
-    return {
-      x: kf.x ?? 0,
-      y: kf.y ?? 0,
-      z: kf.z ?? 0,
-      rotateX: kf.rotateX ?? 0,
-      rotateY: kf.rotateY ?? 0,
-      rotateZ: kf.rotateZ ?? 0,
-      scaleX: sx,
-      scaleY: sy,
-      scaleZ: sz,
-      opacity: kf.opacity ?? 1,
-      color: kf.color,
-    };
+    return stateAtKeyframe(keyframes[0]);
   }
 
   // Before first keyframe
   if (p <= keyframes[0].time) {
-    const kf = keyframes[0];
-    const [sx, sy, sz] = normalizeScale(kf.scale);
-    return {
-      x: kf.x ?? 0,
-      y: kf.y ?? 0,
-      z: kf.z ?? 0,
-      rotateX: kf.rotateX ?? 0,
-      rotateY: kf.rotateY ?? 0,
-      rotateZ: kf.rotateZ ?? 0,
-      scaleX: sx,
-      scaleY: sy,
-      scaleZ: sz,
-      opacity: kf.opacity ?? 1,
-      color: kf.color,
-    };
+    return stateAtKeyframe(keyframes[0]);
   }
 
   // After last keyframe
   if (p >= keyframes[keyframes.length - 1].time) {
-    const kf = keyframes[keyframes.length - 1];
-    const [sx, sy, sz] = normalizeScale(kf.scale);
-    return {
-      x: kf.x ?? 0,
-      y: kf.y ?? 0,
-      z: kf.z ?? 0,
-      rotateX: kf.rotateX ?? 0,
-      rotateY: kf.rotateY ?? 0,
-      rotateZ: kf.rotateZ ?? 0,
-      scaleX: sx,
-      scaleY: sy,
-      scaleZ: sz,
-      opacity: kf.opacity ?? 1,
-      color: kf.color,
-    };
+    return stateAtKeyframe(keyframes[keyframes.length - 1]);
   }
 
   // Find surrounding keyframes
@@ -220,6 +235,9 @@ export function interpolateKeyframes(
     scaleY: lerp(fromScale[1], toScale[1], eased),
     scaleZ: lerp(fromScale[2], toScale[2], eased),
     opacity: lerp(from.opacity ?? 1, to.opacity ?? from.opacity ?? 1, eased),
+    zoom: lerp(from.zoom ?? 1, to.zoom ?? from.zoom ?? 1, eased),
+    panX: lerp(from.panX ?? 0.5, to.panX ?? from.panX ?? 0.5, eased),
+    panY: lerp(from.panY ?? 0.5, to.panY ?? from.panY ?? 0.5, eased),
   };
 
   // Color interpolation
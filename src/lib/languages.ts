@@ -0,0 +1,92 @@
+/**
+ * Narration Languages
+ *
+ * The languages scripts can be written in, plus the text handling captions
+ * need for them: right-to-left scripts, and word segmentation for scripts
+ * written without spaces (Chinese, Japanese, Thai).
+ */
+
+export interface LanguageInfo {
+  code: string;        // BCP 47 primary tag, matched against voice.lang
+  name: string;        // English name, used in prompts
+  nativeName: string;
+  rtl?: boolean;
+  spaceless?: boolean; // words are not separated by spaces
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', rtl: true },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', rtl: true },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', rtl: true },
+  { code: 'zh', name: 'Chinese (Simplified)', nativeName: '中文', spaceless: true },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', spaceless: true },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', spaceless: true },
+];
+
+const ENGLISH = LANGUAGES[0];
+
+/** The language for a tag such as "es" or "pt-BR"; English when unknown */
+export function getLanguage(code?: string): LanguageInfo {
+  const primary = (code || 'en').toLowerCase().split('-')[0];
+  return LANGUAGES.find((language) => language.code === primary) ?? ENGLISH;
+}
+
+export function isSupportedLanguage(code: unknown): code is string {
+  return typeof code === 'string' && LANGUAGES.some((language) => language.code === code);
+}
+
+export interface CaptionWord {
+  text: string;
+  start: number;       // offset into the source text, for matching speech boundary events
+}
+
+/**
+ * Split caption text into words. Spaceless scripts go through
+ * Intl.Segmenter where the runtime has it, and fall back to one
+ * character per word.
+ */
+export function segmentWords(text: string, code?: string): CaptionWord[] {
+  const words: CaptionWord[] = [];
+
+  if (getLanguage(code).spaceless) {
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+      const segmenter = new Intl.Segmenter(code, { granularity: 'word' });
+      for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+        if (!segment.trim()) continue;
+        // Attach punctuation to the word before it so it never starts a caption word
+        if (!isWordLike && words.length > 0) {
+          words[words.length - 1].text += segment.trim();
+        } else {
+          words.push({ text: segment.trim(), start: index });
+        }
+      }
+      return words;
+    }
+    Array.from(text).reduce((offset, char) => {
+      if (char.trim()) words.push({ text: char, start: offset });
+      return offset + char.length;
+    }, 0);
+    return words;
+  }
+
+  for (const match of text.matchAll(/\S+/g)) {
+    words.push({ text: match[0], start: match.index ?? 0 });
+  }
+  return words;
+}
+
+/** Index of the word containing `charIndex` (the last word starting at or before it) */
+export function wordIndexAt(words: CaptionWord[], charIndex: number): number {
+  let index = 0;
+  while (index + 1 < words.length && words[index + 1].start <= charIndex) index++;
+  return index;
+}
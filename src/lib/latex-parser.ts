@@ -0,0 +1,725 @@
+/**
+ * LaTeX Source Ingestion
+ *
+ * Turns a .tex source into an ExtractedDocument: user macros expanded,
+ * sectioning commands mapped to document sections, and every display
+ * equation pulled out verbatim so it can be rendered exactly as authored.
+ * Pure string processing — safe to run on the client or the server.
+ */
+
+import {
+  BibliographyEntry,
+  DocumentEquation,
+  DocumentFigure,
+  DocumentSection,
+  DocumentTable,
+  ExtractedDocument,
+} from '@/types';
+import { createSectionId } from '@/lib/document';
+
+// ============================================
+// Macro Types
+// ============================================
+
+export interface LatexMacro {
+  name: string;          // without the leading backslash
+  argCount: number;
+  defaultArg?: string;   // first argument is optional when set
+  body: string;
+}
+
+export type MacroTable = Map<string, LatexMacro>;
+
+export interface LatexParseOptions {
+  macros?: MacroTable;                  // definitions gathered from other files (e.g. a local .sty)
+  bibliography?: BibliographyEntry[];   // resolves \cite keys to author-year labels
+}
+
+interface ProseContext {
+  labels: Map<string, string>;     // \label key → equation / figure id
+  citations: Map<string, string>;  // bib key → short author-year label
+}
+
+const MAX_EXPANSION_PASSES = 20;
+
+const SECTION_LEVELS: Record<string, number> = {
+  part: 1,
+  chapter: 1,
+  section: 1,
+  subsection: 2,
+  subsubsection: 3,
+  paragraph: 4,
+};
+
+const MATH_ENVIRONMENTS = new Set([
+  'equation', 'equation*', 'align', 'align*', 'gather', 'gather*',
+  'multline', 'multline*', 'eqnarray', 'eqnarray*', 'flalign', 'flalign*',
+  'displaymath', 'math',
+]);
+
+// Multi-line environments KaTeX only accepts in their inner (-ed) form
+const KATEX_WRAPPERS: Record<string, string> = {
+  align: 'aligned',
+  flalign: 'aligned',
+  eqnarray: 'aligned',
+  gather: 'gathered',
+  multline: 'gathered',
+};
+
+const FLOAT_ENVIRONMENTS = new Set(['figure', 'figure*', 'table', 'table*', 'algorithm', 'wrapfigure']);
+
+// ============================================
+// Low-level Scanning
+// ============================================
+
+/** Remove `%` comments, keeping escaped `\%`. */
+export function stripComments(source: string): string {
+  return source
+    .split(/\r?\n/)
+    .map((line) => {
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '%' && (i === 0 || line[i - 1] !== '\\')) {
+          return line.slice(0, i);
+        }
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+function skipWhitespace(source: string, index: number): number {
+  while (index < source.length && /\s/.test(source[index])) index++;
+  return index;
+}
+
+/**
+ * Read a brace-balanced group starting at `index` (which must point at `{`).
+ * Returns the inner content and the index just past the closing brace.
+ */
+export function readGroup(source: string, index: number): { content: string; end: number } | null {
+  if (source[index] !== '{') return null;
+  let depth = 0;
+  for (let i = index; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return { content: source.slice(index + 1, i), end: i + 1 };
+      }
+    }
+  }
+  return null;
+}
+
+function readOptional(source: string, index: number): { content: string; end: number } | null {
+  if (source[index] !== '[') return null;
+  let depth = 0;
+  for (let i = index; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ']' && depth === 0) {
+      return { content: source.slice(index + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+/** A macro argument: a braced group, a control sequence, or one character. */
+function readArgument(source: string, index: number): { content: string; end: number } | null {
+  const start = skipWhitespace(source, index);
+  if (start >= source.length) return null;
+  if (source[start] === '{') return readGroup(source, start);
+  if (source[start] === '\\') {
+    const match = source.slice(start).match(/^\\([a-zA-Z]+|.)/);
+    if (match) return { content: match[0], end: start + match[0].length };
+  }
+  return { content: source[start], end: start + 1 };
+}
+
+/** Read the content of `\begin{env}...\end{env}` honouring nested same-name environments. */
+function readEnvironment(source: string, bodyStart: number, env: string): { content: string; end: number } {
+  const escaped = env.replace(/\*/g, '\\*');
+  const pattern = new RegExp(`\\\\(begin|end)\\{${escaped}\\}`, 'g');
+  pattern.lastIndex = bodyStart;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    depth += match[1] === 'begin' ? 1 : -1;
+    if (depth === 0) {
+      return { content: source.slice(bodyStart, match.index), end: match.index + match[0].length };
+    }
+  }
+  return { content: source.slice(bodyStart), end: source.length };
+}
+
+// ============================================
+// Macro Definitions
+// ============================================
+
+/**
+ * Collect `\newcommand`, `\renewcommand`, `\providecommand`, `\def` and
+ * `\DeclareMathOperator` definitions. Returns the macros and the source
+ * with the definitions removed.
+ */
+export function collectMacros(source: string, into: MacroTable = new Map()): { macros: MacroTable; source: string } {
+  const definition = /\\(?:(?:re)?newcommand|providecommand)\*?|\\def(?=\\)|\\DeclareMathOperator\*?/g;
+  let output = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = definition.exec(source))) {
+    const command = match[0];
+    let index = skipWhitespace(source, match.index + command.length);
+
+    // Macro name: `{\name}` or `\name`
+    let name: string | null = null;
+    if (source[index] === '{') {
+      const group = readGroup(source, index);
+      name = group?.content.trim().replace(/^\\/, '') ?? null;
+      index = group?.end ?? index;
+    } else {
+      const nameMatch = source.slice(index).match(/^\\([a-zA-Z]+|.)/);
+      if (nameMatch) {
+        name = nameMatch[1];
+        index += nameMatch[0].length;
+      }
+    }
+    if (!name) continue;
+
+    let argCount = 0;
+    let defaultArg: string | undefined;
+    let body: string | undefined;
+
+    if (command.startsWith('\\DeclareMathOperator')) {
+      const group = readGroup(source, skipWhitespace(source, index));
+      if (!group) continue;
+      const operator = command.endsWith('*') ? '\\operatorname*' : '\\operatorname';
+      body = `${operator}{${group.content}}`;
+      index = group.end;
+    } else if (command === '\\def') {
+      // \def\name#1#2{...}
+      const params = source.slice(index).match(/^(#\d)*/);
+      argCount = params ? params[0].length / 2 : 0;
+      index += params ? params[0].length : 0;
+      const group = readGroup(source, skipWhitespace(source, index));
+      if (!group) continue;
+      body = group.content;
+      index = group.end;
+    } else {
+      index = skipWhitespace(source, index);
+      const count = readOptional(source, index);
+      if (count) {
+        argCount = parseInt(count.content, 10) || 0;
+        index = skipWhitespace(source, count.end);
+        const optional = readOptional(source, index);
+        if (optional) {
+          defaultArg = optional.content;
+          index = skipWhitespace(source, optional.end);
+        }
+      }
+      const group = readGroup(source, index);
+      if (!group) continue;
+      body = group.content;
+      index = group.end;
+    }
+
+    // \providecommand never overrides an existing definition
+    if (!(command.startsWith('\\providecommand') && into.has(name))) {
+      into.set(name, { name, argCount, defaultArg, body });
+    }
+
+    output += source.slice(cursor, match.index);
+    cursor = index;
+    definition.lastIndex = index;
+  }
+
+  output += source.slice(cursor);
+  return { macros: into, source: output };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Expand user macros until a fixed point (bounded, so self-referencing
+ * definitions cannot loop forever).
+ */
+export function expandMacros(source: string, macros: MacroTable): string {
+  if (macros.size === 0) return source;
+
+  // Longest names first; letter-named macros must not match inside longer control sequences
+  const names = Array.from(macros.keys()).sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(
+    `\\\\(${names.map(escapeRegExp).join('|')})(?![a-zA-Z])`,
+    'g'
+  );
+
+  let text = source;
+  for (let pass = 0; pass < MAX_EXPANSION_PASSES; pass++) {
+    let changed = false;
+    let output = '';
+    let cursor = 0;
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = 0;
+
+    while ((match = pattern.exec(text))) {
+      const macro = macros.get(match[1])!;
+      let index = match.index + match[0].length;
+      const args: string[] = [];
+
+      for (let a = 0; a < macro.argCount; a++) {
+        if (a === 0 && macro.defaultArg !== undefined) {
+          const optional = readOptional(text, skipWhitespace(text, index));
+          if (optional) {
+            args.push(optional.content);
+            index = optional.end;
+          } else {
+            args.push(macro.defaultArg);
+          }
+          continue;
+        }
+        const arg = readArgument(text, index);
+        if (!arg) break;
+        args.push(arg.content);
+        index = arg.end;
+      }
+
+      const expansion = macro.body.replace(/#(\d)/g, (_, n: string) => args[Number(n) - 1] ?? '');
+      output += text.slice(cursor, match.index) + expansion;
+      cursor = index;
+      pattern.lastIndex = index;
+      changed = true;
+    }
+
+    output += text.slice(cursor);
+    text = output;
+    if (!changed) break;
+  }
+
+  return text;
+}
+
+// ============================================
+// Prose Cleanup
+// ============================================
+
+const UNWRAP_COMMANDS = [
+  'textbf', 'textit', 'emph', 'underline', 'texttt', 'textsc', 'textrm',
+  'textsf', 'textup', 'mbox', 'hbox', 'textnormal', 'url',
+];
+
+const DROP_COMMANDS = [
+  'label', 'vspace', 'vspace*', 'hspace', 'hspace*', 'bibliographystyle',
+  'bibliography', 'thanks', 'keywords', 'author', 'date', 'affiliation',
+];
+
+function replaceCommandGroups(text: string, command: string, replace: (content: string) => string): string {
+  const pattern = new RegExp(`\\\\${escapeRegExp(command)}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`, 'g');
+  let output = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const group = readGroup(text, match.index + match[0].length - 1);
+    if (!group) break;
+    output += text.slice(cursor, match.index) + replace(group.content);
+    cursor = group.end;
+    pattern.lastIndex = group.end;
+  }
+  return output + text.slice(cursor);
+}
+
+function formatCitation(keys: string, citations: Map<string, string>): string {
+  const labels = keys
+    .split(',')
+    .map((key) => citations.get(key.trim()))
+    .filter(Boolean);
+  return labels.length > 0 ? `[${labels.join('; ')}]` : '[citation]';
+}
+
+/**
+ * Reduce LaTeX prose to readable text. Inline math stays as `$...$`;
+ * `\eqref` / `\ref` to known labels become equation or figure ids.
+ */
+function latexToPlainText(text: string, context: ProseContext): string {
+  const { labels, citations } = context;
+  let result = text;
+
+  for (const command of DROP_COMMANDS) {
+    result = replaceCommandGroups(result, command, () => '');
+  }
+  for (const command of UNWRAP_COMMANDS) {
+    result = replaceCommandGroups(result, command, (content) => content);
+  }
+  result = replaceCommandGroups(result, 'footnote', (content) => ` (${content.trim()})`);
+  result = replaceCommandGroups(result, 'caption', (content) => content);
+  result = replaceCommandGroups(result, 'includegraphics', () => '');
+  for (const command of ['cite', 'citep', 'citet', 'citealp', 'citeauthor', 'citeyear']) {
+    result = replaceCommandGroups(result, command, (keys) => formatCitation(keys, citations));
+  }
+  result = replaceCommandGroups(result, 'eqref', (key) => `(${labels.get(key.trim()) ?? 'equation'})`);
+  result = replaceCommandGroups(result, 'ref', (key) => labels.get(key.trim()) ?? 'ref');
+  result = replaceCommandGroups(result, 'cref', (key) => labels.get(key.trim()) ?? 'ref');
+  result = replaceCommandGroups(result, 'Cref', (key) => labels.get(key.trim()) ?? 'ref');
+
+  return result
+    .replace(/\\(begin|end)\{[^}]*\}(\[[^\]]*\])?/g, ' ')
+    .replace(/\\item\s*(\[[^\]]*\])?/g, '\n- ')
+    .replace(/\\(noindent|centering|maketitle|clearpage|newpage|medskip|smallskip|bigskip|par|tableofcontents|appendix)\b/g, ' ')
+    .replace(/\\\\(\[[^\]]*\])?/g, ' ')
+    .replace(/\\([%&#_$])/g, '$1')
+    .replace(/~/g, ' ')
+    .replace(/``|''/g, '"')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+// ============================================
+// Equations
+// ============================================
+
+function cleanEquation(body: string, environment: string): { latex: string; label?: string } {
+  const labelMatch = body.match(/\\label\{([^}]*)\}/);
+  let latex = body
+    .replace(/\\label\{[^}]*\}/g, '')
+    .replace(/\\(nonumber|notag)\b/g, '')
+    .trim();
+
+  const base = environment.replace(/\*$/, '');
+  const wrapper = KATEX_WRAPPERS[base];
+  if (wrapper) {
+    latex = `\\begin{${wrapper}}${latex}\\end{${wrapper}}`;
+  }
+
+  return { latex, label: labelMatch?.[1].trim() };
+}
+
+// ============================================
+// Tables
+// ============================================
+
+const TABLE_RULES = /\\(hline|toprule|midrule|bottomrule|specialrule\{[^}]*\}\{[^}]*\}\{[^}]*\}|cline\{[^}]*\}|cmidrule(\([^)]*\))?\{[^}]*\}|addlinespace(\[[^\]]*\])?)/g;
+
+/** Split on `sep` where it is not escaped and not inside braces */
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (depth === 0 && text.startsWith(sep, i)) {
+      parts.push(text.slice(start, i));
+      start = i + sep.length;
+      i += sep.length - 1;
+      continue;
+    }
+    const char = text[i];
+    if (char === '\\') i++; // skip the escaped character (\&, \{, ...)
+    else if (char === '{') depth++;
+    else if (char === '}') depth--;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/** Expand `\multicolumn{n}{spec}{text}` into text followed by n-1 empty cells */
+function expandCells(row: string): string[] {
+  const cells: string[] = [];
+  for (const raw of splitTopLevel(row, '&')) {
+    const multi = raw.match(/^\s*\\multicolumn\s*\{(\d+)\}\s*\{[^}]*\}\s*\{/);
+    if (multi) {
+      const group = readGroup(raw, multi[0].length - 1);
+      cells.push(group?.content ?? '');
+      for (let i = 1; i < parseInt(multi[1], 10); i++) cells.push('');
+    } else {
+      cells.push(raw.replace(/\\multirow\s*\{[^}]*\}\s*\{[^}]*\}\s*\{([^}]*)\}/g, '$1'));
+    }
+  }
+  return cells;
+}
+
+/**
+ * Read the first tabular in a float into raw LaTeX cells. The first row is
+ * the header when a rule follows it. Row separators inside braces are kept.
+ */
+function parseTabular(content: string): { header?: string[]; rows: string[][] } | null {
+  const begin = content.match(/\\begin\{(tabular\*?|tabularx|tabulary|longtable)\}/);
+  if (!begin) return null;
+  const env = begin[1];
+
+  let cursor = begin.index! + begin[0].length;
+  // tabular* / tabularx take a width before the column spec
+  const argCount = env === 'tabular' || env === 'longtable' ? 1 : 2;
+  for (let i = 0; i < argCount; i++) {
+    const open = content.indexOf('{', cursor);
+    const group = open >= 0 ? readGroup(content, open) : null;
+    if (!group) return null;
+    cursor = group.end;
+  }
+  const body = readEnvironment(content, cursor, env).content;
+
+  const rawRows = splitTopLevel(body, '\\\\').map((row) => row.replace(/^\s*\[[^\]]*\]/, ''));
+  const rows: string[][] = [];
+  let hasHeader = false;
+  for (const raw of rawRows) {
+    // A rule straight after the first row marks it as the header
+    if (rows.length === 1 && /^\s*\\(hline|toprule|midrule|cmidrule|cline|specialrule)/.test(raw)) {
+      hasHeader = true;
+    }
+    const text = raw.replace(TABLE_RULES, '').trim();
+    if (text) rows.push(expandCells(text));
+  }
+  if (rows.length === 0) return null;
+
+  return hasHeader && rows.length > 1
+    ? { header: rows[0], rows: rows.slice(1) }
+    : { rows };
+}
+
+// ============================================
+// Document Assembly
+// ============================================
+
+/**
+ * Parse a LaTeX source into a structured document.
+ * Figures are recorded with their caption and the graphics paths exactly as
+ * written, so a caller with access to the files (a source bundle) can attach them.
+ * Tables with a tabular become row/column grids referenced as [T#] in the text.
+ */
+export function parseLatexDocument(source: string, options: LatexParseOptions = {}): ExtractedDocument {
+  const uncommented = stripComments(source);
+  const collected = collectMacros(uncommented, new Map(options.macros));
+  const expanded = expandMacros(collected.source, collected.macros);
+
+  const titleCommand = expanded.match(/\\title\s*(\[[^\]]*\])?\s*\{/);
+  const titleGroup = titleCommand ? readGroup(expanded, titleCommand.index! + titleCommand[0].length - 1) : null;
+
+  const beginDoc = expanded.indexOf('\\begin{document}');
+  const endDoc = expanded.lastIndexOf('\\end{document}');
+  const body = beginDoc >= 0
+    ? expanded.slice(beginDoc + '\\begin{document}'.length, endDoc > beginDoc ? endDoc : undefined)
+    : expanded;
+
+  const sections: DocumentSection[] = [];
+  const equations: DocumentEquation[] = [];
+  const figures: DocumentFigure[] = [];
+  const tables: DocumentTable[] = [];
+  const context: ProseContext = {
+    labels: new Map(),
+    citations: new Map((options.bibliography || []).map((entry) => [entry.key, citationLabel(entry)])),
+  };
+
+  // Raw section bodies are collected first so \ref to later equations resolves
+  const rawSections: { section: DocumentSection; chunks: string[] }[] = [];
+  let current = { section: { id: 'front-matter', heading: '', level: 0, paragraphs: [] } as DocumentSection, chunks: [] as string[] };
+  rawSections.push(current);
+
+  const startSection = (heading: string, level: number) => {
+    current = {
+      section: { id: createSectionId(heading, rawSections.length - 1), heading, level, paragraphs: [] },
+      chunks: [],
+    };
+    rawSections.push(current);
+  };
+
+  const addEquation = (content: string, environment: string) => {
+    const { latex, label } = cleanEquation(content, environment);
+    if (!latex) return;
+    const id = `E${equations.length + 1}`;
+    equations.push({ id, latex, environment, label, sectionId: current.section.id });
+    if (label) context.labels.set(label, id);
+    // Equations sit in the prose as their own block so context is preserved
+    current.chunks.push(`\n\n[${id}]\n\n`);
+  };
+
+  const addFloat = (content: string, environment: string) => {
+    const caption = content.match(/\\caption\s*(\[[^\]]*\])?\s*\{/);
+    const captionGroup = caption ? readGroup(content, caption.index! + caption[0].length - 1) : null;
+
+    if (environment.startsWith('table')) {
+      const grid = parseTabular(content);
+      if (!grid) {
+        if (captionGroup) current.chunks.push(`\n\nTable: ${captionGroup.content}\n\n`);
+        return;
+      }
+      const label = content.match(/\\label\{([^}]*)\}/)?.[1].trim();
+      const id = `T${tables.length + 1}`;
+      tables.push({ id, caption: captionGroup?.content ?? '', label, sectionId: current.section.id, ...grid });
+      if (label) context.labels.set(label, id);
+      current.chunks.push(`\n\nTable ${id}: ${captionGroup?.content ?? ''}\n\n[${id}]\n\n`);
+      return;
+    }
+
+    const graphics: string[] = [];
+    const includePattern = /\\includegraphics\s*(\[[^\]]*\])?\s*\{([^}]*)\}/g;
+    let include: RegExpExecArray | null;
+    while ((include = includePattern.exec(content))) {
+      graphics.push(include[2].trim());
+    }
+    const label = content.match(/\\label\{([^}]*)\}/)?.[1].trim();
+    const id = `F${figures.length + 1}`;
+    figures.push({ id, caption: captionGroup?.content ?? '', label, sectionId: current.section.id, graphics });
+    if (label) context.labels.set(label, id);
+    current.chunks.push(`\n\nFigure ${id}: ${captionGroup?.content ?? ''}\n\n`);
+  };
+
+  const token = /\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(\[[^\]]*\])?\s*\{|\\begin\{([a-zA-Z*]+)\}|\\\[|\$\$/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(body))) {
+    current.chunks.push(body.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+
+    if (match[1]) {
+      const group = readGroup(body, cursor - 1);
+      const heading = latexToPlainText(group?.content ?? '', context);
+      cursor = group?.end ?? cursor;
+      startSection(heading, SECTION_LEVELS[match[1]]);
+    } else if (match[3]) {
+      const env = match[3];
+      if (MATH_ENVIRONMENTS.has(env)) {
+        const inner = readEnvironment(body, cursor, env);
+        addEquation(inner.content, env);
+        cursor = inner.end;
+      } else if (env === 'abstract') {
+        startSection('Abstract', 1);
+      } else if (FLOAT_ENVIRONMENTS.has(env)) {
+        const inner = readEnvironment(body, cursor, env);
+        addFloat(inner.content, env);
+        cursor = inner.end;
+      } else {
+        current.chunks.push(match[0]);
+      }
+    } else {
+      const closer = match[0] === '\\[' ? '\\]' : '$$';
+      const end = body.indexOf(closer, cursor);
+      const content = end >= 0 ? body.slice(cursor, end) : body.slice(cursor);
+      addEquation(content, 'displaymath');
+      cursor = end >= 0 ? end + closer.length : body.length;
+    }
+
+    token.lastIndex = cursor;
+  }
+  current.chunks.push(body.slice(cursor));
+
+  for (const { section, chunks } of rawSections) {
+    section.paragraphs = chunks
+      .join('')
+      .split(/\n\s*\n/)
+      .map((block) => latexToPlainText(block, context).replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map((text) => ({ text }));
+
+    if (section.heading || section.paragraphs.length > 0) {
+      sections.push(section);
+    }
+  }
+
+  const plain = (text: string) => latexToPlainText(text, context).replace(/\s+/g, ' ').trim();
+  for (const figure of figures) {
+    figure.caption = plain(figure.caption);
+  }
+  for (const table of tables) {
+    table.caption = plain(table.caption);
+    table.header = table.header?.map(plain);
+    table.rows = table.rows.map((row) => row.map(plain));
+  }
+
+  return {
+    source: 'latex',
+    title: titleGroup ? latexToPlainText(titleGroup.content, context).replace(/\s+/g, ' ') : undefined,
+    sections,
+    equations,
+    figures,
+    tables,
+    bibliography: options.bibliography,
+  };
+}
+
+// ============================================
+// BibTeX
+// ============================================
+
+function cleanBibValue(value: string): string {
+  return value
+    .replace(/[{}]/g, '')
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Minimal BibTeX reader: entry type, key and the common descriptive fields. */
+export function parseBibtex(source: string): BibliographyEntry[] {
+  const entries: BibliographyEntry[] = [];
+  const entryPattern = /@(\w+)\s*\{\s*([^,\s]+)\s*,/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryPattern.exec(source))) {
+    const type = match[1].toLowerCase();
+    if (type === 'string' || type === 'comment' || type === 'preamble') continue;
+
+    // The entry body runs to the brace matching the one after @type
+    const open = source.indexOf('{', match.index);
+    const group = readGroup(source, open);
+    if (!group) continue;
+    const fieldsText = group.content.slice(group.content.indexOf(',') + 1);
+
+    const fields: Record<string, string> = {};
+    const fieldPattern = /(\w+)\s*=\s*/g;
+    let field: RegExpExecArray | null;
+    while ((field = fieldPattern.exec(fieldsText))) {
+      const valueStart = field.index + field[0].length;
+      let value = '';
+      let end = valueStart;
+      if (fieldsText[valueStart] === '{') {
+        const valueGroup = readGroup(fieldsText, valueStart);
+        value = valueGroup?.content ?? '';
+        end = valueGroup?.end ?? valueStart;
+      } else if (fieldsText[valueStart] === '"') {
+        end = fieldsText.indexOf('"', valueStart + 1);
+        value = fieldsText.slice(valueStart + 1, end);
+        end += 1;
+      } else {
+        const bare = fieldsText.slice(valueStart).match(/^[^,\s]+/);
+        value = bare?.[0] ?? '';
+        end = valueStart + value.length;
+      }
+      fields[field[1].toLowerCase()] = cleanBibValue(value);
+      fieldPattern.lastIndex = Math.max(end, valueStart);
+    }
+
+    entries.push({
+      key: match[2],
+      type,
+      title: fields.title,
+      authors: fields.author ? fields.author.split(/\s+and\s+/).map((a) => a.trim()).filter(Boolean) : undefined,
+      year: fields.year,
+      venue: fields.journal || fields.booktitle || fields.publisher,
+    });
+    entryPattern.lastIndex = group.end;
+  }
+
+  return entries;
+}
+
+function surname(author: string): string {
+  if (author.includes(',')) return author.split(',')[0].trim();
+  const parts = author.trim().split(/\s+/);
+  return parts[parts.length - 1];
+}
+
+/** Short author-year label, e.g. "Vaswani et al. 2017". */
+export function citationLabel(entry: BibliographyEntry): string {
+  const authors = entry.authors || [];
+  let who = entry.key;
+  if (authors.length === 1) who = surname(authors[0]);
+  if (authors.length === 2) who = `${surname(authors[0])} & ${surname(authors[1])}`;
+  if (authors.length > 2) who = `${surname(authors[0])} et al.`;
+  return entry.year ? `${who} ${entry.year}` : who;
+}
@@ -0,0 +1,166 @@
+/**
+ * LLM Response Cache
+ *
+ * Content-addressed cache for model results on the server. Keys are the
+ * SHA-256 of everything that determines a result (source text, settings,
+ * model, prompt version), so re-analyzing an unchanged paper with unchanged
+ * settings is served from disk. Entries expire after a TTL, and the least
+ * recently used are evicted once the directory outgrows its size limit. The
+ * directory is scanned once for its size, which writes then keep up to date,
+ * and again only to evict.
+ *
+ *   LLM_CACHE=off            disable
+ *   LLM_CACHE_DIR            default .cache/llm
+ *   LLM_CACHE_TTL_HOURS      default 168 (one week)
+ *   LLM_CACHE_MAX_MB         default 200
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+interface CacheEntry<T> {
+  key: string;
+  namespace: string;
+  createdAt: number;
+  value: T;
+}
+
+/** JSON with object keys sorted, so equal inputs always hash the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function cacheKey(parts: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(parts)).digest('hex');
+}
+
+class ResponseCache {
+  // Bytes on disk, known after the first scan
+  private totalBytes: number | undefined;
+
+  constructor(
+    private dir: string,
+    private ttlMs: number,
+    private maxBytes: number
+  ) {}
+
+  private entryPath(namespace: string, key: string): string {
+    return path.join(this.dir, namespace, `${key}.json`);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const file = this.entryPath(namespace, key);
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      if (Date.now() - entry.createdAt > this.ttlMs) {
+        await fs.rm(file, { force: true });
+        if (this.totalBytes !== undefined) this.totalBytes -= Buffer.byteLength(raw);
+        return undefined;
+      }
+      // Touch the file so eviction drops the least recently used entries first
+      const now = new Date();
+      await fs.utimes(file, now, now).catch(() => undefined);
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T): Promise<void> {
+    const file = this.entryPath(namespace, key);
+    const entry: CacheEntry<T> = { key, namespace, createdAt: Date.now(), value };
+    const data = JSON.stringify(entry);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const previous = await fs.stat(file).catch(() => undefined);
+    await fs.writeFile(file, data);
+
+    if (this.totalBytes === undefined) {
+      await this.evict();
+      return;
+    }
+    this.totalBytes += Buffer.byteLength(data) - (previous?.size ?? 0);
+    if (this.totalBytes > this.maxBytes) await this.evict();
+  }
+
+  /**
+   * Scan the directory, remove the least recently used entries until the
+   * cache is under its size limit, and record the size left
+   */
+  private async evict(): Promise<void> {
+    const files: { file: string; size: number; mtimeMs: number }[] = [];
+    for (const namespace of await fs.readdir(this.dir).catch(() => [] as string[])) {
+      const nsDir = path.join(this.dir, namespace);
+      for (const name of await fs.readdir(nsDir).catch(() => [] as string[])) {
+        const file = path.join(nsDir, name);
+        const stat = await fs.stat(file).catch(() => undefined);
+        if (stat?.isFile()) files.push({ file, size: stat.size, mtimeMs: stat.mtimeMs });
+      }
+    }
+
+    let total = files.reduce((sum, entry) => sum + entry.size, 0);
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of files) {
+      if (total <= this.maxBytes) break;
+      await fs.rm(entry.file, { force: true });
+      total -= entry.size;
+    }
+    this.totalBytes = total;
+  }
+}
+
+let cacheInstance: ResponseCache | null | undefined;
+
+/** The server's cache, or null when disabled with LLM_CACHE=off */
+export function getResponseCache(): ResponseCache | null {
+  if (cacheInstance === undefined) {
+    const ttlHours = parseFloat(process.env.LLM_CACHE_TTL_HOURS || '168');
+    const maxMb = parseFloat(process.env.LLM_CACHE_MAX_MB || '200');
+    cacheInstance = process.env.LLM_CACHE === 'off'
+      ? null
+      : new ResponseCache(
+        path.resolve(process.env.LLM_CACHE_DIR || '.cache/llm'),
+        (Number.isFinite(ttlHours) ? ttlHours : 168) * 3_600_000,
+        (Number.isFinite(maxMb) ? maxMb : 200) * 1_048_576
+      );
+  }
+  return cacheInstance;
+}
+
+/**
+ * Return the cached result for `keyParts` in `namespace`, or compute and
+ * store it. With `bypass`, the cache is not read but the fresh result still
+ * replaces the stored one. `onHit` runs when the result came from the
+ * cache. Cache I/O failures never fail the call.
+ */
+export async function cached<T>(
+  namespace: string,
+  keyParts: Record<string, unknown>,
+  bypass: boolean | undefined,
+  compute: () => Promise<T>,
+  onHit?: () => void
+): Promise<T> {
+  const cache = getResponseCache();
+  if (!cache) return compute();
+
+  const key = cacheKey(keyParts);
+  if (!bypass) {
+    const hit = await cache.get<T>(namespace, key);
+    if (hit !== undefined) {
+      onHit?.();
+      return hit;
+    }
+  }
+
+  const value = await compute();
+  await cache.set(namespace, key, value).catch((e) => console.warn('Failed to write LLM cache entry:', e));
+  return value;
+}
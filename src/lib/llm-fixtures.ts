@@ -0,0 +1,112 @@
+/**
+ * LLM Fixtures
+ *
+ * Record/replay for provider calls. In record mode every prompt and response
+ * from a real provider is written to a fixture directory, one JSON file per
+ * call named by the SHA-256 of the prompt and the options that change the
+ * answer (requested model, temperature, JSON mode). The mock provider
+ * answers from those files alone and fails loudly when a call has none, so
+ * analysis and the API routes can run offline and deterministically.
+ *
+ *   LLM_FIXTURES=record  LLM_FIXTURE_DIR=fixtures/llm  npm run dev   # capture
+ *   LLM_FIXTURES=replay  LLM_FIXTURE_DIR=fixtures/llm  npm run dev   # offline
+ *   npm test                                                      # replays tests/fixtures/llm
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GenerateOptions, LLMProvider } from '@/lib/llm';
+import { cacheKey } from '@/lib/llm-cache';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface LLMFixture {
+  key: string;
+  provider: string;
+  model: string;
+  temperature?: number;
+  json?: boolean;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+export function fixtureMode(): FixtureMode | undefined {
+  const mode = process.env.LLM_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : undefined;
+}
+
+export function fixtureDir(): string {
+  return path.resolve(process.env.LLM_FIXTURE_DIR || 'fixtures/llm');
+}
+
+/**
+ * The model is the one the call asked for, unset for the provider's
+ * default, since replay has no provider to resolve the default with
+ */
+export function fixtureKey(prompt: string, options: GenerateOptions = {}): string {
+  return cacheKey({ prompt, model: options.model, temperature: options.temperature, json: options.json === true });
+}
+
+function fixturePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+/** Wraps a real provider and writes each prompt/response pair to the fixture directory */
+export class RecordingProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  readonly defaultModel: string;
+
+  constructor(private inner: LLMProvider, private dir: string = fixtureDir()) {
+    this.name = inner.name;
+    this.defaultModel = inner.defaultModel;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const response = await this.inner.generate(prompt, options);
+    const key = fixtureKey(prompt, options);
+    const fixture: LLMFixture = {
+      key,
+      provider: this.inner.name,
+      model: options.model || this.inner.defaultModel,
+      temperature: options.temperature,
+      json: options.json,
+      prompt,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(fixturePath(this.dir, key), JSON.stringify(fixture, null, 2) + '\n');
+    return response;
+  }
+}
+
+/** Answers from recorded fixtures only; never touches the network */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'fixture';
+
+  constructor(private dir: string = fixtureDir()) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const key = fixtureKey(prompt, options);
+    const file = fixturePath(this.dir, key);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch {
+      const preview = prompt.slice(0, 160).replace(/\s+/g, ' ');
+      throw new Error(
+        `No LLM fixture for prompt ${key.slice(0, 12)} (expected ${file}). ` +
+        `Record it with LLM_FIXTURES=record. Prompt starts: "${preview}"`
+      );
+    }
+
+    const fixture = JSON.parse(raw) as LLMFixture;
+    if (fixture.prompt !== prompt) {
+      throw new Error(`LLM fixture ${file} was recorded for a different prompt`);
+    }
+    return fixture.response;
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Model Call Policy
+ *
+ * Retries, timeouts and cancellation for provider calls. Rate limits,
+ * transient server errors (5xx), dropped connections and attempts that run
+ * past their operation's timeout are retried with exponential backoff and
+ * jitter. An aborted signal stops the call at once, including during a
+ * backoff wait. Timers go through a Clock, which tests can replace with
+ * setClock().
+ *
+ *   LLM_TIMEOUTS             JSON of per-attempt timeouts in ms by operation,
+ *                            e.g. {"analysis": 180000, "narration": 30000}
+ */
+
+import { UsageOperation } from '@/types';
+
+export type RetryConfig = {
+  maxAttempts: number;
+  initialDelayMs: number;
+  multiplier: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+};
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 4,
+  initialDelayMs: 1_000,
+  multiplier: 2,
+  maxDelayMs: 20_000,
+  jitterRatio: 0.2,
+};
+
+// Per attempt; the section and outline replies are the longest
+const DEFAULT_TIMEOUTS_MS: Record<UsageOperation, number> = {
+  analysis: 120_000,
+  section: 120_000,
+  'animation-code': 90_000,
+  narration: 60_000,
+  translation: 90_000,
+  other: 60_000,
+};
+
+// Error codes of connections that failed or dropped before a reply
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+type RetryReason = 'rate-limit' | 'server' | 'network' | 'timeout';
+
+const RETRY_REASON_LABELS: Record<RetryReason, string> = {
+  'rate-limit': 'rate limit hit',
+  server: 'server error',
+  network: 'connection failed',
+  timeout: 'timed out',
+};
+
+// ============================================
+// Clock
+// ============================================
+
+export interface Clock {
+  now(): number;
+  /** Resolve after `ms`, or reject with the signal's reason once it aborts */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }),
+};
+
+let clock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return clock;
+}
+
+/** Time model calls with `next` instead of the system clock; no argument restores it */
+export function setClock(next: Clock = systemClock): void {
+  clock = next;
+}
+
+// ============================================
+// Timeouts
+// ============================================
+
+let customTimeouts: Partial<Record<UsageOperation, number>> | undefined;
+
+/** How long one attempt of an `operation` call may take, in ms */
+export function operationTimeout(operation: UsageOperation = 'other'): number {
+  if (customTimeouts === undefined) {
+    customTimeouts = {};
+    try {
+      const parsed = JSON.parse(process.env.LLM_TIMEOUTS || '{}') as Record<string, unknown>;
+      for (const [name, ms] of Object.entries(parsed)) {
+        if (name in DEFAULT_TIMEOUTS_MS && typeof ms === 'number' && ms > 0) {
+          customTimeouts[name as UsageOperation] = ms;
+        }
+      }
+    } catch (e) {
+      console.warn('Ignoring invalid LLM_TIMEOUTS:', e);
+    }
+  }
+  return customTimeouts[operation] ?? DEFAULT_TIMEOUTS_MS[operation];
+}
+
+// ============================================
+// Error Classification
+// ============================================
+
+type ProviderErrorPayload = {
+  status?: number;
+  code?: unknown;
+  name?: unknown;
+  message?: unknown;
+  cause?: { code?: unknown };
+  response?: {
+    status?: number;
+    statusText?: string;
+    data?: {
+      error?: {
+        message?: string;
+      };
+    };
+  };
+};
+
+function errorMessages(err: ProviderErrorPayload): string[] {
+  const messages: string[] = [];
+  if (typeof err.message === 'string') messages.push(err.message);
+  if (typeof err.response?.statusText === 'string') messages.push(err.response.statusText);
+  const nestedMessage = err.response?.data?.error?.message;
+  if (typeof nestedMessage === 'string') messages.push(nestedMessage);
+  return messages;
+}
+
+function isRateLimitError(err: ProviderErrorPayload, status: number | undefined): boolean {
+  if (status === 429) return true;
+  return errorMessages(err).some((msg) => /429|resource exhausted|rate limit|quota/i.test(msg));
+}
+
+function isServerError(err: ProviderErrorPayload, status: number | undefined): boolean {
+  if (status !== undefined) return status === 408 || (status >= 500 && status <= 599);
+  // The Gemini SDK puts the status in the message: "[503 Service Unavailable] ..."
+  return errorMessages(err).some((msg) => /\[5\d\d\b|service unavailable|overloaded|internal error/i.test(msg));
+}
+
+function isNetworkError(err: ProviderErrorPayload): boolean {
+  const code = err.code ?? err.cause?.code;
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+  // fetch reports connection failures as "TypeError: fetch failed"
+  return errorMessages(err).some((msg) => /fetch failed|socket hang up|network error/i.test(msg));
+}
+
+function retryReason(error: unknown): RetryReason | null {
+  if (!error || typeof error !== 'object') return null;
+
+  const err = error as ProviderErrorPayload;
+  const status = typeof err.status === 'number' ? err.status : err.response?.status;
+
+  if (err.name === 'TimeoutError') return 'timeout';
+  if (isRateLimitError(err, status)) return 'rate-limit';
+  if (isServerError(err, status)) return 'server';
+  if (isNetworkError(err)) return 'network';
+  return null;
+}
+
+// ============================================
+// Retry
+// ============================================
+
+export interface RetryOptions {
+  signal?: AbortSignal;        // aborting stops the call and any pending retry
+  timeoutMs?: number;          // per attempt; a timed-out attempt is retried
+  onRetry?: (attempt: number) => void;
+  config?: RetryConfig;
+}
+
+/**
+ * One attempt of `operation`, given a signal that aborts when the caller's
+ * does or the attempt times out. The attempt settles on abort even if the
+ * operation ignores its signal.
+ */
+async function runAttempt<T>(
+  label: string,
+  operation: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): Promise<T> {
+  const timeout = new AbortController();
+  const attemptSignal = signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal;
+  const aborted = new Promise<never>((_, reject) => {
+    attemptSignal.addEventListener('abort', () => reject(attemptSignal.reason), { once: true });
+  });
+
+  const timer = new AbortController();
+  if (timeoutMs) {
+    clock.sleep(timeoutMs, timer.signal).then(
+      () => timeout.abort(Object.assign(
+        new Error(`${label} did not respond within ${Math.round(timeoutMs / 1000)}s`),
+        { name: 'TimeoutError' }
+      )),
+      () => {}
+    );
+  }
+
+  try {
+    return await Promise.race([operation(attemptSignal), aborted]);
+  } finally {
+    timer.abort();
+  }
+}
+
+/**
+ * Run `operation`, retrying transient failures with exponential backoff and
+ * jitter. Errors that retrying will not fix are thrown straight away.
+ */
+export async function withRetry<T>(
+  label: string,
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs, onRetry, config = DEFAULT_RETRY_CONFIG }: RetryOptions = {}
+): Promise<T> {
+  let attempt = 0;
+  let delay = config.initialDelayMs;
+
+  while (true) {
+    signal?.throwIfAborted();
+    try {
+      return await runAttempt(label, operation, signal, timeoutMs);
+    } catch (error) {
+      attempt += 1;
+
+      if (signal?.aborted) throw error;
+      const reason = retryReason(error);
+      if (!reason || attempt >= config.maxAttempts) {
+        if (reason === 'rate-limit') {
+          throw new Error('The AI service is temporarily busy. Please wait a few moments and try again.');
+        }
+        throw error;
+      }
+
+      const jitter = delay * config.jitterRatio * (Math.random() - 0.5) * 2; // ± jitterRatio
+      const waitTime = Math.min(config.maxDelayMs, Math.max(config.initialDelayMs, delay + jitter));
+
+      console.warn(
+        `${label} ${RETRY_REASON_LABELS[reason]}. Retrying attempt ${attempt + 1} of ${config.maxAttempts} after ${Math.round(
+          waitTime
+        )}ms.`
+      );
+
+      onRetry?.(attempt);
+      await clock.sleep(waitTime, signal);
+      delay = Math.min(config.maxDelayMs, delay * config.multiplier);
+    }
+  }
+}
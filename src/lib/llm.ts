@@ -0,0 +1,275 @@
+/**
+ * LLM Providers
+ *
+ * One text-in, text-out interface over the models the server can call:
+ * Google Gemini, and any OpenAI-compatible chat completions endpoint
+ * (OpenAI itself, or a local Ollama / llama.cpp server for on-prem runs).
+ * Model, temperature and endpoint can be set per call; the rest comes from
+ * the environment. With LLM_FIXTURES set, calls are recorded to or replayed
+ * from fixtures (see llm-fixtures.ts). Every call's tokens, latency and
+ * cost are recorded (see usage.ts); retries, timeouts and cancellation
+ * follow llm-retry.ts.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { fixtureMode, MockProvider, RecordingProvider } from '@/lib/llm-fixtures';
+import { getClock, operationTimeout, withRetry } from '@/lib/llm-retry';
+import { estimateCost, estimateTokens, ProviderUsage, recordUsage, UsageScope } from '@/lib/usage';
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+
+/** Per-call overrides; anything left out falls back to the provider's defaults */
+export interface LLMCallOptions {
+  provider?: LLMProviderName;
+  model?: string;
+  temperature?: number;
+  endpoint?: string;   // base URL of the API, e.g. http://localhost:11434/v1
+}
+
+export interface GenerateOptions extends Omit<LLMCallOptions, 'provider'> {
+  json?: boolean;      // ask for a bare JSON object
+  signal?: AbortSignal;
+  timeoutMs?: number;  // per attempt; hung attempts are aborted and retried
+  onUsage?: (usage: ProviderUsage) => void; // token counts and retries, as far as the provider knows them
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+// ============================================
+// Providers
+// ============================================
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly defaultModel = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+  private client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const model = this.client.getGenerativeModel(
+      {
+        model: options.model || this.defaultModel,
+        generationConfig: {
+          temperature: options.temperature,
+          responseMimeType: options.json ? 'application/json' : undefined,
+        },
+      },
+      options.endpoint ? { baseUrl: options.endpoint } : undefined
+    );
+    let retries = 0;
+    const result = await withRetry(
+      'Gemini API',
+      (signal) => model.generateContent(prompt, { signal }),
+      { signal: options.signal, timeoutMs: options.timeoutMs, onRetry: () => retries++ }
+    ).catch((error) => {
+      options.onUsage?.({ retries });
+      throw error;
+    });
+    const metadata = result.response.usageMetadata;
+    options.onUsage?.({
+      promptTokens: metadata?.promptTokenCount,
+      responseTokens: metadata?.candidatesTokenCount,
+      retries,
+    });
+    return result.response.text();
+  }
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Chat completions over plain `fetch`. Ollama serves this API at
+ * `http://localhost:11434/v1` and llama.cpp's server at `/v1` on its port;
+ * neither needs an API key.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly defaultModel = process.env.LLM_MODEL || 'llama3.1';
+  private baseUrl = process.env.LLM_BASE_URL || 'http://localhost:11434/v1';
+  private apiKey = process.env.LLM_API_KEY || '';
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const url = `${(options.endpoint || this.baseUrl).replace(/\/+$/, '')}/chat/completions`;
+    const body = {
+      model: options.model || this.defaultModel,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+    };
+
+    let retries = 0;
+    return withRetry('LLM endpoint', async (signal) => {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      const data = await res.json().catch(() => ({})) as ChatCompletionResponse;
+      if (!res.ok) {
+        const message = data.error?.message || `${res.status} ${res.statusText}`;
+        throw Object.assign(new Error(`LLM request failed: ${message}`), { status: res.status });
+      }
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('LLM response contained no message content');
+      }
+      options.onUsage?.({
+        promptTokens: data.usage?.prompt_tokens,
+        responseTokens: data.usage?.completion_tokens,
+        retries,
+      });
+      return content;
+    }, { signal: options.signal, timeoutMs: options.timeoutMs, onRetry: () => retries++ }).catch((error) => {
+      options.onUsage?.({ retries });
+      throw error;
+    });
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+function isProviderName(value: unknown): value is LLMProviderName {
+  return PROVIDER_NAMES.includes(value as LLMProviderName);
+}
+
+function defaultProviderName(): LLMProviderName {
+  return isProviderName(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+}
+
+/** Replay mode answers every provider from fixtures; record mode wraps the real one */
+function createProvider(name: LLMProviderName): LLMProvider {
+  const mode = fixtureMode();
+  if (name === 'mock' || mode === 'replay') return new MockProvider();
+  const provider = name === 'openai-compatible' ? new OpenAICompatibleProvider() : new GeminiProvider();
+  return mode === 'record' ? new RecordingProvider(provider) : provider;
+}
+
+export function getLLMProvider(name: LLMProviderName = defaultProviderName()): LLMProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/** The model a call goes to, as used in cache keys and usage records */
+export type ModelDescription = { provider: string; model: string; temperature?: number; endpoint?: string };
+
+export function describeModel(options: LLMCallOptions = {}): ModelDescription {
+  const provider = getLLMProvider(options.provider);
+  return {
+    provider: provider.name,
+    model: options.model || provider.defaultModel,
+    temperature: options.temperature,
+    endpoint: options.endpoint,
+  };
+}
+
+/**
+ * Send one prompt through the provider named in `options` (or the default),
+ * applying the per-call model, temperature and endpoint, and record the
+ * call's usage under `extra.usage`. Token counts the provider does not
+ * report are estimated from the text. A call whose attempts all fail is
+ * recorded too, with the prompt estimated once per attempt, since failed
+ * attempts may still be billed; the retried attempts of a call that
+ * succeeds show only in its retry count. Each attempt is limited to the
+ * timeout of the usage operation unless `extra.timeoutMs` is given.
+ */
+export async function generateText(
+  prompt: string,
+  options: LLMCallOptions = {},
+  extra: Pick<GenerateOptions, 'json' | 'signal' | 'timeoutMs'> & { usage?: UsageScope } = {}
+): Promise<string> {
+  const { provider: providerName, ...generateOptions } = options;
+  const { usage, ...callOptions } = extra;
+  callOptions.signal?.throwIfAborted();
+  const provider = getLLMProvider(providerName);
+  const model = options.model || provider.defaultModel;
+
+  let reported: ProviderUsage = {};
+  const clock = getClock();
+  const startedAt = clock.now();
+  const record = (promptTokens: number, responseTokens: number, tokensEstimated: boolean, failed: boolean) => {
+    recordUsage({
+      operation: usage?.operation ?? 'other',
+      provider: provider.name,
+      model,
+      promptTokens,
+      responseTokens,
+      tokensEstimated,
+      latencyMs: clock.now() - startedAt,
+      retries: reported.retries ?? 0,
+      cacheHit: false,
+      failed: failed || undefined,
+      estimatedCost: estimateCost(model, promptTokens, responseTokens),
+      timestamp: Date.now(),
+    }, usage);
+  };
+
+  let text: string;
+  try {
+    text = await provider.generate(prompt, {
+      ...generateOptions,
+      ...callOptions,
+      timeoutMs: callOptions.timeoutMs ?? operationTimeout(usage?.operation),
+      onUsage: (providerUsage) => { reported = providerUsage; },
+    });
+  } catch (error) {
+    record(estimateTokens(prompt) * ((reported.retries ?? 0) + 1), 0, true, true);
+    throw error;
+  }
+
+  const tokensEstimated = reported.promptTokens === undefined || reported.responseTokens === undefined;
+  record(
+    reported.promptTokens ?? estimateTokens(prompt),
+    reported.responseTokens ?? estimateTokens(text),
+    tokensEstimated,
+    false
+  );
+  return text;
+}
+
+/**
+ * Read per-call options from an API request body. A caller-supplied endpoint
+ * is only honoured when LLM_ALLOW_REQUEST_ENDPOINT=true, so a public server
+ * cannot be pointed at arbitrary hosts.
+ */
+export function parseLLMCallOptions(raw: unknown): LLMCallOptions {
+  if (!raw || typeof raw !== 'object') return {};
+  const input = raw as Record<string, unknown>;
+  const options: LLMCallOptions = {};
+
+  if (isProviderName(input.provider)) options.provider = input.provider;
+  if (typeof input.model === 'string' && input.model.trim()) options.model = input.model.trim();
+  const temperature = typeof input.temperature === 'string' ? parseFloat(input.temperature) : input.temperature;
+  if (typeof temperature === 'number' && Number.isFinite(temperature)) {
+    options.temperature = Math.max(0, Math.min(2, temperature));
+  }
+  if (
+    typeof input.endpoint === 'string'
+    && /^https?:\/\//.test(input.endpoint)
+    && process.env.LLM_ALLOW_REQUEST_ENDPOINT === 'true'
+  ) {
+    options.endpoint = input.endpoint;
+  }
+
+  return options;
+}
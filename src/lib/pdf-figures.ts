@@ -0,0 +1,178 @@
+/**
+ * PDF Figure Extraction
+ *
+ * Locates embedded raster images on a page by replaying the operator list's
+ * transform stack, then renders the page and crops each image region to a
+ * PNG so figure labels drawn over the image are kept as the reader sees them.
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+
+type Matrix = [number, number, number, number, number, number];
+
+/** Image bounds in PDF user space (origin bottom-left) */
+export interface ImageRegion {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Ignore icons, logos and rules smaller than this (in points)
+const MIN_IMAGE_SIZE = 48;
+
+// Sub-figures closer than this are merged into one region
+const MERGE_GAP = 12;
+
+// Render scale for cropped figures (2 = 144 dpi)
+const RENDER_SCALE = 2;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/** Bounds of the unit square (an image's own space) under `m` */
+function unitSquareBounds(m: Matrix): ImageRegion {
+  const xs = [m[4], m[0] + m[4], m[2] + m[4], m[0] + m[2] + m[4]];
+  const ys = [m[5], m[1] + m[5], m[3] + m[5], m[1] + m[3] + m[5]];
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+}
+
+function regionsTouch(a: ImageRegion, b: ImageRegion): boolean {
+  return a.x0 - MERGE_GAP <= b.x1 && b.x0 - MERGE_GAP <= a.x1
+    && a.y0 - MERGE_GAP <= b.y1 && b.y0 - MERGE_GAP <= a.y1;
+}
+
+function mergeRegions(regions: ImageRegion[]): ImageRegion[] {
+  const merged = [...regions];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    outer: for (let i = 0; i < merged.length; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        if (regionsTouch(merged[i], merged[j])) {
+          const a = merged[i];
+          const b = merged[j];
+          merged[i] = {
+            x0: Math.min(a.x0, b.x0),
+            y0: Math.min(a.y0, b.y0),
+            x1: Math.max(a.x1, b.x1),
+            y1: Math.max(a.y1, b.y1),
+          };
+          merged.splice(j, 1);
+          changed = true;
+          break outer;
+        }
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Find where raster images are painted on a page. Adjacent images
+ * (sub-figures, tiled scans) are merged into a single region.
+ */
+export async function findImageRegions(page: PDFPageProxy): Promise<ImageRegion[]> {
+  const { OPS } = pdfjsLib;
+  const operatorList = await page.getOperatorList();
+  const regions: ImageRegion[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = IDENTITY;
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i] as unknown[] | null;
+
+    switch (fn) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.transform:
+        ctm = multiply(ctm, args as Matrix);
+        break;
+      case OPS.paintFormXObjectBegin: {
+        stack.push(ctm);
+        const matrix = args?.[0] as Matrix | null;
+        if (matrix) ctm = multiply(ctm, matrix);
+        break;
+      }
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? IDENTITY;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        const bounds = unitSquareBounds(ctm);
+        if (bounds.x1 - bounds.x0 >= MIN_IMAGE_SIZE && bounds.y1 - bounds.y0 >= MIN_IMAGE_SIZE) {
+          regions.push(bounds);
+        }
+        break;
+      }
+    }
+  }
+
+  return mergeRegions(regions);
+}
+
+/**
+ * Render the page once and crop each region to a PNG data URL.
+ * Browser-only: needs a canvas.
+ */
+export async function renderImageRegions(page: PDFPageProxy, regions: ImageRegion[]): Promise<string[]> {
+  if (regions.length === 0 || typeof document === 'undefined') return [];
+
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) return [];
+
+  await page.render({ canvas, canvasContext: context, viewport }).promise;
+
+  return regions.map((region) => {
+    const [ax, ay, bx, by] = viewport.convertToViewportRectangle([region.x0, region.y0, region.x1, region.y1]);
+    const left = Math.max(0, Math.floor(Math.min(ax, bx)));
+    const top = Math.max(0, Math.floor(Math.min(ay, by)));
+    const width = Math.min(canvas.width - left, Math.ceil(Math.abs(bx - ax)));
+    const height = Math.min(canvas.height - top, Math.ceil(Math.abs(by - ay)));
+
+    const crop = document.createElement('canvas');
+    crop.width = Math.max(1, width);
+    crop.height = Math.max(1, height);
+    crop.getContext('2d')?.drawImage(canvas, left, top, width, height, 0, 0, width, height);
+    return crop.toDataURL('image/png');
+  });
+}
+
+/**
+ * Pick the image a caption describes: the closest region above the caption
+ * that overlaps it horizontally, else the closest region on the page.
+ */
+export function matchCaptionToRegion(
+  caption: { x0: number; x1: number; y: number },
+  regions: ImageRegion[],
+  taken: Set<ImageRegion>
+): ImageRegion | undefined {
+  const free = regions.filter((r) => !taken.has(r));
+  const above = free
+    .filter((r) => r.y0 >= caption.y - MERGE_GAP && r.x0 < caption.x1 && caption.x0 < r.x1)
+    .sort((a, b) => a.y0 - b.y0);
+  if (above.length > 0) return above[0];
+
+  const distance = (r: ImageRegion) => Math.abs((r.y0 + r.y1) / 2 - caption.y);
+  return free.sort((a, b) => distance(a) - distance(b))[0];
+}
@@ -1,48 +1,603 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { DocumentAsset, DocumentFigure, DocumentSection, DocumentTable, ExtractedDocument } from '@/types';
+import { buildTextDocument, createSectionId, documentToText } from '@/lib/document';
+import { parseLatexDocument } from '@/lib/latex-parser';
+import { extractDocumentFromBundle, isSourceBundle } from '@/lib/source-bundle';
+import { findImageRegions, ImageRegion, matchCaptionToRegion, renderImageRegions } from '@/lib/pdf-figures';
+import { DetectedTable, detectTables } from '@/lib/pdf-tables';
 
 // Set the worker source - use local copy to avoid CDN issues
 if (typeof window !== 'undefined') {
   pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
 }
 
-export async function extractTextFromPDF(file: File): Promise<string> {
+// ============================================
+// Layout Types
+// ============================================
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/** A run of items on one baseline, split at column gutters */
+interface TextLine {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number;
+  fontSize: number;
+  page: number;
+  column: 'left' | 'right' | 'full';
+  table?: DocumentTable; // placeholder line standing in for a detected table
+}
+
+interface PageLayout {
+  page: number;
+  width: number;
+  height: number;
+  lines: TextLine[];
+  images: ImageRegion[];
+  tables: { detected: DetectedTable; table: DocumentTable }[];
+}
+
+/** A detected figure caption and the image region it was matched to */
+interface CaptionedFigure {
+  figure: DocumentFigure;
+  region?: ImageRegion;
+}
+
+// Fraction of the page height treated as the running header / footer band
+const MARGIN_BAND = 0.08;
+
+// "Figure 3:" / "Fig. 3." at the start of a paragraph; in-text mentions lack the punctuation
+const FIGURE_CAPTION = /^(?:figure|fig\.?)\s*(\d+)\s*[.:|]/i;
+const TABLE_CAPTION = /^table\s*(\d+)\s*[.:|]/i;
+
+const KNOWN_HEADINGS = new Set([
+  'abstract', 'introduction', 'background', 'related work', 'preliminaries',
+  'method', 'methods', 'methodology', 'approach', 'model', 'experiments',
+  'experimental setup', 'evaluation', 'results', 'discussion', 'limitations',
+  'conclusion', 'conclusions', 'future work', 'references', 'bibliography',
+  'acknowledgments', 'acknowledgements', 'appendix', 'supplementary material',
+]);
+
+// ============================================
+// Line Assembly
+// ============================================
+
+function toPositionedItems(items: unknown[]): PositionedItem[] {
+  const positioned: PositionedItem[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object' || !('str' in item)) continue;
+    const { str, transform, width, height } = item as {
+      str: string;
+      transform: number[];
+      width: number;
+      height: number;
+    };
+    if (!str || str.trim().length === 0) continue;
+    const fontSize = Math.hypot(transform[2], transform[3]) || height || 10;
+    positioned.push({ text: str, x: transform[4], y: transform[5], width, fontSize });
+  }
+  return positioned;
+}
+
+function joinItems(items: PositionedItem[]): string {
+  let text = '';
+  let prevEnd: number | null = null;
+  for (const item of items) {
+    if (prevEnd !== null) {
+      const gap = item.x - prevEnd;
+      const needsSpace = gap > item.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.text);
+      if (needsSpace) text += ' ';
+    }
+    text += item.text;
+    prevEnd = item.x + item.width;
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function columnOf(x0: number, x1: number, pageWidth: number): TextLine['column'] {
+  const mid = pageWidth / 2;
+  const slack = pageWidth * 0.02;
+  return x1 <= mid + slack ? 'left' : x0 >= mid - slack ? 'right' : 'full';
+}
+
+/**
+ * Group items into baselines, then split each baseline wherever the
+ * horizontal gap is wide enough to be a column gutter.
+ */
+function buildLines(items: PositionedItem[], page: number, pageWidth: number): TextLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PositionedItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].fontSize, item.fontSize) * 0.4) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const lines: TextLine[] = [];
+
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    let fragment: PositionedItem[] = [];
+
+    const flush = () => {
+      if (fragment.length === 0) return;
+      const x0 = fragment[0].x;
+      const last = fragment[fragment.length - 1];
+      const x1 = last.x + last.width;
+      const text = joinItems(fragment);
+      if (text) {
+        const column = columnOf(x0, x1, pageWidth);
+        lines.push({
+          text,
+          x0,
+          x1,
+          y: fragment[0].y,
+          fontSize: Math.max(...fragment.map((f) => f.fontSize)),
+          page,
+          column,
+        });
+      }
+      fragment = [];
+    };
+
+    for (const item of row) {
+      const prev = fragment[fragment.length - 1];
+      if (prev && item.x - (prev.x + prev.width) > Math.max(prev.fontSize, item.fontSize) * 1.5) {
+        flush();
+      }
+      fragment.push(item);
+    }
+    flush();
+  }
+
+  return lines;
+}
+
+// ============================================
+// Tables
+// ============================================
+
+/**
+ * A one-line stand-in for a detected table, placed at the table's first row
+ * so it goes through reading order like any other line.
+ */
+function tablePlaceholder(detected: DetectedTable, table: DocumentTable, page: number, pageWidth: number): TextLine {
+  return {
+    text: '',
+    x0: detected.x0,
+    x1: detected.x1,
+    y: detected.top,
+    fontSize: detected.fontSize,
+    page,
+    column: columnOf(detected.x0, detected.x1, pageWidth),
+    table,
+  };
+}
+
+/**
+ * Number tables after their captions ("Table 2:" nearest the table on the
+ * same page); uncaptioned tables take the next free number.
+ */
+function assignTableIds(layouts: PageLayout[]): void {
+  const taken = new Set<number>();
+  const uncaptioned: DocumentTable[] = [];
+
+  for (const layout of layouts) {
+    const captions = layout.lines
+      .map((line) => ({ line, match: line.text.match(TABLE_CAPTION) }))
+      .filter((c): c is { line: TextLine; match: RegExpMatchArray } => c.match !== null);
+
+    for (const { detected, table } of layout.tables) {
+      const distance = (line: TextLine) =>
+        line.y > detected.top ? line.y - detected.top : Math.max(0, detected.bottom - line.y);
+      const nearest = captions
+        .filter((c) => !taken.has(parseInt(c.match[1], 10)))
+        .sort((a, b) => distance(a.line) - distance(b.line))[0];
+
+      if (nearest && distance(nearest.line) < layout.height * 0.25) {
+        const number = parseInt(nearest.match[1], 10);
+        taken.add(number);
+        table.id = `T${number}`;
+      } else {
+        uncaptioned.push(table);
+      }
+    }
+  }
+
+  let next = 1;
+  for (const table of uncaptioned) {
+    while (taken.has(next)) next++;
+    taken.add(next);
+    table.id = `T${next}`;
+  }
+}
+
+// ============================================
+// Reading Order
+// ============================================
+
+/**
+ * Order lines for reading. On a two-column page the lines are cut into
+ * horizontal bands at every full-width line (titles, wide figures); each
+ * band is read left column first, then right column.
+ */
+function orderLines(lines: TextLine[]): TextLine[] {
+  const leftCount = lines.filter((l) => l.column === 'left').length;
+  const rightCount = lines.filter((l) => l.column === 'right').length;
+  const byY = [...lines].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+
+  const isTwoColumn = leftCount >= 5 && rightCount >= 5;
+  if (!isTwoColumn) {
+    return byY.map((line) => ({ ...line, column: 'full' as const }));
+  }
+
+  const ordered: TextLine[] = [];
+  let left: TextLine[] = [];
+  let right: TextLine[] = [];
+
+  const flushBand = () => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const line of byY) {
+    if (line.column === 'full') {
+      flushBand();
+      ordered.push(line);
+    } else if (line.column === 'left') {
+      left.push(line);
+    } else {
+      right.push(line);
+    }
+  }
+  flushBand();
+
+  return ordered;
+}
+
+// ============================================
+// Running Headers & Footers
+// ============================================
+
+function marginKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+function isPageNumber(text: string): boolean {
+  return /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(text.trim()) || /^[ivxlc]+$/i.test(text.trim());
+}
+
+/**
+ * Drop lines in the top/bottom band that are page numbers or repeat on at
+ * least half of the pages (journal names, author running heads, etc.).
+ */
+function removeRunningHeaders(layouts: PageLayout[]): void {
+  const inBand = (line: TextLine, layout: PageLayout) =>
+    line.y > layout.height * (1 - MARGIN_BAND) || line.y < layout.height * MARGIN_BAND;
+
+  const pagesPerKey = new Map<string, Set<number>>();
+  for (const layout of layouts) {
+    for (const line of layout.lines) {
+      if (!inBand(line, layout)) continue;
+      const key = marginKey(line.text);
+      if (!pagesPerKey.has(key)) pagesPerKey.set(key, new Set());
+      pagesPerKey.get(key)!.add(layout.page);
+    }
+  }
+
+  const threshold = Math.max(2, Math.ceil(layouts.length * 0.5));
+  for (const layout of layouts) {
+    layout.lines = layout.lines.filter((line) => {
+      if (line.table || !inBand(line, layout)) return true;
+      if (isPageNumber(line.text)) return false;
+      return (pagesPerKey.get(marginKey(line.text))?.size ?? 0) < threshold;
+    });
+  }
+}
+
+// ============================================
+// Headings, Title & Paragraphs
+// ============================================
+
+function dominantFontSize(lines: TextLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+  let best = 10;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/** Returns the heading level for a line, or 0 when it is body text. */
+function headingLevel(line: TextLine, bodySize: number): number {
+  const text = line.text.trim();
+  const words = text.split(/\s+/).length;
+  if (text.length > 100 || words > 14) return 0;
+
+  const bare = text.replace(/[:.]$/, '').toLowerCase();
+  const numbered = text.match(/^(\d+(?:\.\d+)*)\.?\s+\p{Lu}/u);
+  const roman = /^[IVX]+\.\s+\p{Lu}/u.test(text);
+  const larger = line.fontSize >= bodySize * 1.15;
+
+  if (numbered && words <= 12 && !/[.;,]$/.test(text) && line.fontSize >= bodySize * 0.95) {
+    return numbered[1].split('.').length;
+  }
+  if (roman && line.fontSize >= bodySize * 0.95) return 1;
+  if (KNOWN_HEADINGS.has(bare.replace(/^(\d+(\.\d+)*|[ivx]+)\.?\s+/, ''))) return 1;
+  if (larger && !/[.,;]$/.test(text)) return 1;
+
+  return 0;
+}
+
+/** The title is the run of largest-font lines in the top half of page 1. */
+function extractTitle(layout: PageLayout | undefined, bodySize: number): { title?: string; lines: Set<TextLine> } {
+  const lines = new Set<TextLine>();
+  if (!layout) return { lines };
+
+  const candidates = layout.lines.filter((l) => l.y > layout.height * 0.5);
+  if (candidates.length === 0) return { lines };
+  const maxSize = Math.max(...candidates.map((l) => l.fontSize));
+  if (maxSize < bodySize * 1.3) return { lines };
+
+  const titleLines = candidates.filter((l) => Math.abs(l.fontSize - maxSize) < 0.5);
+  titleLines.forEach((l) => lines.add(l));
+  return { title: titleLines.map((l) => l.text).join(' ').trim(), lines };
+}
+
+function appendLine(text: string, next: string): string {
+  if (!text) return next;
+  // Re-join words hyphenated across a line break
+  if (/\p{Ll}-$/u.test(text) && /^\p{Ll}/u.test(next)) {
+    return text.slice(0, -1) + next;
+  }
+  return `${text} ${next}`;
+}
+
+function startsNewParagraph(prev: TextLine, line: TextLine, columnLeft: number): boolean {
+  const endsSentence = /[.!?:]$/.test(prev.text);
+  const indented = line.x0 > columnLeft + line.fontSize * 0.8;
+
+  if (prev.page !== line.page || prev.column !== line.column || line.y > prev.y) {
+    // Paragraphs routinely continue across columns and pages
+    return endsSentence && indented;
+  }
+
+  const gap = prev.y - line.y;
+  if (gap > Math.max(prev.fontSize, line.fontSize) * 1.8) return true;
+  return endsSentence && indented;
+}
+
+function buildSections(layouts: PageLayout[]): { doc: ExtractedDocument; captioned: CaptionedFigure[] } {
+  const tables = layouts.flatMap((l) => l.tables.map((t) => t.table));
+  const allLines = layouts.flatMap((l) => l.lines);
+  const bodySize = dominantFontSize(allLines);
+  const { title, lines: titleLines } = extractTitle(layouts[0], bodySize);
+
+  // Left edge of each column per page, used for indentation checks
+  const columnLeft = new Map<string, number>();
+  for (const line of allLines) {
+    const key = `${line.page}:${line.column}`;
+    columnLeft.set(key, Math.min(columnLeft.get(key) ?? Infinity, line.x0));
+  }
+
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { id: 'front-matter', heading: '', level: 0, paragraphs: [] };
+  let paragraph: { text: string; page: number; first: TextLine } | null = null;
+  let prevLine: TextLine | null = null;
+
+  const captioned: CaptionedFigure[] = [];
+  const takenRegions = new Set<ImageRegion>();
+
+  const recordCaption = (text: string, first: TextLine) => {
+    const match = text.match(FIGURE_CAPTION);
+    if (!match) return;
+    const id = `F${parseInt(match[1], 10)}`;
+    if (captioned.some((c) => c.figure.id === id)) return;
+
+    const region = matchCaptionToRegion(first, layouts[first.page - 1]?.images ?? [], takenRegions);
+    if (region) takenRegions.add(region);
+    captioned.push({
+      figure: { id, caption: text.slice(match[0].length).trim(), sectionId: current.id, page: first.page },
+      region,
+    });
+  };
+
+  const flushParagraph = () => {
+    if (paragraph && paragraph.text.trim()) {
+      const text = paragraph.text.trim();
+      current.paragraphs.push({ text, page: paragraph.page });
+      recordCaption(text, paragraph.first);
+
+      const tableCaption = text.match(TABLE_CAPTION);
+      const table = tableCaption && tables.find((t) => t.id === `T${parseInt(tableCaption[1], 10)}`);
+      if (table && !table.caption) table.caption = text.slice(tableCaption[0].length).trim();
+    }
+    paragraph = null;
+  };
+
+  const flushSection = () => {
+    flushParagraph();
+    if (current.heading || current.paragraphs.length > 0) {
+      const pages = current.paragraphs.map((p) => p.page!).filter(Boolean);
+      current.pageStart = current.pageStart ?? pages[0];
+      current.pageEnd = pages.length > 0 ? Math.max(...pages) : current.pageStart;
+      sections.push(current);
+    }
+  };
+
+  for (const line of allLines) {
+    if (titleLines.has(line)) continue;
+
+    if (line.table) {
+      flushParagraph();
+      line.table.sectionId = current.id;
+      current.paragraphs.push({ text: `[${line.table.id}]`, page: line.page });
+      prevLine = null;
+      continue;
+    }
+
+    const level = headingLevel(line, bodySize);
+    if (level > 0) {
+      flushSection();
+      current = {
+        id: createSectionId(line.text, sections.length),
+        heading: line.text,
+        level,
+        paragraphs: [],
+        pageStart: line.page,
+      };
+      prevLine = null;
+      continue;
+    }
+
+    const left = columnLeft.get(`${line.page}:${line.column}`) ?? line.x0;
+    if (paragraph && prevLine && !startsNewParagraph(prevLine, line, left)) {
+      paragraph.text = appendLine(paragraph.text, line.text);
+    } else {
+      flushParagraph();
+      paragraph = { text: line.text, page: line.page, first: line };
+    }
+    prevLine = line;
+  }
+  flushSection();
+
+  const doc: ExtractedDocument = { source: 'pdf', title, pageCount: layouts.length, sections };
+  if (tables.length > 0) {
+    doc.tables = tables.sort((a, b) => parseInt(a.id.slice(1), 10) - parseInt(b.id.slice(1), 10));
+  }
+  return { doc, captioned };
+}
+
+/**
+ * Turn matched figure regions into image assets. Pages are only rendered when
+ * they have a captioned image, so text-only papers stay cheap to extract.
+ */
+async function extractFigureAssets(
+  pdf: pdfjsLib.PDFDocumentProxy,
+  captioned: CaptionedFigure[]
+): Promise<DocumentAsset[]> {
+  const assets: DocumentAsset[] = [];
+  const byPage = new Map<number, CaptionedFigure[]>();
+  for (const entry of captioned) {
+    if (!entry.region || !entry.figure.page) continue;
+    byPage.set(entry.figure.page, [...(byPage.get(entry.figure.page) ?? []), entry]);
+  }
+
+  for (const [pageNumber, entries] of byPage) {
+    const page = await pdf.getPage(pageNumber);
+    const images = await renderImageRegions(page, entries.map((e) => e.region!));
+    images.forEach((src, index) => {
+      const figure = entries[index].figure;
+      const asset: DocumentAsset = {
+        id: `asset-${assets.length + 1}`,
+        kind: 'image',
+        path: `page-${pageNumber}/${figure.id.toLowerCase()}.png`,
+        mimeType: 'image/png',
+        byteLength: Math.floor((src.length - src.indexOf(',') - 1) * 0.75),
+        src,
+      };
+      assets.push(asset);
+      figure.assetIds = [asset.id];
+    });
+  }
+
+  return assets;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Extract a structured document from a PDF using pdf.js item geometry:
+ * reading order across columns, headings from font size and numbering,
+ * running headers/footers removed, and page numbers kept on every paragraph.
+ * Captioned figures are cropped from the rendered page and kept as assets.
+ */
+export async function extractDocumentFromPDF(file: File): Promise<ExtractedDocument> {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
-  let fullText = '';
+  const layouts: PageLayout[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
     const content = await page.getTextContent();
-    const pageText = content.items
-      .map((item) => {
-        if ('str' in item) {
-          return item.str;
-        }
-        return '';
-      })
-      .join(' ');
-    fullText += pageText + '\n\n';
+    const { tables: detected, remaining } = detectTables(toPositionedItems(content.items), viewport.width);
+    const tables = detected.map((d) => ({
+      detected: d,
+      table: { id: '', caption: '', sectionId: '', page: i, header: d.header, rows: d.rows },
+    }));
+    const lines = orderLines([
+      ...buildLines(remaining, i, viewport.width),
+      ...tables.map((t) => tablePlaceholder(t.detected, t.table, i, viewport.width)),
+    ]);
+    const images = await findImageRegions(page);
+    layouts.push({ page: i, width: viewport.width, height: viewport.height, lines, images, tables });
   }
 
-  return fullText.trim();
+  removeRunningHeaders(layouts);
+  assignTableIds(layouts);
+  const { doc, captioned } = buildSections(layouts);
+  if (captioned.length === 0) return doc;
+
+  const assets = await extractFigureAssets(pdf, captioned);
+  return {
+    ...doc,
+    figures: captioned.map((c) => c.figure).sort((a, b) => parseInt(a.id.slice(1), 10) - parseInt(b.id.slice(1), 10)),
+    assets,
+  };
+}
+
+export async function extractTextFromPDF(file: File): Promise<string> {
+  return documentToText(await extractDocumentFromPDF(file));
 }
 
 export async function extractTextFromText(file: File): Promise<string> {
   return await file.text();
 }
 
-export async function extractText(file: File): Promise<string> {
+export async function extractDocument(file: File): Promise<ExtractedDocument> {
+  if (isSourceBundle(file.name)) {
+    return extractDocumentFromBundle(file);
+  }
+
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   switch (extension) {
     case 'pdf':
-      return extractTextFromPDF(file);
+      return extractDocumentFromPDF(file);
+    case 'tex':
+      return parseLatexDocument(await extractTextFromText(file));
     case 'txt':
     case 'md':
-    case 'tex':
-      return extractTextFromText(file);
+      return buildTextDocument(await extractTextFromText(file));
     default:
       throw new Error(`Unsupported file type: ${extension}`);
   }
 }
+
+export async function extractText(file: File): Promise<string> {
+  return documentToText(await extractDocument(file));
+}
@@ -0,0 +1,238 @@
+/**
+ * PDF Table Detection
+ *
+ * Recovers tables from pdf.js text-item geometry: consecutive baselines that
+ * split into several cells at wide gaps, whose cells line up into columns and
+ * carry mostly numbers, are read as a grid instead of as prose.
+ */
+
+/** The subset of a positioned text item the detector needs */
+export interface TableItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface DetectedTable {
+  x0: number;
+  x1: number;
+  top: number;      // baseline of the first row (PDF user space, y grows upward)
+  bottom: number;   // baseline of the last row
+  fontSize: number;
+  header?: string[];
+  rows: string[][];
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Row {
+  y: number;
+  fontSize: number;
+  items: TableItem[];
+  cells: Cell[];
+}
+
+// Gap between cells, in multiples of the font size (word spacing is ~0.25)
+const CELL_GAP = 0.9;
+
+// Rows further apart than this (in font sizes) end a table
+const ROW_GAP = 2.4;
+
+// Longer cells are prose, not table data
+const MAX_CELL_LENGTH = 48;
+
+const MIN_ROWS = 3;
+const MIN_COLUMNS = 3;
+
+// Share of body cells that must contain a digit
+const MIN_NUMERIC_SHARE = 0.3;
+
+function joinCell(items: TableItem[]): string {
+  return items.map((i) => i.text).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function groupRows(items: TableItem[]): Row[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Row[] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row.y - item.y) <= Math.max(row.fontSize, item.fontSize) * 0.4) {
+      row.items.push(item);
+      row.fontSize = Math.max(row.fontSize, item.fontSize);
+    } else {
+      rows.push({ y: item.y, fontSize: item.fontSize, items: [item], cells: [] });
+    }
+  }
+
+  for (const row of rows) {
+    row.items.sort((a, b) => a.x - b.x);
+    let current: TableItem[] = [];
+    const flush = () => {
+      const text = joinCell(current);
+      if (text) {
+        const last = current[current.length - 1];
+        row.cells.push({ text, x0: current[0].x, x1: last.x + last.width });
+      }
+      current = [];
+    };
+    for (const item of row.items) {
+      const prev = current[current.length - 1];
+      if (prev && item.x - (prev.x + prev.width) > Math.max(prev.fontSize, item.fontSize) * CELL_GAP) flush();
+      current.push(item);
+    }
+    flush();
+  }
+
+  return rows;
+}
+
+function isCandidateRow(row: Row): boolean {
+  return row.cells.length >= 2 && row.cells.every((c) => c.text.length <= MAX_CELL_LENGTH);
+}
+
+function hasDigit(text: string): boolean {
+  return /\d/.test(text);
+}
+
+/**
+ * Column spans from the rows with the most cells (header cells that span
+ * several columns would otherwise merge them), widened by every other row.
+ */
+function findColumns(rows: Row[]): Cell[] {
+  const widest = Math.max(...rows.map((r) => r.cells.length));
+  const spans = rows
+    .filter((r) => r.cells.length === widest)
+    .flatMap((r) => r.cells)
+    .sort((a, b) => a.x0 - b.x0);
+
+  const columns: Cell[] = [];
+  for (const span of spans) {
+    const last = columns[columns.length - 1];
+    if (last && span.x0 <= last.x1) {
+      last.x1 = Math.max(last.x1, span.x1);
+    } else {
+      columns.push({ text: '', x0: span.x0, x1: span.x1 });
+    }
+  }
+  return columns;
+}
+
+function columnFor(cell: Cell, columns: Cell[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, i) => {
+    const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+    const score = overlap > 0 ? overlap : -Math.abs((cell.x0 + cell.x1) / 2 - (column.x0 + column.x1) / 2);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function toGrid(rows: Row[], columns: Cell[]): string[][] {
+  return rows.map((row) => {
+    const grid = columns.map(() => '');
+    for (const cell of row.cells) {
+      const index = columnFor(cell, columns);
+      grid[index] = grid[index] ? `${grid[index]} ${cell.text}` : cell.text;
+    }
+    return grid;
+  });
+}
+
+function buildTable(block: Row[]): DetectedTable | null {
+  if (block.length < MIN_ROWS) return null;
+  if (block.filter((r) => r.cells.length >= MIN_COLUMNS).length < block.length / 2) return null;
+
+  const columns = findColumns(block);
+  if (columns.length < MIN_COLUMNS) return null;
+
+  const grid = toGrid(block, columns);
+
+  // Leading rows without any digits are header lines (at most two)
+  let headerRows = 0;
+  while (headerRows < 2 && headerRows < grid.length - MIN_ROWS + 1 && !grid[headerRows].some(hasDigit)) {
+    headerRows++;
+  }
+  const body = grid.slice(headerRows);
+  const cells = body.flat().filter(Boolean);
+  if (cells.length === 0 || cells.filter(hasDigit).length / cells.length < MIN_NUMERIC_SHARE) return null;
+
+  const header = headerRows > 0
+    ? columns.map((_, c) => grid.slice(0, headerRows).map((r) => r[c]).filter(Boolean).join(' '))
+    : undefined;
+
+  return {
+    x0: Math.min(...block.flatMap((r) => r.cells.map((c) => c.x0))),
+    x1: Math.max(...block.flatMap((r) => r.cells.map((c) => c.x1))),
+    top: block[0].y,
+    bottom: block[block.length - 1].y,
+    fontSize: Math.max(...block.map((r) => r.fontSize)),
+    header,
+    rows: body,
+  };
+}
+
+function detectInRegion(items: TableItem[]): { tables: DetectedTable[]; used: Set<TableItem> } {
+  const rows = groupRows(items);
+  const tables: DetectedTable[] = [];
+  const used = new Set<TableItem>();
+
+  let block: Row[] = [];
+  const flush = () => {
+    const table = buildTable(block);
+    if (table) {
+      tables.push(table);
+      block.forEach((row) => row.items.forEach((item) => used.add(item)));
+    }
+    block = [];
+  };
+
+  for (const row of rows) {
+    const prev = block[block.length - 1];
+    const close = prev && prev.y - row.y <= Math.max(prev.fontSize, row.fontSize) * ROW_GAP;
+    if (!isCandidateRow(row)) {
+      flush();
+      continue;
+    }
+    if (!close) flush();
+    block.push(row);
+  }
+  flush();
+
+  return { tables, used };
+}
+
+/**
+ * Find tables on one page. Full-width tables are found first; what is left is
+ * searched per column so a table in one column is not merged with prose
+ * running beside it in the other.
+ */
+export function detectTables<T extends TableItem>(items: T[], pageWidth: number): { tables: DetectedTable[]; remaining: T[] } {
+  const mid = pageWidth / 2;
+  const found: DetectedTable[] = [];
+  let remaining = items;
+
+  const regions: ((item: T) => boolean)[] = [
+    () => true,
+    (item) => item.x + item.width <= mid + pageWidth * 0.02,
+    (item) => item.x >= mid - pageWidth * 0.02,
+  ];
+
+  for (const inRegion of regions) {
+    const { tables, used } = detectInRegion(remaining.filter(inRegion));
+    found.push(...tables);
+    remaining = remaining.filter((item) => !used.has(item));
+  }
+
+  return { tables: found.sort((a, b) => b.top - a.top), remaining };
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { DocumentAsset } from '@/types';
+
+/**
+ * Project asset registry. Image elements carry only an `assetId`; the image
+ * data for the current project lives here so animation JSON stays small.
+ */
+class ProjectAssets {
+  private assets = new Map<string, DocumentAsset>();
+
+  set(assets: DocumentAsset[] = []) {
+    this.assets = new Map(assets.map((asset) => [asset.id, asset]));
+  }
+
+  get(assetId: unknown): DocumentAsset | undefined {
+    return typeof assetId === 'string' ? this.assets.get(assetId) : undefined;
+  }
+
+  getSrc(assetId: unknown): string | undefined {
+    return this.get(assetId)?.src;
+  }
+}
+
+// Singleton instance
+let projectAssetsInstance: ProjectAssets | null = null;
+
+export function getProjectAssets(): ProjectAssets {
+  if (!projectAssetsInstance) {
+    projectAssetsInstance = new ProjectAssets();
+  }
+  return projectAssetsInstance;
+}
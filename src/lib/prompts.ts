@@ -0,0 +1,303 @@
+/**
+ * Prompt Templates
+ *
+ * The prompts sent to the model live in versioned template files,
+ * prompts/<name>/v<N>.txt, so they can be tuned without touching code. A
+ * call renders the latest version of each template unless the request
+ * asks for another, and analyses record the versions they used, so prompt
+ * changes can be A/B tested and old outputs reproduced. Cached analyses
+ * are keyed by version, so change a prompt by adding a version rather than
+ * editing one that is already in use.
+ *
+ * Templates substitute {{variable}} and keep or drop text with
+ * {{#if variable}}...{{else}}...{{/if}} and {{#unless variable}}...{{/unless}};
+ * {{! comments }} are dropped, and a tag alone on its line takes the line
+ * with it. Each template's variables are typed in PromptVariables; a
+ * template that uses any other name fails to render.
+ *
+ *   PROMPT_DIR               default prompts
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { PromptName, PromptVersions } from '@/types';
+
+export const PROMPT_NAMES: PromptName[] = [
+  'chunk-summary',
+  'outline',
+  'section',
+  'animation-code',
+  'narration',
+  'segment',
+  'translation',
+];
+
+type TemplateValue = string | number | boolean;
+
+/**
+ * What each template is rendered with. Every variable is always passed
+ * (empty string, 0 or false when it does not apply), so a template can rely
+ * on the names below and nothing else.
+ */
+export interface PromptVariables {
+  'chunk-summary': {
+    partNumber: number;
+    partCount: number;
+    paperTitle: string;
+    chunkId: string;
+    text: string;
+    references: string;         // equation/table/figure lists for the chunk
+  };
+  outline: {
+    paperHeading: string;
+    paperText: string;
+    audienceRules: string;
+    languageRule: string;
+    includeEquations: boolean;
+    hasSourceEquations: boolean;
+    pageCount: number;           // 0 when the source has no pages
+    chunked: boolean;            // paperText is a digest of chunks
+    chunkCount: number;
+  };
+  section: {
+    sectionNumber: number;
+    sectionCount: number;
+    sectionId: string;
+    paperTitle: string;
+    outline: string;             // numbered outline, the current section marked
+    title: string;
+    contentType: string;
+    visualization: string;
+    concept: string;
+    equations: string;           // bulleted verbatim equations the section explains
+    guidance: string;
+    isFirstSection: boolean;
+    perspective: string;
+    audienceRules: string;
+    languageRule: string;
+    pacingRule: string;
+    detailedStyle: boolean;
+    includeEquations: boolean;
+    includeCode: boolean;
+    targetSeconds: number;       // 0 for no target
+    lightColors: boolean;        // otherwise dark, unless fieldColors
+    fieldColors: boolean;
+    visualizationGuidance: string;
+    hasSourceEquations: boolean;
+    hasFigureImages: boolean;
+    hasSourceTables: boolean;
+    pageCount: number;
+    isThreejs: boolean;
+    paperHeading: string;
+    paperText: string;
+  };
+  'animation-code': {
+    engine: string;
+    isThreejs: boolean;
+    isD3: boolean;
+    isManim: boolean;
+    isCss: boolean;
+    concept: string;
+    contentType: string;
+    narration: string;
+    equations: string;           // comma-separated
+  };
+  narration: {
+    style: string;
+    perspective: string;
+    title: string;
+    concept: string;
+    equations: string;
+    stepCount: number;
+    steps: string;               // one line per step
+    firstStepId: string;
+    currentNarration: string;
+    quotes: string;              // bulleted verified quotes from the paper
+    languageRule: string;
+  };
+  segment: {
+    style: string;
+    perspective: string;
+    title: string;
+    concept: string;
+    step: string;
+    previousText: string;
+    currentText: string;
+    nextText: string;
+    quotes: string;
+    languageRule: string;
+  };
+  translation: {
+    languageName: string;
+    segments: string;            // JSON of the segments to translate
+    segmentCount: number;
+    firstSegmentId: string;
+  };
+}
+
+export interface RenderedPrompt {
+  text: string;
+  version: number;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'block'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+// ============================================
+// Templates on Disk
+// ============================================
+
+function promptDir(): string {
+  return path.resolve(process.env.PROMPT_DIR || 'prompts');
+}
+
+function templatePath(name: PromptName, version: number): string {
+  return path.join(promptDir(), name, `v${version}.txt`);
+}
+
+/** Versions of `name` on disk, oldest first */
+export function listPromptVersions(name: PromptName): number[] {
+  const dir = path.join(promptDir(), name);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((file) => /^v(\d+)\.txt$/.exec(file)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/** The version a call renders: the requested one, or the latest on disk */
+export function resolvePromptVersion(name: PromptName, versions: PromptVersions = {}): number {
+  const available = listPromptVersions(name);
+  const requested = versions[name];
+  if (requested !== undefined) {
+    if (!available.includes(requested)) {
+      throw new Error(`Prompt "${name}" has no version ${requested} (available: ${available.join(', ') || 'none'})`);
+    }
+    return requested;
+  }
+  if (available.length === 0) {
+    throw new Error(`No templates for prompt "${name}" in ${promptDir()}`);
+  }
+  return available[available.length - 1];
+}
+
+/** Resolve the versions of several templates at once, e.g. for a cache key */
+export function resolvePromptVersions(names: PromptName[], versions: PromptVersions = {}): PromptVersions {
+  return Object.fromEntries(names.map((name) => [name, resolvePromptVersion(name, versions)]));
+}
+
+// Parsed templates, re-read when the file changes so edits apply without a restart
+const templates = new Map<string, { mtimeMs: number; nodes: TemplateNode[] }>();
+
+function loadTemplate(name: PromptName, version: number): TemplateNode[] {
+  const file = templatePath(name, version);
+  const { mtimeMs } = statSync(file);
+  const cached = templates.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.nodes;
+
+  const nodes = parseTemplate(readFileSync(file, 'utf8'), `${name} v${version}`);
+  templates.set(file, { mtimeMs, nodes });
+  return nodes;
+}
+
+// ============================================
+// Parsing and Rendering
+// ============================================
+
+function parseTemplate(source: string, label: string): TemplateNode[] {
+  // Tags alone on their line disappear with the line; so does the file's final newline
+  const text = source.replace(/\r?\n$/, '').replace(/^[ \t]*(\{\{(?:[#/!]|else\b)[^}]*\}\})[ \t]*(?:\r?\n|$)/gm, '$1');
+
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { kind: 'block' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(/\{\{([^}]*)\}\}/g)) {
+    if (match.index > last) current().push({ kind: 'text', text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    const block = /^#(if|unless)\s+(\w+)$/.exec(tag);
+    if (tag.startsWith('!')) continue;
+    if (block) {
+      const node: Extract<TemplateNode, { kind: 'block' }> = { kind: 'block', name: block[2], negate: block[1] === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new Error(`Prompt ${label}: unexpected {{else}}`);
+      top.inElse = true;
+    } else if (tag === '/if' || tag === '/unless') {
+      const top = stack.pop();
+      if (!top || top.node.negate !== (tag === '/unless')) throw new Error(`Prompt ${label}: unexpected {{${tag}}}`);
+    } else if (/^\w+$/.test(tag)) {
+      current().push({ kind: 'variable', name: tag });
+    } else {
+      throw new Error(`Prompt ${label}: cannot read {{${tag}}}`);
+    }
+  }
+  if (stack.length > 0) throw new Error(`Prompt ${label}: {{#${stack[0].node.negate ? 'unless' : 'if'} ${stack[0].node.name}}} is never closed`);
+  if (last < text.length) root.push({ kind: 'text', text: text.slice(last) });
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: Record<string, TemplateValue>, label: string): string {
+  const value = (name: string) => {
+    if (!(name in variables)) throw new Error(`Prompt ${label} uses unknown variable "${name}"`);
+    return variables[name];
+  };
+  return nodes.map((node) => {
+    if (node.kind === 'text') return node.text;
+    if (node.kind === 'variable') return String(value(node.name));
+    const shown = Boolean(value(node.name)) !== node.negate;
+    return renderNodes(shown ? node.then : node.otherwise, variables, label);
+  }).join('');
+}
+
+/** Render the requested (or latest) version of a prompt template */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  versions: PromptVersions = {}
+): RenderedPrompt {
+  const version = resolvePromptVersion(name, versions);
+  const text = renderNodes(loadTemplate(name, version), variables as unknown as Record<string, TemplateValue>, `${name} v${version}`);
+  return { text, version };
+}
+
+/**
+ * Read requested template versions from a request: an object or JSON string
+ * such as {"section": 2}. Unknown prompt names are ignored; versions that
+ * do not exist are reported.
+ */
+export function parsePromptVersions(raw: unknown): PromptVersions | { error: string } {
+  let input = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return {};
+    try {
+      input = JSON.parse(raw);
+    } catch {
+      return { error: 'promptVersions must be a JSON object' };
+    }
+  }
+  if (!input || typeof input !== 'object') return {};
+
+  const versions: PromptVersions = {};
+  for (const name of PROMPT_NAMES) {
+    const requested = (input as Record<string, unknown>)[name];
+    if (requested === undefined) continue;
+    const version = typeof requested === 'string' ? parseInt(requested.replace(/^v/, ''), 10) : requested;
+    if (typeof version !== 'number' || !listPromptVersions(name).includes(version)) {
+      return { error: `Prompt "${name}" has no version ${String(requested)}` };
+    }
+    versions[name] = version;
+  }
+  return versions;
+}
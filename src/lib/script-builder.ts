@@ -4,10 +4,18 @@ import {
   SectionScript,
   SectionTransition,
   NarrationSegment,
+  NarrationVoice,
+  SpeechTiming,
   TransitionType,
 } from '@/types';
+import { segmentWords } from '@/lib/languages';
 
 const DEFAULT_TRANSITION_DURATION = 1.0; // seconds
+const MIN_SPOKEN_DURATION = 1.0; // seconds, for segments scaled from the voice's rate
+
+type SegmentDuration = (segment: NarrationSegment) => number;
+
+const estimatedDuration: SegmentDuration = (segment) => segment.estimatedDuration;
 
 function chooseTransitionType(
   fromViz: string,
@@ -32,33 +40,72 @@ function chooseTransitionType(
   return 'slide-left';
 }
 
-function computeSegmentTimestamps(segments: NarrationSegment[]): void {
+/**
+ * Segment lengths from measured speech: a segment's own measurement, or its
+ * word count at the voice's measured seconds per word. Estimates are used
+ * when nothing was measured with this voice and rate in the narration's
+ * language.
+ */
+function spokenDuration(
+  timing: SpeechTiming | undefined,
+  language: string,
+  narrationVoice: NarrationVoice | undefined
+): SegmentDuration {
+  if (
+    !timing
+    || !narrationVoice
+    || timing.language !== language
+    || timing.voice !== narrationVoice.voice
+    || timing.rate !== narrationVoice.rate
+  ) return estimatedDuration;
+
+  let words = 0;
+  let seconds = 0;
+  for (const [text, measured] of Object.entries(timing.measured)) {
+    words += segmentWords(text, language).length;
+    seconds += measured;
+  }
+  if (words === 0) return estimatedDuration;
+
+  const secondsPerWord = seconds / words;
+  return (segment) => timing.measured[segment.text]
+    ?? Math.max(MIN_SPOKEN_DURATION, segmentWords(segment.text, language).length * secondsPerWord);
+}
+
+function computeSegmentTimestamps(segments: NarrationSegment[], duration: SegmentDuration): void {
   let offset = 0;
   for (const segment of segments) {
     const pauseBefore = segment.pacing === 'pause-before' ? 0.5 : 0;
     const pauseAfter = segment.pacing === 'pause-after' ? 0.5 : 0;
     segment.startTime = offset + pauseBefore;
-    segment.endTime = segment.startTime + segment.estimatedDuration;
+    segment.endTime = segment.startTime + duration(segment);
     offset = segment.endTime + pauseAfter;
   }
 }
 
+/** A copy of `script` with segment times and the total recomputed from `duration` (the estimates by default) */
+export function retimeSectionScript(script: SectionScript, duration: SegmentDuration = estimatedDuration): SectionScript {
+  const segments = script.segments.map((seg) => ({ ...seg }));
+  computeSegmentTimestamps(segments, duration);
+  return {
+    ...script,
+    segments,
+    totalDuration:
+      segments.length > 0 ? segments[segments.length - 1].endTime : 0,
+  };
+}
+
 export function buildPresentationScript(
-  analysis: AnalysisResult
+  analysis: AnalysisResult,
+  narrationVoice?: NarrationVoice   // measured timings apply only when they match it
 ): PresentationScript {
   const sectionScripts: SectionScript[] = [];
+  const duration = spokenDuration(analysis.speechTiming, analysis.language || 'en', narrationVoice);
 
   for (const section of analysis.sections) {
     if (section.script) {
       // Script was generated by Gemini — compute timestamps
-      const script = { ...section.script };
-      script.segments = script.segments.map((seg) => ({ ...seg }));
-      computeSegmentTimestamps(script.segments);
-      script.totalDuration =
-        script.segments.length > 0
-          ? script.segments[script.segments.length - 1].endTime
-          : 0;
-      sectionScripts.push(script);
+      sectionScripts.push(retimeSectionScript(section.script, duration));
     } else {
       // Fallback: create a single-segment script from the flat narration
       const stepIds =
@@ -90,7 +137,7 @@ export function buildPresentationScript(
         };
       });
 
-      computeSegmentTimestamps(segments);
+      computeSegmentTimestamps(segments, duration);
 
       sectionScripts.push({
         sectionId: section.id,
@@ -0,0 +1,394 @@
+/**
+ * Source Bundle Ingestion
+ *
+ * Reads arXiv-style source archives (.tar.gz / .tgz / .tar / .zip, or a
+ * single gzipped .tex), finds the main LaTeX file, inlines \input/\include,
+ * and returns one combined document with figure images and bibliography.
+ * Archives are decoded with the platform DecompressionStream — no extra deps.
+ */
+
+import { BibliographyEntry, DocumentAsset, ExtractedDocument } from '@/types';
+import { collectMacros, MacroTable, parseBibtex, parseLatexDocument, stripComments } from '@/lib/latex-parser';
+
+export interface BundleEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const MAX_INPUT_DEPTH = 12;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  eps: 'application/postscript',
+};
+
+// Formats an <img> can show directly; the rest are kept as metadata only
+const DISPLAYABLE_IMAGES = new Set(['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp']);
+
+const GRAPHICS_EXTENSIONS = ['', '.png', '.jpg', '.jpeg', '.pdf', '.eps', '.svg', '.gif', '.webp'];
+
+const MAIN_FILE_NAMES = ['main.tex', 'ms.tex', 'paper.tex', 'article.tex', 'manuscript.tex'];
+
+const BUNDLE_SUFFIXES = ['.tar.gz', '.tgz', '.tar', '.zip', '.gz'];
+
+export function isSourceBundle(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return BUNDLE_SUFFIXES.some((suffix) => name.endsWith(suffix));
+}
+
+// ============================================
+// Archive Decoding
+// ============================================
+
+async function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+  const slice = bytes.subarray(start, start + length);
+  const nul = slice.indexOf(0);
+  return new TextDecoder().decode(nul >= 0 ? slice.subarray(0, nul) : slice);
+}
+
+function readOctal(bytes: Uint8Array, start: number, length: number): number {
+  const text = readString(bytes, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isTarArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && readString(bytes, 257, 5) === 'ustar';
+}
+
+/** Parse a POSIX/GNU tar archive, honouring GNU long names and pax `path`. */
+export function readTarEntries(bytes: Uint8Array): BundleEntry[] {
+  const entries: BundleEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+
+    const name = readString(header, 0, 100);
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const dataStart = offset + 512;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      const path = new TextDecoder().decode(data).match(/\d+ path=([^\n]*)\n/);
+      if (path) longName = path[1];
+      continue;
+    }
+    if (type !== '0' && type !== '\0') {
+      longName = null;
+      continue;
+    }
+
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
+
+/** Parse a zip archive from its central directory (stored and deflate entries). */
+export async function readZipEntries(bytes: Uint8Array): Promise<BundleEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Invalid zip archive: end of central directory not found');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  if (pointer === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  const entries: BundleEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(pointer, true) !== 0x02014b50) break;
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const path = new TextDecoder().decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ path, data: raw });
+    } else if (method === 8) {
+      entries.push({ path, data: await decompress(raw, 'deflate-raw') });
+    } else {
+      console.warn(`Skipping ${path}: unsupported zip compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
+
+export async function readBundleEntries(file: File): Promise<BundleEntry[]> {
+  const name = file.name.toLowerCase();
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (name.endsWith('.zip')) return readZipEntries(bytes);
+  if (name.endsWith('.tar')) return readTarEntries(bytes);
+
+  const unpacked = await decompress(bytes, 'gzip');
+  if (isTarArchive(unpacked)) return readTarEntries(unpacked);
+
+  // arXiv serves single-file submissions as a bare gzipped .tex
+  const baseName = file.name.replace(/\.(tgz|gz)$/i, '');
+  return [{ path: /\.tex$/i.test(baseName) ? baseName : `${baseName}.tex`, data: unpacked }];
+}
+
+// ============================================
+// Paths
+// ============================================
+
+export function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '';
+}
+
+function joinPath(dir: string, path: string): string {
+  return normalizePath(dir ? `${dir}/${path}` : path);
+}
+
+function extensionOf(path: string): string {
+  const match = path.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : '';
+}
+
+/** Strip a single top-level folder shared by every entry (common in zips). */
+function stripCommonRoot(entries: BundleEntry[]): BundleEntry[] {
+  const normalized = entries.map((e) => ({ ...e, path: normalizePath(e.path) }));
+  const roots = new Set(normalized.map((e) => e.path.split('/')[0]));
+  if (roots.size !== 1 || normalized.some((e) => !e.path.includes('/'))) return normalized;
+  const root = Array.from(roots)[0];
+  return normalized
+    .filter((e) => !e.path.startsWith('__MACOSX'))
+    .map((e) => ({ ...e, path: e.path.slice(root.length + 1) }));
+}
+
+// ============================================
+// Main File & Includes
+// ============================================
+
+/**
+ * Pick the root document: a .tex with both \documentclass and
+ * \begin{document}, preferring conventional names, then the largest.
+ */
+export function findMainTexFile(texFiles: Map<string, string>): string | undefined {
+  const candidates = Array.from(texFiles.entries()).filter(([, content]) => {
+    const source = stripComments(content);
+    return /\\documentclass/.test(source) && /\\begin\{document\}/.test(source);
+  });
+
+  if (candidates.length === 0) {
+    const all = Array.from(texFiles.entries());
+    all.sort((a, b) => b[1].length - a[1].length);
+    return all[0]?.[0];
+  }
+
+  const conventional = candidates.find(([path]) => MAIN_FILE_NAMES.includes(path.split('/').pop()!.toLowerCase()));
+  if (conventional) return conventional[0];
+
+  candidates.sort((a, b) => b[1].length - a[1].length);
+  return candidates[0][0];
+}
+
+function lookupTex(texFiles: Map<string, string>, baseDir: string, target: string): string | undefined {
+  const cleaned = target.trim().replace(/^"|"$/g, '');
+  for (const candidate of [joinPath(baseDir, cleaned), normalizePath(cleaned)]) {
+    if (texFiles.has(candidate)) return candidate;
+    if (texFiles.has(`${candidate}.tex`)) return `${candidate}.tex`;
+  }
+  return undefined;
+}
+
+/**
+ * Inline `\input{}`, `\include{}` and `\subfile{}` recursively. Paths resolve
+ * against the main file's directory, as LaTeX does. Cycles and missing files
+ * are left out with a warning rather than failing the whole bundle.
+ */
+export function resolveInputs(
+  source: string,
+  baseDir: string,
+  texFiles: Map<string, string>,
+  used: string[] = [],
+  depth: number = 0
+): string {
+  const pattern = /\\(input|include|subfile)(?![a-zA-Z])\s*(?:\{([^}]*)\}|([^\s{}\\]+))/g;
+
+  return stripComments(source).replace(pattern, (whole, _command: string, braced?: string, bare?: string) => {
+    const target = (braced ?? bare ?? '').trim();
+    const path = lookupTex(texFiles, baseDir, target);
+    if (!path) {
+      console.warn(`Source bundle: could not resolve \\input{${target}}`);
+      return '';
+    }
+    if (depth >= MAX_INPUT_DEPTH || used.includes(path)) {
+      console.warn(`Source bundle: skipping recursive include of ${path}`);
+      return '';
+    }
+    used.push(path);
+    return `\n${resolveInputs(texFiles.get(path)!, baseDir, texFiles, used, depth + 1)}\n`;
+  });
+}
+
+/** Macros from local packages pulled in with \usepackage (e.g. a macros.sty). */
+function collectLocalPackageMacros(source: string, baseDir: string, files: Map<string, string>): MacroTable {
+  const macros: MacroTable = new Map();
+  const pattern = /\\usepackage\s*(\[[^\]]*\])?\s*\{([^}]*)\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    for (const name of match[2].split(',')) {
+      const path = joinPath(baseDir, `${name.trim()}.sty`);
+      const content = files.get(path);
+      if (content) collectMacros(stripComments(content), macros);
+    }
+  }
+  return macros;
+}
+
+// ============================================
+// Assets
+// ============================================
+
+function toDataUrl(data: Uint8Array, mimeType: string): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+function graphicsPaths(source: string): string[] {
+  const match = source.match(/\\graphicspath\s*\{((?:\{[^}]*\}\s*)+)\}/);
+  if (!match) return [''];
+  const dirs = Array.from(match[1].matchAll(/\{([^}]*)\}/g)).map((m) => m[1]);
+  return ['', ...dirs];
+}
+
+function lookupImage(images: Map<string, DocumentAsset>, baseDir: string, searchDirs: string[], target: string): DocumentAsset | undefined {
+  for (const dir of searchDirs) {
+    for (const ext of GRAPHICS_EXTENSIONS) {
+      const path = joinPath(joinPath(baseDir, dir), `${target}${ext}`);
+      const asset = images.get(path);
+      if (asset) return asset;
+    }
+  }
+  return undefined;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export async function extractDocumentFromBundle(file: File): Promise<ExtractedDocument> {
+  const entries = stripCommonRoot(await readBundleEntries(file));
+  const decoder = new TextDecoder();
+
+  const texFiles = new Map<string, string>();
+  const styFiles = new Map<string, string>();
+  const images = new Map<string, DocumentAsset>();
+  const assets: DocumentAsset[] = [];
+  const bibliography: BibliographyEntry[] = [];
+
+  for (const entry of entries) {
+    const ext = extensionOf(entry.path);
+    if (ext === 'tex') {
+      texFiles.set(entry.path, decoder.decode(entry.data));
+    } else if (ext === 'sty') {
+      styFiles.set(entry.path, decoder.decode(entry.data));
+    } else if (ext === 'bib') {
+      const asset: DocumentAsset = {
+        id: `asset-${assets.length + 1}`,
+        kind: 'bibliography',
+        path: entry.path,
+        mimeType: 'application/x-bibtex',
+        byteLength: entry.data.length,
+      };
+      assets.push(asset);
+      bibliography.push(...parseBibtex(decoder.decode(entry.data)));
+    } else if (IMAGE_MIME_TYPES[ext]) {
+      const asset: DocumentAsset = {
+        id: `asset-${assets.length + 1}`,
+        kind: 'image',
+        path: entry.path,
+        mimeType: IMAGE_MIME_TYPES[ext],
+        byteLength: entry.data.length,
+        src: DISPLAYABLE_IMAGES.has(ext) ? toDataUrl(entry.data, IMAGE_MIME_TYPES[ext]) : undefined,
+      };
+      assets.push(asset);
+      images.set(entry.path, asset);
+    }
+  }
+
+  const mainPath = findMainTexFile(texFiles);
+  if (!mainPath) {
+    throw new Error('No .tex file found in the source bundle');
+  }
+
+  const baseDir = dirname(mainPath);
+  const used: string[] = [mainPath];
+  const combined = resolveInputs(texFiles.get(mainPath)!, baseDir, texFiles, used);
+  const macros = collectLocalPackageMacros(combined, baseDir, styFiles);
+
+  const doc = parseLatexDocument(combined, { macros, bibliography });
+
+  // Attach figure images referenced by \includegraphics
+  const searchDirs = graphicsPaths(combined);
+  for (const figure of doc.figures || []) {
+    const assetIds = (figure.graphics || [])
+      .map((target) => lookupImage(images, baseDir, searchDirs, target)?.id)
+      .filter((id): id is string => typeof id === 'string');
+    if (assetIds.length > 0) figure.assetIds = assetIds;
+  }
+
+  return {
+    ...doc,
+    source: 'bundle',
+    assets,
+    sourceFiles: used,
+  };
+}
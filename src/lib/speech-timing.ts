@@ -0,0 +1,111 @@
+'use client';
+
+import { PresentationScript, SpeechTiming } from '@/types';
+import { getSpeechEngine } from '@/lib/speech';
+
+// Segments spoken silently to learn a voice's pace before playback
+const CALIBRATION_SAMPLES = 3;
+
+export interface SpeechTimingOptions {
+  voice?: SpeechSynthesisVoice;
+  rate: number;
+  language: string;
+}
+
+export function voiceKey(voice?: SpeechSynthesisVoice): string {
+  return voice?.voiceURI || 'default';
+}
+
+/** Whether `timing` was measured with this voice, rate and language */
+export function timingMatches(timing: SpeechTiming | undefined, { voice, rate, language }: SpeechTimingOptions): timing is SpeechTiming {
+  return !!timing && timing.voice === voiceKey(voice) && timing.rate === rate && timing.language === language;
+}
+
+function emptyTiming({ voice, rate, language }: SpeechTimingOptions): SpeechTiming {
+  return { voice: voiceKey(voice), rate, language, measured: {}, locked: false };
+}
+
+/**
+ * `timing` with one more segment measured. Measurements with another voice,
+ * rate or language start over, since the old ones no longer apply.
+ */
+export function withMeasurement(
+  timing: SpeechTiming | undefined,
+  options: SpeechTimingOptions,
+  text: string,
+  seconds: number
+): SpeechTiming {
+  const base = timingMatches(timing, options) ? timing : emptyTiming(options);
+  return { ...base, measured: { ...base.measured, [text]: Number(seconds.toFixed(2)) } };
+}
+
+/**
+ * Speak `text` at zero volume and time it from the first sound to the end.
+ * Stops any other speech; aborting `signal` stops this one.
+ */
+export async function measureSpokenDuration(
+  text: string,
+  { voice, rate, language }: SpeechTimingOptions,
+  signal?: AbortSignal
+): Promise<number> {
+  signal?.throwIfAborted();
+  const engine = getSpeechEngine();
+  const timing = { startedAt: 0, seconds: -1 };
+  const onAbort = () => engine.stop();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    await engine.speak(text, {
+      voice,
+      rate,
+      language,
+      volume: 0,
+      onStart: () => {
+        timing.startedAt = performance.now();
+      },
+      onEnd: () => {
+        timing.seconds = (performance.now() - timing.startedAt) / 1000;
+      },
+    });
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  signal?.throwIfAborted();
+  if (timing.seconds < 0) {
+    throw new Error('Speech stopped before the segment was measured');
+  }
+  return timing.seconds;
+}
+
+/**
+ * Calibration pass: speak a few segments from across the script silently,
+ * so the rest can be scaled from the voice's pace. Segments already
+ * measured with this voice are kept and not spoken again.
+ */
+export async function calibrateSpeechTiming(
+  script: PresentationScript,
+  options: SpeechTimingOptions,
+  previous?: SpeechTiming,
+  signal?: AbortSignal,
+  onProgress?: (measured: number, total: number) => void
+): Promise<SpeechTiming> {
+  const texts = [...new Set(
+    script.sections.flatMap((section) => section.segments.map((segment) => segment.text))
+  )].filter((text) => text.trim());
+
+  let timing = timingMatches(previous, options) ? previous : undefined;
+  const unmeasured = texts.filter((text) => timing?.measured[text] === undefined);
+  const count = Math.min(CALIBRATION_SAMPLES, unmeasured.length);
+  // Evenly spaced, so one unusually fast or slow passage does not set the pace
+  const samples = Array.from({ length: count }, (_, i) => unmeasured[Math.floor((i * unmeasured.length) / count)]);
+
+  for (let i = 0; i < samples.length; i++) {
+    onProgress?.(i, samples.length);
+    const seconds = await measureSpokenDuration(samples[i], options, signal);
+    timing = withMeasurement(timing, options, samples[i], seconds);
+  }
+  onProgress?.(samples.length, samples.length);
+
+  return timing ?? emptyTiming(options);
+}
@@ -1,10 +1,13 @@
 'use client';
 
+import { CaptionWord, segmentWords, wordIndexAt } from '@/lib/languages';
+
 export interface SpeechOptions {
   rate: number;       // 0.5 - 2.0
   pitch: number;      // 0 - 2
   volume: number;     // 0 - 1
   voice?: SpeechSynthesisVoice;
+  language?: string;  // BCP 47 tag of the text; picks the default voice and word boundaries
   onWord?: (wordIndex: number, word: string) => void;
   onStart?: () => void;
   onEnd?: () => void;
@@ -52,11 +55,16 @@ class SpeechEngine {
     return this.voices;
   }
 
-  getPreferredVoices(): SpeechSynthesisVoice[] {
-    // Prefer English voices that sound natural
+  /**
+   * Natural-sounding voices for `language`, best first. Empty when no
+   * installed voice speaks it; utterances still carry the language, so the
+   * browser can fall back to a voice of its own.
+   */
+  getPreferredVoices(language: string = 'en'): SpeechSynthesisVoice[] {
+    const primary = language.toLowerCase().split('-')[0];
     const preferred = this.voices.filter((v) => {
-      const lang = v.lang.toLowerCase();
-      return lang.startsWith('en') && !v.name.toLowerCase().includes('compact');
+      const lang = v.lang.toLowerCase().replace('_', '-');
+      return lang.split('-')[0] === primary && !v.name.toLowerCase().includes('compact');
     });
 
     // Sort: Google/Microsoft/premium voices first
@@ -99,12 +107,15 @@ class SpeechEngine {
       utterance.rate = opts.rate;
       utterance.pitch = opts.pitch;
       utterance.volume = opts.volume;
+      if (opts.language) {
+        utterance.lang = opts.language;
+      }
 
       // Set voice
       if (opts.voice) {
         utterance.voice = opts.voice;
       } else {
-        const preferred = this.getPreferredVoices();
+        const preferred = this.getPreferredVoices(opts.language);
         if (preferred.length > 0) {
           utterance.voice = preferred[0];
         }
@@ -131,13 +142,14 @@ class SpeechEngine {
       };
 
       // Word boundary event - key for word-by-word highlighting
+      let words: CaptionWord[] | undefined;
       utterance.onboundary = (event) => {
         if (event.name === 'word') {
           opts.onBoundary?.(event.charIndex, event.charLength);
 
-          // Calculate which word index we're at
-          const spokenSoFar = text.substring(0, event.charIndex);
-          const wordIndex = spokenSoFar.split(/\s+/).filter(Boolean).length;
+          // Calculate which word index we're at (spaceless scripts have no spaces to count)
+          words ??= segmentWords(text, opts.language);
+          const wordIndex = wordIndexAt(words, event.charIndex);
           const currentWord = text.substring(event.charIndex, event.charIndex + event.charLength);
           opts.onWord?.(wordIndex, currentWord);
         }
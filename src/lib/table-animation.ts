@@ -0,0 +1,194 @@
+/**
+ * Table Animation
+ *
+ * Pure helpers behind the `table` element: normalizes model-supplied props,
+ * computes sort order and column widths, and maps step progress to row /
+ * column reveal, sort motion and highlight intensity. Shared by the CSS
+ * (per-frame) and D3 (transition-scheduled) renderers.
+ */
+
+import { easeProgress } from '@/lib/keyframes';
+
+// Rows beyond this are left out unless the element lists visibleRows
+export const MAX_TABLE_ROWS = 12;
+
+export interface NormalizedTable {
+  header?: string[];
+  rows: string[][];          // visible rows and columns, in source order
+  rowIndices: number[];      // source index of each visible row
+  columnIndices: number[];   // source index of each visible column
+  reveal: 'rows' | 'columns' | 'none';
+  highlighted: Set<string>;  // `${row}:${column}` in visible coordinates
+  sortedSlots?: number[];    // final slot of each visible row once sorted
+}
+
+/** Fractions of step progress at which each phase starts and ends */
+export interface TablePhases {
+  revealEnd: number;
+  sortStart: number;
+  sortEnd: number;
+  highlightStart: number;
+  highlightEnd: number;
+}
+
+export interface TableFrame {
+  rowOpacity: number[];
+  columnOpacity: number[];
+  rowSlot: number[];         // fractional slot (0 = first body row) for each visible row
+  highlight: number;         // 0-1 intensity for highlighted cells
+}
+
+function toIndexList(raw: unknown, limit: number): number[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const indices = raw.filter((v): v is number => Number.isInteger(v) && v >= 0 && v < limit);
+  return indices.length > 0 ? Array.from(new Set(indices)) : undefined;
+}
+
+function toCellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/** Numeric value of a cell such as "85.3", "12.4%" or "0.91 ± 0.02" */
+export function cellNumber(text: string): number | undefined {
+  const match = text.replace(/,(?=\d{3}\b)/g, '').match(/[-−]?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0].replace('−', '-')) : undefined;
+}
+
+/** Compare two cells in the given direction; cells without a number always sort last */
+function compareCells(a: string, b: string, direction: number): number {
+  const na = cellNumber(a);
+  const nb = cellNumber(b);
+  if (na !== undefined && nb !== undefined) return direction * (na - nb);
+  if (na !== undefined) return -1;
+  if (nb !== undefined) return 1;
+  return direction * a.localeCompare(b);
+}
+
+/**
+ * Validate and normalize a table element's props. Returns null when there is
+ * no usable grid (the element is then skipped by the renderers).
+ */
+export function normalizeTableProps(props: Record<string, unknown>): NormalizedTable | null {
+  if (!Array.isArray(props.rows) || props.rows.length === 0) return null;
+  const allRows = (props.rows as unknown[])
+    .filter(Array.isArray)
+    .map((row) => (row as unknown[]).map(toCellText));
+  if (allRows.length === 0) return null;
+
+  const header = Array.isArray(props.header) ? (props.header as unknown[]).map(toCellText) : undefined;
+  const columnCount = Math.max(header?.length ?? 0, ...allRows.map((r) => r.length));
+
+  const rowIndices = toIndexList(props.visibleRows, allRows.length)
+    ?? allRows.slice(0, MAX_TABLE_ROWS).map((_, i) => i);
+  const columnIndices = toIndexList(props.visibleColumns, columnCount)
+    ?? Array.from({ length: columnCount }, (_, i) => i);
+
+  const rows = rowIndices.map((r) => columnIndices.map((c) => allRows[r][c] ?? ''));
+  const rowPosition = new Map(rowIndices.map((r, i) => [r, i]));
+  const columnPosition = new Map(columnIndices.map((c, i) => [c, i]));
+
+  const highlighted = new Set<string>();
+  if (Array.isArray(props.highlightCells)) {
+    for (const cell of props.highlightCells as unknown[]) {
+      if (!Array.isArray(cell)) continue;
+      const row = rowPosition.get(cell[0]);
+      const column = columnPosition.get(cell[1]);
+      if (row !== undefined && column !== undefined) highlighted.add(`${row}:${column}`);
+    }
+  }
+  for (const r of toIndexList(props.highlightRows, allRows.length) ?? []) {
+    const row = rowPosition.get(r);
+    if (row !== undefined) columnIndices.forEach((_, column) => highlighted.add(`${row}:${column}`));
+  }
+  for (const c of toIndexList(props.highlightColumns, columnCount) ?? []) {
+    const column = columnPosition.get(c);
+    if (column !== undefined) rowIndices.forEach((_, row) => highlighted.add(`${row}:${column}`));
+  }
+
+  let sortedSlots: number[] | undefined;
+  const sortBy = props.sortBy as { column?: unknown; order?: unknown } | undefined;
+  const sortColumn = typeof sortBy?.column === 'number' ? columnPosition.get(sortBy.column) : undefined;
+  if (sortColumn !== undefined) {
+    const direction = sortBy?.order === 'desc' ? -1 : 1;
+    const order = rows
+      .map((row, i) => ({ i, value: row[sortColumn] }))
+      .sort((a, b) => compareCells(a.value, b.value, direction) || a.i - b.i)
+      .map((entry) => entry.i);
+    sortedSlots = new Array(rows.length);
+    order.forEach((rowIndex, slot) => { sortedSlots![rowIndex] = slot; });
+  }
+
+  const reveal = props.reveal === 'columns' || props.reveal === 'none' ? props.reveal : 'rows';
+
+  return {
+    header: header ? columnIndices.map((c) => header[c] ?? '') : undefined,
+    rows,
+    rowIndices,
+    columnIndices,
+    reveal,
+    highlighted,
+    sortedSlots,
+  };
+}
+
+export function tablePhases(table: NormalizedTable): TablePhases {
+  const revealEnd = table.reveal === 'none' ? 0.1 : 0.45;
+  const sortStart = revealEnd;
+  const sortEnd = table.sortedSlots ? sortStart + 0.3 : sortStart;
+  return { revealEnd, sortStart, sortEnd, highlightStart: sortEnd, highlightEnd: sortEnd + 0.1 };
+}
+
+function phaseProgress(progress: number, start: number, end: number): number {
+  if (end <= start) return progress >= end ? 1 : 0;
+  return Math.max(0, Math.min(1, (progress - start) / (end - start)));
+}
+
+/**
+ * Reveal window for item `index` of `count`, staggered across the reveal phase.
+ */
+export function revealWindow(index: number, count: number, revealEnd: number): [number, number] {
+  const slice = revealEnd / Math.max(count, 1);
+  return [index * slice, (index + 1) * slice];
+}
+
+/** State of the table at a given progress (0-1) through its step */
+export function tableFrameAt(table: NormalizedTable, progress: number): TableFrame {
+  const phases = tablePhases(table);
+  const rowCount = table.rows.length;
+  const columnCount = table.columnIndices.length;
+
+  const rowOpacity = table.rows.map((_, i) => {
+    if (table.reveal === 'columns') return 1;
+    if (table.reveal === 'none') return phaseProgress(progress, 0, phases.revealEnd);
+    const [start, end] = revealWindow(i, rowCount, phases.revealEnd);
+    return phaseProgress(progress, start, end);
+  });
+  const columnOpacity = table.columnIndices.map((_, i) => {
+    if (table.reveal !== 'columns') return 1;
+    const [start, end] = revealWindow(i, columnCount, phases.revealEnd);
+    return phaseProgress(progress, start, end);
+  });
+
+  const sortT = easeProgress(phaseProgress(progress, phases.sortStart, phases.sortEnd), 'cubicInOut');
+  const rowSlot = table.rows.map((_, i) =>
+    table.sortedSlots ? i + (table.sortedSlots[i] - i) * sortT : i
+  );
+
+  return {
+    rowOpacity,
+    columnOpacity,
+    rowSlot,
+    highlight: phaseProgress(progress, phases.highlightStart, phases.highlightEnd),
+  };
+}
+
+/** Column widths proportional to their longest cell, summing to `totalWidth` */
+export function tableColumnWidths(table: NormalizedTable, totalWidth: number): number[] {
+  const lengths = table.columnIndices.map((_, c) => Math.max(
+    3,
+    table.header?.[c]?.length ?? 0,
+    ...table.rows.map((row) => row[c].length)
+  ));
+  const total = lengths.reduce((sum, n) => sum + n, 0);
+  return lengths.map((n) => (n / total) * totalWidth);
+}
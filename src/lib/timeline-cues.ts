@@ -0,0 +1,176 @@
+import {
+  NarrationSegment,
+  PresentationScript,
+  TimelineEvent,
+  TimelineEventType,
+  TimelineMarker,
+} from '@/types';
+
+// Distributes over the union, so each event keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** An event waiting at a point of the timeline; `seek` is filled in when it fires */
+export type TimelineCue = DistributiveOmit<TimelineEvent, 'seek'>;
+
+// Order of cues at the same instant: what ends goes before what starts
+const CUE_ORDER: Record<TimelineEventType, number> = {
+  segmentExit: 0,
+  sectionExit: 1,
+  transitionStart: 2,
+  transitionEnd: 3,
+  sectionEnter: 4,
+  segmentEnter: 5,
+  stepEnter: 6,
+  emphasisWord: 7,
+  marker: 8,
+  complete: 9,
+};
+
+/** What is active at a point of the timeline, as the cues up to it left it */
+export interface ActiveCues {
+  section: number | null;
+  segment: { sectionIndex: number; segmentIndex: number; segment: NarrationSegment } | null;
+  stepId: string | null;
+  transition: number | null;     // index of the section the transition leaves
+  complete: boolean;
+}
+
+/**
+ * Every cue of `script`, sorted by time. Section and transition start times
+ * are the controller's; markers on segments the script does not have are
+ * left out.
+ */
+export function buildCueSheet(
+  script: Pick<PresentationScript, 'sections' | 'transitions' | 'totalDuration'>,
+  sectionStartTimes: number[],
+  transitionStartTimes: number[],
+  markers: Iterable<TimelineMarker>
+): TimelineCue[] {
+  const cues: TimelineCue[] = [];
+  const segmentTimes = new Map<string, { start: number; end: number }>();
+
+  script.sections.forEach((section, sectionIndex) => {
+    const sectionStart = sectionStartTimes[sectionIndex];
+    if (section.totalDuration <= 0) return;
+    cues.push({ type: 'sectionEnter', time: sectionStart, sectionIndex });
+
+    let stepId: string | null = null;
+    section.segments.forEach((segment, segmentIndex) => {
+      const start = sectionStart + segment.startTime;
+      const end = sectionStart + segment.endTime;
+      segmentTimes.set(segment.id, { start, end });
+
+      cues.push({ type: 'segmentEnter', time: start, sectionIndex, segmentIndex, segment });
+      if (segment.stepId !== stepId) {
+        stepId = segment.stepId;
+        cues.push({ type: 'stepEnter', time: start, sectionIndex, stepId });
+      }
+
+      // Emphasized words fire when the narration is about as far into the text
+      const text = segment.text.toLowerCase();
+      for (const word of segment.emphasis || []) {
+        const at = text.indexOf(word.toLowerCase());
+        if (at < 0 || text.length === 0) continue;
+        cues.push({ type: 'emphasisWord', time: start + (at / text.length) * (end - start), sectionIndex, segmentIndex, word });
+      }
+      cues.push({ type: 'segmentExit', time: end, sectionIndex, segmentIndex, segment });
+    });
+
+    cues.push({ type: 'sectionExit', time: sectionStart + section.totalDuration, sectionIndex });
+  });
+
+  script.transitions.forEach((transition, i) => {
+    const start = transitionStartTimes[i];
+    cues.push({ type: 'transitionStart', time: start, fromSection: i, toSection: i + 1 });
+    cues.push({ type: 'transitionEnd', time: start + transition.duration, fromSection: i, toSection: i + 1 });
+  });
+
+  for (const marker of markers) {
+    let time: number;
+    if ('segmentId' in marker) {
+      const segment = segmentTimes.get(marker.segmentId);
+      if (!segment) continue;
+      time = Math.min(segment.end, segment.start + Math.max(0, marker.offset));
+    } else {
+      time = marker.time;
+    }
+    cues.push({ type: 'marker', time: Math.max(0, Math.min(time, script.totalDuration)), name: marker.name, data: marker.data });
+  }
+
+  cues.push({ type: 'complete', time: script.totalDuration });
+
+  // Array sort is stable, so cues of the same kind and time keep script order
+  return cues.sort((a, b) => a.time - b.time || CUE_ORDER[a.type] - CUE_ORDER[b.type]);
+}
+
+/** What the cues at or before `time` left active; nothing when `time` is before the start */
+export function activeCuesAt(cues: TimelineCue[], time: number): ActiveCues {
+  const active: ActiveCues = { section: null, segment: null, stepId: null, transition: null, complete: false };
+  for (const cue of cues) {
+    if (cue.time > time) break;
+    switch (cue.type) {
+      case 'sectionEnter':
+        active.section = cue.sectionIndex;
+        break;
+      case 'sectionExit':
+        active.section = null;
+        active.stepId = null;
+        break;
+      case 'segmentEnter':
+        active.segment = { sectionIndex: cue.sectionIndex, segmentIndex: cue.segmentIndex, segment: cue.segment };
+        break;
+      case 'segmentExit':
+        active.segment = null;
+        break;
+      case 'stepEnter':
+        active.stepId = cue.stepId;
+        break;
+      case 'transitionStart':
+        active.transition = cue.fromSection;
+        break;
+      case 'transitionEnd':
+        active.transition = null;
+        break;
+      case 'complete':
+        active.complete = true;
+        break;
+    }
+  }
+  return active;
+}
+
+/**
+ * The events that take what was active at `from` to what is active at `to`:
+ * exits first, then enters, as for a seek.
+ */
+export function diffActiveCues(from: ActiveCues, to: ActiveCues, time: number): TimelineCue[] {
+  const events: TimelineCue[] = [];
+  const sameSegment = from.segment?.sectionIndex === to.segment?.sectionIndex
+    && from.segment?.segmentIndex === to.segment?.segmentIndex;
+
+  if (from.segment && !sameSegment) {
+    events.push({ type: 'segmentExit', time, ...from.segment });
+  }
+  if (from.section !== null && from.section !== to.section) {
+    events.push({ type: 'sectionExit', time, sectionIndex: from.section });
+  }
+  if (from.transition !== null && from.transition !== to.transition) {
+    events.push({ type: 'transitionEnd', time, fromSection: from.transition, toSection: from.transition + 1 });
+  }
+  if (to.transition !== null && to.transition !== from.transition) {
+    events.push({ type: 'transitionStart', time, fromSection: to.transition, toSection: to.transition + 1 });
+  }
+  if (to.section !== null && to.section !== from.section) {
+    events.push({ type: 'sectionEnter', time, sectionIndex: to.section });
+  }
+  if (to.segment && !sameSegment) {
+    events.push({ type: 'segmentEnter', time, ...to.segment });
+  }
+  if (to.section !== null && to.stepId !== null && (to.stepId !== from.stepId || to.section !== from.section)) {
+    events.push({ type: 'stepEnter', time, sectionIndex: to.section, stepId: to.stepId });
+  }
+  if (to.complete && !from.complete) {
+    events.push({ type: 'complete', time });
+  }
+  return events;
+}
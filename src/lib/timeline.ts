@@ -1,11 +1,22 @@
 import {
+  NarrationSegment,
   PresentationScript,
   SectionScript,
   SectionTransition,
+  TimelineEvent,
+  TimelineEventType,
+  TimelineMarker,
   TimelineState,
 } from '@/types';
+import { activeCuesAt, buildCueSheet, diffActiveCues, TimelineCue } from '@/lib/timeline-cues';
+import { FrameClock, RealtimeClock } from '@/lib/frame-clock';
 
 type TimelineListener = (state: TimelineState) => void;
+type TimelineEventListener<T extends TimelineEventType> = (event: TimelineEvent & { type: T }) => void;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
 
 const COMPLETE_STATE: TimelineState = {
   phase: 'complete',
@@ -13,6 +24,7 @@ const COMPLETE_STATE: TimelineState = {
   segmentIndex: 0,
   sectionProgress: 1,
   segmentProgress: 1,
+  stepProgress: 1,
   activeStepId: '',
   currentText: '',
   emphasis: [],
@@ -23,9 +35,17 @@ export class TimelineController {
   private currentTime: number = 0;
   private speed: number = 1;
   private playing: boolean = false;
-  private rafId: number | null = null;
-  private lastTimestamp: number | null = null;
   private listeners: Set<TimelineListener> = new Set();
+  private stalledAtEnd: boolean = false; // playback ran out of timeline rather than being paused
+  private eventListeners: Map<TimelineEventType, Set<(event: TimelineEvent) => void>> = new Map();
+  private markers: Set<TimelineMarker> = new Set();
+  private cues: TimelineCue[] = [];
+  private cueTime: number = -1; // cues at or before this time have fired; -1 before any have
+
+  // For clocks that report elapsed time: the playhead and clock time it is measured from
+  private anchorTime: number = 0;
+  private anchorElapsed: number = 0;
+  private elapsed: number = 0;
 
   private sectionScripts: SectionScript[];
   private transitions: SectionTransition[];
@@ -35,14 +55,21 @@ export class TimelineController {
   private sectionStartTimes: number[] = [];
   private transitionStartTimes: number[] = [];
 
-  constructor(script: PresentationScript) {
+  /**
+   * `clock` advances playback: real time by default, or a FixedStepClock to
+   * render frame by frame without a browser.
+   */
+  constructor(script: PresentationScript, private clock: FrameClock = new RealtimeClock()) {
     this.sectionScripts = script.sections;
     this.transitions = script.transitions;
     this.totalDuration = script.totalDuration;
     this.computeStartTimes();
+    this.buildCues();
   }
 
   private computeStartTimes(): void {
+    this.sectionStartTimes = [];
+    this.transitionStartTimes = [];
     let offset = 0;
     for (let i = 0; i < this.sectionScripts.length; i++) {
       this.sectionStartTimes.push(offset);
@@ -55,6 +82,51 @@ export class TimelineController {
     }
   }
 
+  // Cues: the events of the current script, sorted by time
+  private buildCues(): void {
+    this.cues = buildCueSheet(
+      { sections: this.sectionScripts, transitions: this.transitions, totalDuration: this.totalDuration },
+      this.sectionStartTimes,
+      this.transitionStartTimes,
+      this.markers
+    );
+  }
+
+  private emit(event: TimelineEvent): void {
+    for (const listener of this.eventListeners.get(event.type) ?? []) {
+      listener(event);
+    }
+  }
+
+  /** Fire every cue the playhead passed on its way to `time`, in order */
+  private advanceCues(time: number): void {
+    const passed = this.cues.filter((cue) => cue.time > this.cueTime && cue.time <= time);
+    this.cueTime = time;
+    for (const cue of passed) {
+      this.emit({ ...cue, seek: false });
+    }
+  }
+
+  /** Jump to `time`: fire only the exits and enters that change what is active */
+  private jumpCues(time: number): void {
+    const from = activeCuesAt(this.cues, this.cueTime);
+    this.cueTime = time;
+    for (const cue of diffActiveCues(from, activeCuesAt(this.cues, time), time)) {
+      this.emit({ ...cue, seek: true });
+    }
+  }
+
+  /** Rebuild the cues for a new script, firing what changed at the playhead like a seek */
+  private replaceCues(cueTime: number): void {
+    const from = activeCuesAt(this.cues, this.cueTime);
+    this.buildCues();
+    if (this.cueTime < 0) return;
+    this.cueTime = cueTime;
+    for (const cue of diffActiveCues(from, activeCuesAt(this.cues, cueTime), cueTime)) {
+      this.emit({ ...cue, seek: true });
+    }
+  }
+
   getStateAtTime(time: number): TimelineState {
     if (time >= this.totalDuration) {
       return {
@@ -78,26 +150,30 @@ export class TimelineController {
           ? sectionTime / script.totalDuration
           : 0;
 
-        // Find active segment
+        // Active segment: the last one started, so a pause between segments
+        // stays on the segment before it rather than skipping ahead
         let segmentIndex = 0;
-        let activeSegment = script.segments[0];
-        for (let s = 0; s < script.segments.length; s++) {
-          const seg = script.segments[s];
-          if (sectionTime >= seg.startTime && sectionTime < seg.endTime) {
-            segmentIndex = s;
-            activeSegment = seg;
-            break;
-          }
-          // Past the last segment's end — clamp to last
-          if (s === script.segments.length - 1) {
-            segmentIndex = s;
-            activeSegment = seg;
-          }
+        for (let s = 1; s < script.segments.length; s++) {
+          if (sectionTime < script.segments[s].startTime) break;
+          segmentIndex = s;
         }
+        const activeSegment = script.segments[segmentIndex];
 
         const segmentDuration = activeSegment.endTime - activeSegment.startTime;
         const segmentProgress = segmentDuration > 0
-          ? Math.min(1, (sectionTime - activeSegment.startTime) / segmentDuration)
+          ? clamp01((sectionTime - activeSegment.startTime) / segmentDuration)
+          : 0;
+
+        // A step can span several consecutive segments; its progress runs
+        // from the first one's start to the last one's end
+        let stepStart = segmentIndex;
+        let stepEnd = segmentIndex;
+        while (stepStart > 0 && script.segments[stepStart - 1].stepId === activeSegment.stepId) stepStart--;
+        while (stepEnd < script.segments.length - 1 && script.segments[stepEnd + 1].stepId === activeSegment.stepId) stepEnd++;
+        const stepStartTime = script.segments[stepStart].startTime;
+        const stepDuration = script.segments[stepEnd].endTime - stepStartTime;
+        const stepProgress = stepDuration > 0
+          ? clamp01((sectionTime - stepStartTime) / stepDuration)
           : 0;
 
         return {
@@ -106,6 +182,7 @@ export class TimelineController {
           segmentIndex,
           sectionProgress,
           segmentProgress,
+          stepProgress,
           activeStepId: activeSegment.stepId,
           currentText: activeSegment.text,
           emphasis: activeSegment.emphasis || [],
@@ -130,6 +207,7 @@ export class TimelineController {
             segmentIndex: 0,
             sectionProgress: 1,
             segmentProgress: 1,
+            stepProgress: 1,
             activeStepId: '',
             currentText: '',
             emphasis: [],
@@ -146,30 +224,32 @@ export class TimelineController {
     return { ...COMPLETE_STATE, globalTime: clampedTime };
   }
 
-  private tick = (timestamp: number): void => {
-    if (this.lastTimestamp === null) {
-      this.lastTimestamp = timestamp;
+  private tick = (delta: number, elapsed?: number): void => {
+    if (elapsed === undefined) {
+      this.currentTime += delta * this.speed;
+    } else {
+      // One multiplication from the anchor, so rounding doesn't pile up frame after frame
+      this.elapsed = elapsed;
+      this.currentTime = this.anchorTime + (elapsed - this.anchorElapsed) * this.speed;
     }
 
-    const delta = (timestamp - this.lastTimestamp) / 1000; // seconds
-    this.lastTimestamp = timestamp;
-    this.currentTime += delta * this.speed;
-
     if (this.currentTime >= this.totalDuration) {
       this.currentTime = this.totalDuration;
       this.playing = false;
-      this.rafId = null;
-      this.notify();
-      return;
+      this.clock.stop();
+      this.stalledAtEnd = true;
     }
 
+    this.advanceCues(this.currentTime);
     this.notify();
-
-    if (this.playing) {
-      this.rafId = requestAnimationFrame(this.tick);
-    }
   };
 
+  /** Measure elapsed clock time from the current playhead, after it moved or the speed changed */
+  private anchor(): void {
+    this.anchorTime = this.currentTime;
+    this.anchorElapsed = this.elapsed;
+  }
+
   private notify(): void {
     const state = this.getStateAtTime(this.currentTime);
     for (const listener of this.listeners) {
@@ -179,26 +259,28 @@ export class TimelineController {
 
   play(): void {
     if (this.playing) return;
+    this.stalledAtEnd = false;
     if (this.currentTime >= this.totalDuration) {
       this.currentTime = 0;
+      this.jumpCues(0);
     }
     this.playing = true;
-    this.lastTimestamp = null;
-    this.rafId = requestAnimationFrame(this.tick);
+    this.elapsed = 0;
+    this.anchor();
+    this.clock.start(this.tick);
   }
 
   pause(): void {
     this.playing = false;
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
-    }
-    this.lastTimestamp = null;
+    this.stalledAtEnd = false;
+    this.clock.stop();
   }
 
   seek(time: number): void {
+    this.stalledAtEnd = false;
     this.currentTime = Math.max(0, Math.min(time, this.totalDuration));
-    this.lastTimestamp = null;
+    this.anchor();
+    this.jumpCues(this.currentTime);
     this.notify();
   }
 
@@ -208,8 +290,65 @@ export class TimelineController {
     }
   }
 
+  /**
+   * Swap in a new script without interrupting playback, e.g. a longer one as
+   * sections of a running analysis arrive. If playback ran off the end of the
+   * old script, it carries on into the new sections.
+   */
+  update(script: PresentationScript): void {
+    this.sectionScripts = script.sections;
+    this.transitions = script.transitions;
+    this.totalDuration = script.totalDuration;
+    this.computeStartTimes();
+    this.currentTime = Math.min(this.currentTime, this.totalDuration);
+    this.anchor();
+    this.replaceCues(Math.min(this.cueTime, this.totalDuration));
+
+    if (this.stalledAtEnd && this.currentTime < this.totalDuration) {
+      this.play();
+    } else {
+      this.notify();
+    }
+  }
+
+  /**
+   * Swap in the same script with new timings, e.g. after the narration was
+   * measured as spoken. The playhead stays at the same point of the
+   * narration: the same fraction of the same segment, or of the transition.
+   */
+  retime(script: PresentationScript): void {
+    const state = this.getStateAtTime(this.currentTime);
+    this.sectionScripts = script.sections;
+    this.transitions = script.transitions;
+    this.totalDuration = script.totalDuration;
+    this.computeStartTimes();
+    this.currentTime = Math.min(this.timeOfState(state), this.totalDuration);
+    this.anchor();
+    this.replaceCues(this.currentTime);
+    this.notify();
+  }
+
+  /** Where `state` falls on the current timings */
+  private timeOfState(state: TimelineState): number {
+    if (state.phase === 'complete') return this.totalDuration;
+
+    if (state.phase === 'transition') {
+      const transition = this.transitions[state.sectionIndex];
+      if (!transition) return this.totalDuration;
+      return this.transitionStartTimes[state.sectionIndex] + (state.transitionProgress ?? 0) * transition.duration;
+    }
+
+    const script = this.sectionScripts[state.sectionIndex];
+    const segment = script?.segments[state.segmentIndex];
+    if (!segment) return this.sectionStartTimes[state.sectionIndex] ?? this.totalDuration;
+    return this.sectionStartTimes[state.sectionIndex]
+      + segment.startTime
+      + state.segmentProgress * (segment.endTime - segment.startTime);
+  }
+
   setSpeed(speed: number): void {
     this.speed = speed;
+    this.anchor();
   }
 
   getSpeed(): number {
@@ -220,6 +359,10 @@ export class TimelineController {
     return this.playing;
   }
 
+  getClock(): FrameClock {
+    return this.clock;
+  }
+
   getCurrentTime(): number {
     return this.currentTime;
   }
@@ -237,8 +380,37 @@ export class TimelineController {
     return () => this.listeners.delete(listener);
   }
 
+  /** The segment the cues fired so far left active; null between segments */
+  getActiveSegment(): NarrationSegment | null {
+    return activeCuesAt(this.cues, this.cueTime).segment?.segment ?? null;
+  }
+
+  /** Listen for one kind of timeline event; returns a function that stops listening */
+  on<T extends TimelineEventType>(type: T, listener: TimelineEventListener<T>): () => void {
+    const listeners = this.eventListeners.get(type) ?? new Set();
+    this.eventListeners.set(type, listeners);
+    const handler = listener as (event: TimelineEvent) => void;
+    listeners.add(handler);
+    return () => listeners.delete(handler);
+  }
+
+  /**
+   * Fire a `marker` event when playback reaches `marker`; segment-relative
+   * markers move with their segment when the script is retimed. Returns a
+   * function that removes the marker.
+   */
+  addMarker(marker: TimelineMarker): () => void {
+    this.markers.add(marker);
+    this.buildCues();
+    return () => {
+      if (this.markers.delete(marker)) this.buildCues();
+    };
+  }
+
   destroy(): void {
     this.pause();
     this.listeners.clear();
+    this.eventListeners.clear();
+    this.markers.clear();
   }
 }
@@ -0,0 +1,219 @@
+/**
+ * LLM Usage
+ *
+ * Per-call metrics for every model call (tokens, latency, retries, cache
+ * hits, estimated cost). Calls are appended to a monthly ledger on disk, one
+ * JSON line per call, which GET /api/usage summarizes against the monthly
+ * budget; a UsageMeter collects the calls of one result, such as an
+ * analysis, for its own summary.
+ *
+ *   LLM_USAGE=off            do not write the ledger
+ *   LLM_USAGE_DIR            default .cache/usage
+ *   LLM_MONTHLY_BUDGET       USD per month, shown against the month's spend
+ *   LLM_PRICING              JSON of extra prices per million tokens,
+ *                            e.g. {"my-model": {"input": 0.5, "output": 1.5}}
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMCallMetrics, UsageOperation, UsageReport, UsageSummary, UsageTotals } from '@/types';
+
+interface ModelPrice {
+  input: number;     // USD per million prompt tokens
+  output: number;    // USD per million response tokens
+}
+
+// List prices; the longest matching model-name prefix wins. Unknown models
+// (local Ollama or llama.cpp servers, fixtures) cost nothing.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+// Calls listed individually in the report, newest first
+const RECENT_CALLS = 50;
+
+/** What a model call is being made for, and the meter collecting it, if any */
+export interface UsageScope {
+  operation: UsageOperation;
+  meter?: UsageMeter;
+}
+
+/** What a provider reports about one call */
+export interface ProviderUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  retries?: number;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+let customPrices: Record<string, ModelPrice> | undefined;
+
+function priceTable(): Record<string, ModelPrice> {
+  if (customPrices === undefined) {
+    customPrices = {};
+    try {
+      const parsed = JSON.parse(process.env.LLM_PRICING || '{}') as Record<string, Partial<ModelPrice>>;
+      for (const [model, price] of Object.entries(parsed)) {
+        if (typeof price?.input === 'number' && typeof price.output === 'number') {
+          customPrices[model] = { input: price.input, output: price.output };
+        }
+      }
+    } catch (e) {
+      console.warn('Ignoring invalid LLM_PRICING:', e);
+    }
+  }
+  return { ...MODEL_PRICES, ...customPrices };
+}
+
+export function estimateCost(model: string, promptTokens: number, responseTokens: number): number {
+  const prices = priceTable();
+  const match = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) return 0;
+  const { input, output } = prices[match];
+  return (promptTokens * input + responseTokens * output) / 1_000_000;
+}
+
+/** Rough token count for providers that report none: ~4 characters per token */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ============================================
+// Summaries
+// ============================================
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cacheHits: 0, promptTokens: 0, responseTokens: 0, latencyMs: 0, retries: 0, failures: 0, estimatedCost: 0 };
+}
+
+function addCall(totals: UsageTotals, call: LLMCallMetrics): void {
+  totals.calls += 1;
+  if (call.cacheHit) totals.cacheHits += 1;
+  totals.promptTokens += call.promptTokens;
+  totals.responseTokens += call.responseTokens;
+  totals.latencyMs += call.latencyMs;
+  totals.retries += call.retries;
+  if (call.failed) totals.failures += 1;
+  totals.estimatedCost += call.estimatedCost;
+}
+
+export function summarizeUsage(calls: LLMCallMetrics[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byOperation: {}, byModel: {} };
+  for (const call of calls) {
+    addCall(summary, call);
+    addCall((summary.byOperation[call.operation] ??= emptyTotals()), call);
+    addCall((summary.byModel[`${call.provider}/${call.model}`] ??= emptyTotals()), call);
+  }
+  return summary;
+}
+
+/** Collects the calls that went into one result */
+export class UsageMeter {
+  private calls: LLMCallMetrics[] = [];
+
+  add(call: LLMCallMetrics): void {
+    this.calls.push(call);
+  }
+
+  summary(): UsageSummary {
+    return summarizeUsage(this.calls);
+  }
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+function monthOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+class UsageLedger {
+  constructor(private dir: string) {}
+
+  private monthPath(month: string): string {
+    return path.join(this.dir, `${month}.jsonl`);
+  }
+
+  async append(call: LLMCallMetrics): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.appendFile(this.monthPath(monthOf(call.timestamp)), JSON.stringify(call) + '\n');
+  }
+
+  async readMonth(month: string): Promise<LLMCallMetrics[]> {
+    const raw = await fs.readFile(this.monthPath(month), 'utf8').catch(() => '');
+    return raw
+      .split('\n')
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as LLMCallMetrics];
+        } catch {
+          return [];
+        }
+      });
+  }
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one ledger
+const globalForUsage = globalThis as typeof globalThis & { llmUsageLedger?: UsageLedger | null };
+
+/** The server's ledger, or null when disabled with LLM_USAGE=off */
+export function getUsageLedger(): UsageLedger | null {
+  if (globalForUsage.llmUsageLedger === undefined) {
+    globalForUsage.llmUsageLedger = process.env.LLM_USAGE === 'off'
+      ? null
+      : new UsageLedger(path.resolve(process.env.LLM_USAGE_DIR || '.cache/usage'));
+  }
+  return globalForUsage.llmUsageLedger;
+}
+
+/** Add a call to the scope's meter and the ledger. Ledger failures never fail the call. */
+export function recordUsage(call: LLMCallMetrics, scope?: UsageScope): void {
+  scope?.meter?.add(call);
+  getUsageLedger()?.append(call).catch((e) => console.warn('Failed to write LLM usage:', e));
+}
+
+/** Record a result served from the response cache: no tokens, no cost */
+export function recordCacheHit(scope: UsageScope, model: { provider: string; model: string }): void {
+  recordUsage({
+    operation: scope.operation,
+    provider: model.provider,
+    model: model.model,
+    promptTokens: 0,
+    responseTokens: 0,
+    tokensEstimated: false,
+    latencyMs: 0,
+    retries: 0,
+    cacheHit: true,
+    estimatedCost: 0,
+    timestamp: Date.now(),
+  }, scope);
+}
+
+export async function getUsageReport(month: string = monthOf(Date.now())): Promise<UsageReport> {
+  const ledger = getUsageLedger();
+  const calls = ledger ? await ledger.readMonth(month) : [];
+  const budget = parseFloat(process.env.LLM_MONTHLY_BUDGET || '');
+  return {
+    month,
+    summary: summarizeUsage(calls),
+    budget: Number.isFinite(budget) && budget > 0 ? budget : undefined,
+    recent: calls.slice(-RECENT_CALLS).reverse(),
+  };
+}
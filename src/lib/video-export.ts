@@ -0,0 +1,319 @@
+'use client';
+
+/**
+ * Video Export
+ *
+ * Renders the presentation to a video file in the browser. The timeline
+ * runs on a FixedStepClock stepped once per video frame; after each step the
+ * stage (an off-screen player laid out at STAGE_WIDTH x STAGE_HEIGHT) has
+ * its browser animations seeked to the frame's time, is drawn to a canvas
+ * at the export resolution and encoded.
+ *
+ * WebM is encoded with WebCodecs and muxed here, with the narration audio
+ * when a recording is supplied. MP4, and WebM in browsers without
+ * WebCodecs, is recorded with MediaRecorder, which times frames by the wall
+ * clock: it records each frame for 1/fps and pauses while the next one is
+ * drawn. Those recordings have no audio track.
+ */
+
+import { PresentationScript, VideoExportProgress, VideoExportSettings, VideoFormat } from '@/types';
+import { TimelineController } from '@/lib/timeline';
+import { FixedStepClock } from '@/lib/frame-clock';
+import { DomRasterizer } from '@/lib/dom-raster';
+import { seekBrowserAnimations } from '@/lib/frame-animations';
+import { WebMMuxer, WebMVideoTrack } from '@/lib/webm-muxer';
+
+// The stage is laid out at this size and scaled to the export resolution
+export const STAGE_WIDTH = 960;
+export const STAGE_HEIGHT = 540;
+
+const BITS_PER_PIXEL = 0.1;            // per frame; about 6 Mbit/s at 1080p30
+const KEY_FRAME_INTERVAL = 2;          // seconds
+const MAX_QUEUED_FRAMES = 8;
+const AUDIO_SAMPLE_RATE = 48000;       // Opus encodes 48 kHz
+const AUDIO_CHUNK_FRAMES = 4800;
+const AUDIO_BITRATE = 128_000;
+
+const VIDEO_CODECS: { codec: string; track: WebMVideoTrack['codec'] }[] = [
+  { codec: 'vp09.00.10.08', track: 'V_VP9' },
+  { codec: 'vp8', track: 'V_VP8' },
+];
+
+const RECORDER_TYPES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+export interface VideoExportOptions {
+  settings: VideoExportSettings;
+  script: PresentationScript;
+  timeline: TimelineController;    // on a FixedStepClock at settings.fps, driving the stage
+  stage: HTMLElement;
+  audio?: AudioBuffer;             // narration recorded for the whole presentation
+  signal?: AbortSignal;
+  onProgress?: (progress: VideoExportProgress) => void;
+}
+
+interface NarrationAudio {
+  buffer: AudioBuffer;
+  offset: number;      // seconds into the buffer where the export starts
+  duration: number;
+}
+
+interface FrameEncoder {
+  encode(canvas: HTMLCanvasElement, index: number): Promise<void>;
+  finish(): Promise<Blob>;
+  close(): void;
+}
+
+// ============================================
+// Capabilities
+// ============================================
+
+function recorderType(format: VideoFormat): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return RECORDER_TYPES[format].find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+function usesWebCodecs(format: VideoFormat): boolean {
+  return format === 'webm' && typeof VideoEncoder !== 'undefined';
+}
+
+/** Formats this browser can export */
+export function supportedVideoFormats(): VideoFormat[] {
+  return (['webm', 'mp4'] as const).filter((format) => usesWebCodecs(format) || recorderType(format) !== undefined);
+}
+
+/** Whether exports in `format` can carry narration audio in this browser */
+export function supportsNarrationAudio(format: VideoFormat): boolean {
+  return usesWebCodecs(format) && typeof AudioEncoder !== 'undefined';
+}
+
+/** Decode a narration recording, resampled for encoding */
+export async function decodeNarrationAudio(file: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+/** Timeline seconds an export covers: one section, or everything */
+export function exportRange(
+  timeline: TimelineController,
+  script: PresentationScript,
+  sectionIndex: number | null
+): { start: number; end: number } {
+  if (sectionIndex === null) return { start: 0, end: timeline.getTotalDuration() };
+  const start = timeline.getSectionStartTime(sectionIndex);
+  return { start, end: start + (script.sections[sectionIndex]?.totalDuration ?? 0) };
+}
+
+// ============================================
+// Encoders
+// ============================================
+
+function videoBitrate({ width, height, fps }: VideoExportSettings): number {
+  return Math.round(width * height * fps * BITS_PER_PIXEL);
+}
+
+function encodeNarration(encoder: AudioEncoder, { buffer, offset, duration }: NarrationAudio, channels: number): void {
+  const rate = buffer.sampleRate;
+  const start = Math.round(offset * rate);
+  const end = Math.min(buffer.length, start + Math.round(duration * rate));
+
+  for (let from = start; from < end; from += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, end - from);
+    const samples = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel++) {
+      samples.set(buffer.getChannelData(channel).subarray(from, from + frames), channel * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: rate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round(((from - start) / rate) * 1e6),
+      data: samples,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+}
+
+async function createWebCodecsEncoder(settings: VideoExportSettings, narration?: NarrationAudio): Promise<FrameEncoder> {
+  const { width, height, fps } = settings;
+  let chosen: { config: VideoEncoderConfig; track: WebMVideoTrack['codec'] } | null = null;
+  for (const { codec, track } of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: videoBitrate(settings), framerate: fps };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      chosen = { config, track };
+      break;
+    }
+  }
+  if (!chosen) throw new Error('This browser cannot encode VP8 or VP9 video');
+
+  const channels = narration ? Math.min(2, narration.buffer.numberOfChannels) : 0;
+  let audioConfig: AudioEncoderConfig | null = null;
+  if (narration) {
+    audioConfig = { codec: 'opus', sampleRate: narration.buffer.sampleRate, numberOfChannels: channels, bitrate: AUDIO_BITRATE };
+    if (!(await AudioEncoder.isConfigSupported(audioConfig)).supported) {
+      throw new Error('This browser cannot encode Opus audio');
+    }
+  }
+
+  const muxer = new WebMMuxer(
+    { codec: chosen.track, width, height },
+    audioConfig ? { sampleRate: audioConfig.sampleRate, channels } : undefined
+  );
+  let failure: Error | null = null;
+  const onError = (error: Error) => {
+    failure = error;
+  };
+
+  const videoEncoder = new VideoEncoder({ output: (chunk) => muxer.addVideoChunk(chunk), error: onError });
+  videoEncoder.configure(chosen.config);
+  const keyFrameEvery = Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL));
+
+  const close = () => {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+  };
+
+  return {
+    async encode(canvas, index) {
+      if (failure) throw failure;
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((index * 1e6) / fps),
+        duration: Math.round(1e6 / fps),
+      });
+      videoEncoder.encode(frame, { keyFrame: index % keyFrameEvery === 0 });
+      frame.close();
+
+      // Let the encoder catch up rather than holding every frame in memory
+      while (videoEncoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise((resolve) => videoEncoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    },
+
+    async finish() {
+      await videoEncoder.flush();
+      if (narration && audioConfig) {
+        const audioEncoder = new AudioEncoder({ output: (chunk, metadata) => muxer.addAudioChunk(chunk, metadata), error: onError });
+        audioEncoder.configure(audioConfig);
+        encodeNarration(audioEncoder, narration, channels);
+        await audioEncoder.flush();
+        audioEncoder.close();
+      }
+      if (failure) throw failure;
+      close();
+      return muxer.finalize();
+    },
+
+    close,
+  };
+}
+
+function createRecorderEncoder(canvas: HTMLCanvasElement, settings: VideoExportSettings): FrameEncoder {
+  const mimeType = recorderType(settings.format);
+  if (!mimeType) throw new Error(`This browser cannot record ${settings.format.toUpperCase()} video`);
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: videoBitrate(settings) });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+  recorder.pause();
+
+  const close = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach((t) => t.stop());
+  };
+
+  return {
+    async encode() {
+      recorder.resume();
+      track.requestFrame();
+      await new Promise((resolve) => setTimeout(resolve, 1000 / settings.fps));
+      recorder.pause();
+    },
+
+    finish() {
+      return new Promise<Blob>((resolve) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType }));
+        close();
+      });
+    },
+
+    close,
+  };
+}
+
+// ============================================
+// Export
+// ============================================
+
+// Two animation frames: React has committed, and Framer Motion (which
+// writes styles on its own frame loop) has applied them
+export function nextPaint(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+}
+
+/**
+ * Render `settings.sectionIndex` (or the whole presentation) frame by frame
+ * and encode it. The timeline is left paused where the export ended.
+ */
+export async function exportVideo({
+  settings,
+  script,
+  timeline,
+  stage,
+  audio,
+  signal,
+  onProgress,
+}: VideoExportOptions): Promise<Blob> {
+  const clock = timeline.getClock();
+  if (!(clock instanceof FixedStepClock) || clock.fps !== settings.fps) {
+    throw new Error('Video export needs a timeline on a FixedStepClock at the export frame rate');
+  }
+
+  const { start, end } = exportRange(timeline, script, settings.sectionIndex);
+  const totalFrames = Math.max(1, Math.ceil((end - start) * settings.fps));
+  onProgress?.({ phase: 'preparing', frame: 0, totalFrames });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = settings.width;
+  canvas.height = settings.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas drawing is not available');
+
+  const rasterizer = await DomRasterizer.create(stage);
+  const narration = audio && supportsNarrationAudio(settings.format) && audio.duration > start
+    ? { buffer: audio, offset: start, duration: end - start }
+    : undefined;
+  const encoder = usesWebCodecs(settings.format)
+    ? await createWebCodecsEncoder(settings, narration)
+    : createRecorderEncoder(canvas, settings);
+
+  try {
+    timeline.seek(start);
+    timeline.play();
+    for (let frame = 0; frame < totalFrames; frame++) {
+      signal?.throwIfAborted();
+      if (frame > 0) clock.step();
+      await nextPaint();
+      seekBrowserAnimations(stage, timeline.getCurrentTime());
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await rasterizer.draw(ctx);
+      await encoder.encode(canvas, frame);
+      onProgress?.({ phase: 'rendering', frame: frame + 1, totalFrames });
+    }
+
+    onProgress?.({ phase: 'finishing', frame: totalFrames, totalFrames });
+    return await encoder.finish();
+  } finally {
+    timeline.pause();
+    encoder.close();
+  }
+}
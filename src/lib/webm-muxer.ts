@@ -0,0 +1,307 @@
+/**
+ * WebM Muxer
+ *
+ * Packs what WebCodecs encodes into a WebM file: one VP8/VP9 video track and
+ * an optional Opus audio track. Chunks are collected as they arrive and the
+ * file is laid out once finalize() is called, so every size is known and a
+ * seek index (Cues) can be written. Chunk data goes into the Blob as is.
+ */
+
+// Matroska element IDs, https://www.matroska.org/technical/elements.html
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const SEEK_HEAD = 0x114d9b74;
+const SEEK = 0x4dbb;
+const SEEK_ID = 0x53ab;
+const SEEK_POSITION = 0x53ac;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const FLAG_LACING = 0x9c;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const CODEC_DELAY = 0x56aa;
+const SEEK_PRE_ROLL = 0x56bb;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+const CUES = 0x1c53bb6b;
+const CUE_POINT = 0xbb;
+const CUE_TIME = 0xb3;
+const CUE_TRACK_POSITIONS = 0xb7;
+const CUE_TRACK = 0xf7;
+const CUE_CLUSTER_POSITION = 0xf1;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+// Block times are 16-bit offsets (ms) from their cluster's time
+const MAX_CLUSTER_SPAN = 32767;
+const OPUS_SAMPLE_RATE = 48000;
+const OPUS_PRE_SKIP = 312;           // libopus lookahead, used when the encoder does not report one
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+export interface WebMVideoTrack {
+  codec: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+}
+
+export interface WebMAudioTrack {
+  sampleRate: number;
+  channels: number;
+}
+
+interface Block {
+  track: number;
+  timestamp: number;   // ms
+  keyFrame: boolean;
+  data: Uint8Array;
+}
+
+// An element (or run of elements) as the byte arrays it is written as
+interface Encoded {
+  parts: Uint8Array[];
+  size: number;
+}
+
+// ============================================
+// EBML Encoding
+// ============================================
+
+function idBytes(id: number): number[] {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+  return bytes;
+}
+
+function sizeBytes(size: number): number[] {
+  // A size of all ones is reserved for "unknown", hence the -1
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Array<number>(length);
+  for (let i = length - 1, value = size; i >= 0; i--, value = Math.floor(value / 256)) bytes[i] = value % 256;
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function uintBytes(value: number, width?: number): number[] {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length === 0; rest = Math.floor(rest / 256)) bytes.unshift(rest % 256);
+  while (width !== undefined && bytes.length < width) bytes.unshift(0);
+  return bytes;
+}
+
+function join(items: Encoded[]): Encoded {
+  return { parts: items.flatMap((item) => item.parts), size: items.reduce((sum, item) => sum + item.size, 0) };
+}
+
+function bytes(data: Uint8Array | number[]): Encoded {
+  const array = data instanceof Uint8Array ? data : Uint8Array.from(data);
+  return { parts: [array], size: array.length };
+}
+
+function element(id: number, body: Encoded | Encoded[]): Encoded {
+  const content = Array.isArray(body) ? join(body) : body;
+  return join([bytes([...idBytes(id), ...sizeBytes(content.size)]), content]);
+}
+
+function uint(id: number, value: number, width?: number): Encoded {
+  return element(id, bytes(uintBytes(value, width)));
+}
+
+function float(id: number, value: number): Encoded {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setFloat64(0, value);
+  return element(id, bytes(data));
+}
+
+function string(id: number, value: string): Encoded {
+  return element(id, bytes(new TextEncoder().encode(value)));
+}
+
+function simpleBlock(block: Block, clusterTime: number): Encoded {
+  const offset = Math.round(block.timestamp) - clusterTime;
+  const header = [0x80 | block.track, (offset >> 8) & 0xff, offset & 0xff, block.keyFrame ? 0x80 : 0];
+  return element(SIMPLE_BLOCK, [bytes(header), bytes(block.data)]);
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+/** Opus identification header, for encoders that do not report one */
+function opusHead(channels: number, sampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1;
+  head[9] = channels;
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+}
+
+// ============================================
+// Muxer
+// ============================================
+
+export class WebMMuxer {
+  private blocks: Block[] = [];
+  private opusHead: Uint8Array | null = null;
+  private endTime = 0;   // ms
+
+  constructor(private video: WebMVideoTrack, private audio?: WebMAudioTrack) {}
+
+  addVideoChunk(chunk: EncodedVideoChunk): void {
+    this.addBlock(VIDEO_TRACK, chunk);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    if (!this.audio) throw new Error('This WebM file has no audio track');
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.opusHead) this.opusHead = toBytes(description);
+    this.addBlock(AUDIO_TRACK, chunk);
+  }
+
+  private addBlock(track: number, chunk: EncodedVideoChunk | EncodedAudioChunk): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    const timestamp = Math.max(0, chunk.timestamp / 1000);
+    this.blocks.push({ track, timestamp, keyFrame: chunk.type === 'key', data });
+    this.endTime = Math.max(this.endTime, timestamp + (chunk.duration ?? 0) / 1000);
+  }
+
+  /** The finished file. Call once every chunk has been added */
+  finalize(): Blob {
+    const header = element(EBML, [
+      uint(EBML_VERSION, 1),
+      uint(EBML_READ_VERSION, 1),
+      uint(EBML_MAX_ID_LENGTH, 4),
+      uint(EBML_MAX_SIZE_LENGTH, 8),
+      string(DOC_TYPE, 'webm'),
+      uint(DOC_TYPE_VERSION, 4),
+      uint(DOC_TYPE_READ_VERSION, 2),
+    ]);
+
+    const info = element(INFO, [
+      uint(TIMECODE_SCALE, 1_000_000),   // block times in ms
+      float(DURATION, this.endTime),
+      string(MUXING_APP, 'PaperAnimate'),
+      string(WRITING_APP, 'PaperAnimate'),
+    ]);
+    const tracks = element(TRACKS, this.trackEntries());
+    const clusters = this.clusters();
+
+    // Positions count from the start of the Segment's data. The SeekHead
+    // writes them at a fixed width, so its size does not depend on them.
+    const seekHead = (positions: number[]) => element(SEEK_HEAD, [INFO, TRACKS, CUES].map((id, i) =>
+      element(SEEK, [element(SEEK_ID, bytes(idBytes(id))), uint(SEEK_POSITION, positions[i], 8)])
+    ));
+    const seekHeadSize = seekHead([0, 0, 0]).size;
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + info.size;
+    let position = tracksPosition + tracks.size;
+
+    const cuePoints: Encoded[] = [];
+    for (const cluster of clusters) {
+      if (cluster.cue) {
+        cuePoints.push(element(CUE_POINT, [
+          uint(CUE_TIME, cluster.time),
+          element(CUE_TRACK_POSITIONS, [uint(CUE_TRACK, VIDEO_TRACK), uint(CUE_CLUSTER_POSITION, position)]),
+        ]));
+      }
+      position += cluster.encoded.size;
+    }
+    const cues = element(CUES, cuePoints);
+
+    const segment = element(SEGMENT, [
+      seekHead([infoPosition, tracksPosition, position]),
+      info,
+      tracks,
+      ...clusters.map((cluster) => cluster.encoded),
+      cues,
+    ]);
+    return new Blob([...header.parts, ...segment.parts] as BlobPart[], { type: this.mimeType() });
+  }
+
+  mimeType(): string {
+    const video = this.video.codec === 'V_VP9' ? 'vp9' : 'vp8';
+    return `video/webm;codecs=${this.audio ? `${video},opus` : video}`;
+  }
+
+  private trackEntries(): Encoded[] {
+    const entries = [element(TRACK_ENTRY, [
+      uint(TRACK_NUMBER, VIDEO_TRACK),
+      uint(TRACK_UID, VIDEO_TRACK),
+      uint(TRACK_TYPE, 1),
+      uint(FLAG_LACING, 0),
+      string(CODEC_ID, this.video.codec),
+      element(VIDEO, [uint(PIXEL_WIDTH, this.video.width), uint(PIXEL_HEIGHT, this.video.height)]),
+    ])];
+
+    if (this.audio) {
+      const head = this.opusHead ?? opusHead(this.audio.channels, this.audio.sampleRate);
+      const preSkip = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+      entries.push(element(TRACK_ENTRY, [
+        uint(TRACK_NUMBER, AUDIO_TRACK),
+        uint(TRACK_UID, AUDIO_TRACK),
+        uint(TRACK_TYPE, 2),
+        uint(FLAG_LACING, 0),
+        string(CODEC_ID, 'A_OPUS'),
+        element(CODEC_PRIVATE, bytes(head)),
+        uint(CODEC_DELAY, Math.round((preSkip / OPUS_SAMPLE_RATE) * 1e9)),
+        uint(SEEK_PRE_ROLL, OPUS_SEEK_PRE_ROLL_NS),
+        element(AUDIO, [float(SAMPLING_FREQUENCY, this.audio.sampleRate), uint(CHANNELS, this.audio.channels)]),
+      ]));
+    }
+    return entries;
+  }
+
+  /**
+   * Blocks in time order, grouped into clusters. Each video key frame starts
+   * a cluster, so players can seek to any cluster listed in the Cues.
+   */
+  private clusters(): { time: number; cue: boolean; encoded: Encoded }[] {
+    const blocks = [...this.blocks].sort((a, b) => a.timestamp - b.timestamp || a.track - b.track);
+    const groups: { time: number; cue: boolean; blocks: Block[] }[] = [];
+
+    for (const block of blocks) {
+      const time = Math.round(block.timestamp);
+      const current = groups[groups.length - 1];
+      const keyFrame = block.track === VIDEO_TRACK && block.keyFrame;
+      if (!current || keyFrame || time - current.time > MAX_CLUSTER_SPAN) {
+        groups.push({ time, cue: keyFrame, blocks: [block] });
+      } else {
+        current.blocks.push(block);
+      }
+    }
+
+    return groups.map(({ time, cue, blocks: clusterBlocks }) => ({
+      time,
+      cue,
+      encoded: element(CLUSTER, [uint(TIMECODE, time), ...clusterBlocks.map((block) => simpleBlock(block, time))]),
+    }));
+  }
+}
@@ -4,6 +4,7 @@ export type FieldType = 'mathematics' | 'computer_science' | 'biology' | 'physic
 export type VisualStyle = 'minimal' | 'detailed';
 export type ColorScheme = 'light' | 'dark' | 'field-specific';
 export type NarratorPerspective = 'first-person' | 'third-person' | 'instructor';
+export type AudienceLevel = 'high-school' | 'undergraduate' | 'expert';
 
 // ============================================
 // Keyframe Types
@@ -21,6 +22,9 @@ export interface Keyframe {
   scale?: number | [number, number, number];
   opacity?: number;
   color?: string;
+  zoom?: number;         // image elements: magnification of the visible region (1 = fit)
+  panX?: number;         // image elements: focus point within the image, 0-1
+  panY?: number;
   easing?: string;       // controls interpolation FROM this keyframe TO next
 }
 
@@ -82,6 +86,8 @@ export interface PaperSection {
   animationData?: AnimationData;
   manimCode?: string;
   script?: SectionScript;
+  sourcePages?: number[]; // 1-based pages of the source document this section draws on
+  sourceChunks?: string[]; // ids of the source chunks ("C1", ...) this section draws on, for chunked analyses
 }
 
 export interface AnimationData {
@@ -101,7 +107,7 @@ export type ContinuousAnimation = 'float' | 'pulse' | 'rotate' | 'sway' | 'none'
 export type ExitAnimation = 'fadeOut' | 'slideDown' | 'scaleDown' | 'slideLeft' | 'none';
 
 export interface AnimationElement {
-  type: 'text' | 'shape' | 'equation' | 'line' | 'node' | 'edge' | 'molecule' | 'arrow' | 'highlight';
+  type: 'text' | 'shape' | 'equation' | 'line' | 'node' | 'edge' | 'molecule' | 'arrow' | 'highlight' | 'image' | 'table';
   props: Record<string, unknown>;
   animation: {
     enter: string; // 'fadeIn' | 'slideUp' | 'draw' | 'scale'
@@ -121,6 +127,238 @@ export interface AnalysisResult {
   suggestedStyle: VisualStyle;
   totalDuration: number; // estimated seconds
   presentationScript?: PresentationScript;
+  sourcePageCount?: number;
+  figures?: DocumentFigure[];
+  assets?: DocumentAsset[]; // project assets (figure images) referenced by image elements
+  sourceChunks?: SourceChunk[]; // present when the paper was too long for one pass and was analyzed in chunks
+  usage?: UsageSummary; // model calls made (or served from cache) for this analysis
+  promptVersions?: PromptVersions; // template versions the analysis was written with
+  language?: string; // BCP 47 tag of the narration language; English when omitted
+  speechTiming?: SpeechTiming; // spoken segment lengths measured with the narration voice
+}
+
+/** A contiguous part of the source that was summarized on its own */
+export interface SourceChunk {
+  id: string;             // "C1", "C2", ...
+  headings: string[];     // headings of the document sections it covers
+  sectionIds: string[];   // DocumentSection ids
+  pageStart?: number;
+  pageEnd?: number;
+  charCount: number;
+}
+
+export type AnalysisPhase = 'summarizing' | 'planning' | 'scripting' | 'repairing' | 'finalizing' | 'building-script';
+
+/** Progress report from a running analysis */
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  completed: number;
+  total: number;
+  message: string;
+}
+
+// ============================================
+// Analysis Jobs
+// ============================================
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobPhase = 'queued' | AnalysisPhase | 'section' | 'done';
+
+/** One server-sent event of an analysis job */
+export interface JobEvent {
+  id: number;              // sequence number within the job, sent as the SSE event id
+  type: 'phase' | 'section' | 'completed' | 'failed' | 'cancelled';
+  phase: JobPhase;
+  message: string;
+  completed?: number;
+  total?: number;
+  sectionIndex?: number;   // 'section' events
+  section?: PaperSection;
+  result?: AnalysisResult; // 'completed' events
+  error?: string;          // 'failed' events
+}
+
+/** State of an analysis job as returned by GET /api/jobs/:id */
+export interface AnalysisJobSnapshot {
+  id: string;
+  status: JobStatus;
+  phase: JobPhase;
+  message: string;
+  completed?: number;
+  total?: number;
+  sections: PaperSection[]; // generated sections, contiguous from the first
+  result?: AnalysisResult;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============================================
+// Prompt Templates
+// ============================================
+
+/** The prompt templates under prompts/, one directory of versions each */
+export type PromptName =
+  | 'chunk-summary'
+  | 'outline'
+  | 'section'
+  | 'animation-code'
+  | 'narration'
+  | 'segment'
+  | 'translation';
+
+/** Template version by prompt, e.g. { section: 2 }; the latest when omitted */
+export type PromptVersions = Partial<Record<PromptName, number>>;
+
+// ============================================
+// LLM Usage
+// ============================================
+
+/** What a model call was made for; the budget is reported per operation */
+export type UsageOperation = 'analysis' | 'section' | 'animation-code' | 'narration' | 'translation' | 'other';
+
+/** One model call, or one result served from the response cache */
+export interface LLMCallMetrics {
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  tokensEstimated: boolean; // the provider reported no counts; estimated from text length
+  latencyMs: number;
+  retries: number;
+  cacheHit: boolean;
+  failed?: boolean;         // every attempt failed; prompt tokens are estimated for each attempt
+  estimatedCost: number;    // USD
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cacheHits: number;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+  retries: number;
+  failures: number;
+  estimatedCost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byOperation: Partial<Record<UsageOperation, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/** Usage for the current month as returned by GET /api/usage */
+export interface UsageReport {
+  month: string;            // "2026-10"
+  summary: UsageSummary;
+  budget?: number;          // USD per month, from LLM_MONTHLY_BUDGET
+  recent: LLMCallMetrics[]; // newest first
+}
+
+/** Props of a `table` element, after the table data has been filled in */
+export interface TableElementProps {
+  tableId?: string;
+  header?: string[];
+  rows: string[][];
+  visibleRows?: number[];        // row indices to show (default all)
+  visibleColumns?: number[];     // column indices to show (default all)
+  reveal?: 'rows' | 'columns' | 'none';
+  highlightCells?: [number, number][]; // [row, column]
+  highlightRows?: number[];
+  highlightColumns?: number[];
+  sortBy?: { column: number; order?: 'asc' | 'desc' };
+}
+
+/** Region of an image to show, as fractions of its width and height */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// Extracted Document Types
+// ============================================
+
+export type DocumentSourceType = 'pdf' | 'text' | 'latex' | 'bundle';
+
+export interface DocumentParagraph {
+  text: string;
+  page?: number; // 1-based, only for paginated sources
+}
+
+export interface DocumentSection {
+  id: string;
+  heading: string;
+  level: number; // 0 = front matter, 1 = top-level heading, 2+ = nested
+  paragraphs: DocumentParagraph[];
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+/** A display equation lifted verbatim from LaTeX source */
+export interface DocumentEquation {
+  id: string;          // "E1", "E2", ... referenced as [E1] in paragraph text
+  latex: string;
+  environment: string; // source environment, e.g. 'align*' or 'displaymath'
+  label?: string;
+  sectionId: string;
+}
+
+export interface DocumentFigure {
+  id: string;          // "F1", "F2", ...
+  caption: string;
+  label?: string;
+  sectionId: string;
+  page?: number;       // 1-based, only for paginated sources
+  graphics?: string[]; // \includegraphics paths as written in the source
+  assetIds?: string[]; // resolved image assets
+}
+
+/** A table recovered as a grid of cell strings */
+export interface DocumentTable {
+  id: string;          // "T1", "T2", ... referenced as [T1] in paragraph text
+  caption: string;
+  label?: string;
+  sectionId: string;
+  page?: number;       // 1-based, only for paginated sources
+  header?: string[];
+  rows: string[][];
+}
+
+/** A file carried along with the document (figure image, bibliography) */
+export interface DocumentAsset {
+  id: string;
+  kind: 'image' | 'bibliography';
+  path: string;
+  mimeType: string;
+  byteLength: number;
+  src?: string;        // data: URL, only for formats a browser can display
+}
+
+export interface BibliographyEntry {
+  key: string;
+  type: string;
+  title?: string;
+  authors?: string[];
+  year?: string;
+  venue?: string;
+}
+
+export interface ExtractedDocument {
+  source: DocumentSourceType;
+  title?: string;
+  pageCount?: number;
+  sections: DocumentSection[];
+  equations?: DocumentEquation[];
+  figures?: DocumentFigure[];
+  tables?: DocumentTable[];
+  assets?: DocumentAsset[];
+  bibliography?: BibliographyEntry[];
+  sourceFiles?: string[]; // files that were stitched together, main file first
 }
 
 export interface UserSettings {
@@ -132,6 +370,8 @@ export interface UserSettings {
   includeCode: boolean;
   showNarration: boolean;
   narratorPerspective: NarratorPerspective;
+  audienceLevel: AudienceLevel;
+  language: string; // narration and caption language, a code from LANGUAGES
   enableDoodles: boolean;
   enableCharacter: boolean;
 }
@@ -163,6 +403,16 @@ export interface NarrationSegment {
   endTime: number;
   emphasis?: string[];
   pacing: PacingType;
+  citations?: SourceCitation[]; // passages of the paper the segment is based on
+  unsupported?: boolean;        // set by verification when none of the citations were found in the paper
+}
+
+/** A passage quoted from the paper in support of a narration segment */
+export interface SourceCitation {
+  quote: string;
+  page?: number;     // 1-based page the quote was found on (paginated sources)
+  offset?: number;   // character offset of the quote in documentToText() of the source
+  verified: boolean; // the quote was found in the source
 }
 
 export interface SectionScript {
@@ -179,6 +429,25 @@ export interface SectionTransition {
   duration: number;
 }
 
+/**
+ * How long the narration voice takes to speak segments, measured in the
+ * browser. Segments with a measurement use it; the rest are scaled from the
+ * voice's measured seconds per word.
+ */
+export interface SpeechTiming {
+  voice: string;                       // voiceURI, or 'default' for the browser's choice
+  rate: number;
+  language: string;                    // narration language the measurements were made in
+  measured: Record<string, number>;    // seconds by segment text
+  locked: boolean;                     // measurements no longer change the timings
+}
+
+/** The voice and rate narration is spoken with, keyed as in SpeechTiming */
+export interface NarrationVoice {
+  voice: string;
+  rate: number;
+}
+
 export interface PresentationScript {
   paperTitle: string;
   sections: SectionScript[];
@@ -192,6 +461,7 @@ export interface TimelineState {
   segmentIndex: number;
   sectionProgress: number;
   segmentProgress: number;
+  stepProgress: number;     // 0-1 across the segments narrating the active step
   activeStepId: string;
   currentText: string;
   emphasis: string[];
@@ -200,3 +470,46 @@ export interface TimelineState {
   toSection?: number;
   transitionProgress?: number;
 }
+
+/**
+ * Something that happened on the timeline. During playback every event the
+ * playhead passed fires in order, however far one frame jumps; a seek fires
+ * only the exits and enters that change what is active (`seek: true`).
+ */
+export type TimelineEvent = { time: number; seek: boolean } & (
+  | { type: 'sectionEnter' | 'sectionExit'; sectionIndex: number }
+  | { type: 'segmentEnter' | 'segmentExit'; sectionIndex: number; segmentIndex: number; segment: NarrationSegment }
+  | { type: 'stepEnter'; sectionIndex: number; stepId: string }
+  | { type: 'transitionStart' | 'transitionEnd'; fromSection: number; toSection: number }
+  | { type: 'emphasisWord'; sectionIndex: number; segmentIndex: number; word: string }
+  | { type: 'complete' }
+  | { type: 'marker'; name: string; data?: unknown }
+);
+
+export type TimelineEventType = TimelineEvent['type'];
+
+/** A named cue at an absolute time, or at an offset (seconds) into a segment */
+export type TimelineMarker =
+  | { name: string; time: number; data?: unknown }
+  | { name: string; segmentId: string; offset: number; data?: unknown };
+
+// ============================================
+// Video Export
+// ============================================
+
+export type VideoFormat = 'webm' | 'mp4';
+
+export interface VideoExportSettings {
+  format: VideoFormat;
+  width: number;
+  height: number;
+  fps: number;
+  sectionIndex: number | null;   // export one section, or null for the whole presentation
+  captions: boolean;             // burn the captions into the picture
+}
+
+export interface VideoExportProgress {
+  phase: 'preparing' | 'rendering' | 'finishing';
+  frame: number;
+  totalFrames: number;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePaper } from '@/lib/gemini';
+import { REPLAY_PAPER_TEXT, REPLAY_SETTINGS } from './replay-paper';
+
+describe('analyzePaper against recorded replies', () => {
+  it('builds the analysis from the outline and section fixtures', async () => {
+    const analysis = await analyzePaper(REPLAY_PAPER_TEXT, 'first-person', REPLAY_SETTINGS);
+
+    expect(analysis.title).toBe('Gradient Descent with Momentum');
+    expect(analysis.field).toBe('computer_science');
+    expect(analysis.language).toBe('en');
+    expect(analysis.sections.map((section) => section.title)).toEqual(['Following the Gradient', 'Adding Momentum']);
+
+    const [first, second] = analysis.sections;
+    expect(first.script?.segments.map((segment) => segment.stepId)).toEqual(['step-1', 'step-2']);
+    expect(second.animationData?.steps).toHaveLength(2);
+
+    // Quotes are checked against the paper
+    expect(first.script?.segments[0].citations?.[0].verified).toBe(true);
+    expect(second.script?.segments[0].citations?.[0].verified).toBe(true);
+
+    expect(analysis.usage?.calls).toBe(3);
+    expect(Object.keys(analysis.usage?.byModel ?? {})).toEqual(['mock/fixture']);
+  });
+
+  it('fails on a prompt that was never recorded', async () => {
+    await expect(analyzePaper(`${REPLAY_PAPER_TEXT}\n\n3 Conclusion\nMomentum helps.`, 'first-person', REPLAY_SETTINGS))
+      .rejects.toThrow(/No LLM fixture/);
+  });
+});
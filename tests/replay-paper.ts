@@ -0,0 +1,28 @@
+/**
+ * The paper the replay tests analyze. Its fixtures under fixtures/llm were
+ * recorded from this exact text and these settings; changing either, or a
+ * prompt template, needs a new recording (LLM_FIXTURES=record).
+ */
+
+import type { AnalysisSettings } from '@/lib/gemini';
+
+export const REPLAY_PAPER_TEXT = `Gradient Descent with Momentum
+
+Abstract
+We study gradient descent with a momentum term. Adding a fraction of the previous update to the current one damps oscillations across narrow valleys and speeds up progress along them.
+
+1 Method
+Plain gradient descent updates the parameters by a step against the gradient. Momentum keeps a running velocity: each step adds the new gradient to a decayed copy of the velocity and moves the parameters by the velocity.
+
+2 Results
+On ill-conditioned quadratic problems, momentum reaches the minimum in far fewer steps than plain gradient descent, because oscillating components of the gradient cancel out over consecutive steps while the consistent direction accumulates.`;
+
+export const REPLAY_SETTINGS: AnalysisSettings = {
+  audienceLevel: 'undergraduate',
+  language: 'en',
+  visualStyle: 'minimal',
+  colorScheme: 'dark',
+  animationDuration: 5,
+  includeEquations: true,
+  includeCode: false,
+};
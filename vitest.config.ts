@@ -0,0 +1,19 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Tests run offline: model calls are answered from recorded fixtures, and
+// neither the response cache nor the usage ledger touches the disk
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    env: {
+      LLM_FIXTURES: 'replay',
+      LLM_FIXTURE_DIR: 'tests/fixtures/llm',
+      LLM_CACHE: 'off',
+      LLM_USAGE: 'off',
+    },
+  },
+});